@@ -0,0 +1,92 @@
+import { test, expect, Page, Locator } from '@playwright/test';
+
+// Signed in as the seeded dev@example.com. Each test adds its own task and
+// deletes it afterwards, along with any items it was scheduled as.
+
+let taskId: string | null = null;
+
+async function signIn(page: Page) {
+  await page.goto('/login');
+  await page.locator('input[type="email"]').fill('dev@example.com');
+  await page.locator('input[type="password"]').fill('password');
+  await page.locator('button[type="submit"]').click();
+  await page.waitForURL('**/dashboard');
+}
+
+/** A new pending task, shown in the task list */
+async function addTask(page: Page): Promise<string> {
+  const title = `Drag me ${Date.now()}`;
+  const response = await page.request.put('/api/tasks', { data: { tasksToAdd: [{ title, estimated_duration: 30 }] } });
+  expect(response.ok()).toBe(true);
+  taskId = (await response.json()).tasks[0].id;
+
+  await page.reload();
+  await expect(page.getByText(title, { exact: true })).toBeVisible();
+  return title;
+}
+
+/**
+ * Drag with the mouse the way a user would. dnd-kit's pointer sensor only
+ * starts a drag after 8px of movement, and drops on whatever is under the pointer.
+ */
+async function drag(page: Page, source: Locator, target: Locator) {
+  const from = (await source.boundingBox())!;
+  const to = (await target.boundingBox())!;
+
+  await page.mouse.move(from.x + from.width / 2, from.y + from.height / 2);
+  await page.mouse.down();
+  await page.mouse.move(from.x + from.width / 2 + 12, from.y + from.height / 2, { steps: 4 });
+  await page.mouse.move(to.x + to.width / 2, to.y + to.height / 2, { steps: 12 });
+  await page.mouse.up();
+}
+
+const dropZone = (page: Page) => page.getByTestId('schedule-drop-zone');
+const selectedDay = (page: Page) => page.locator('button[data-date][aria-pressed="true"]');
+const otherDay = (page: Page) => page.locator('button[data-date][aria-pressed="false"]').first();
+
+test.beforeEach(async ({ page }) => {
+  await signIn(page);
+});
+
+test.afterEach(async ({ page }) => {
+  if (taskId) await page.request.delete('/api/tasks', { data: { taskId } });
+  taskId = null;
+});
+
+test('dropping a task on the schedule adds it to the selected day', async ({ page }) => {
+  const title = await addTask(page);
+
+  await drag(page, page.getByText(title, { exact: true }), dropZone(page));
+
+  await expect(dropZone(page).getByText(title, { exact: true })).toBeVisible();
+  await page.reload();
+  await expect(dropZone(page).getByText(title, { exact: true })).toBeVisible();
+});
+
+test('dropping a task on a week day adds it to that day', async ({ page }) => {
+  const title = await addTask(page);
+  const day = otherDay(page);
+  const date = await day.getAttribute('data-date');
+
+  await drag(page, page.getByText(title, { exact: true }), day);
+  await expect(dropZone(page).getByText(title, { exact: true })).toHaveCount(0);
+
+  await page.locator(`button[data-date="${date}"]`).click();
+  await expect(selectedDay(page)).toHaveAttribute('data-date', date!);
+  await expect(dropZone(page).getByText(title, { exact: true })).toBeVisible();
+});
+
+test('dropping a schedule item on a week day moves it there', async ({ page }) => {
+  const title = await addTask(page);
+  await drag(page, page.getByText(title, { exact: true }), dropZone(page));
+  const item = dropZone(page).getByText(title, { exact: true });
+  await expect(item).toBeVisible();
+
+  const day = otherDay(page);
+  const date = await day.getAttribute('data-date');
+  await drag(page, item, day);
+  await expect(item).toHaveCount(0);
+
+  await page.locator(`button[data-date="${date}"]`).click();
+  await expect(dropZone(page).getByText(title, { exact: true })).toBeVisible();
+});
@@ -3,6 +3,8 @@
 import { NextResponse, type NextRequest } from 'next/server'
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
 
+const PROTECTED_PATHS = ['/dashboard', '/settings']
+
 export async function middleware(request: NextRequest) {
   let response = NextResponse.next({
     request: {
@@ -34,7 +36,20 @@ export async function middleware(request: NextRequest) {
   )
 
   // Refresh session if expired
-  await supabase.auth.getUser()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  // Signed-out visitors never see the app shell; send them to log in and back
+  if (!user && PROTECTED_PATHS.some(path => request.nextUrl.pathname.startsWith(path))) {
+    const loginUrl = request.nextUrl.clone()
+    loginUrl.pathname = '/login'
+    loginUrl.search = ''
+    loginUrl.searchParams.set('next', request.nextUrl.pathname)
+
+    const redirect = NextResponse.redirect(loginUrl)
+    // Keep any cookies the refresh cleared or rewrote
+    response.cookies.getAll().forEach(cookie => redirect.cookies.set(cookie))
+    return redirect
+  }
 
   return response
 }
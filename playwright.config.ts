@@ -0,0 +1,23 @@
+import { defineConfig, devices } from '@playwright/test';
+
+// End-to-end tests (npm run test:e2e). They drive the dashboard against the
+// local Supabase stack and its seed data, so run `supabase start` and
+// `supabase db reset` first (see the README). The dev server is started here
+// unless one is already running.
+export default defineConfig({
+  testDir: 'e2e',
+  // The tests share the seeded user's schedule
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  use: {
+    baseURL: 'http://localhost:3000',
+    trace: 'retain-on-failure',
+  },
+  projects: [{ name: 'chromium', use: { ...devices['Desktop Chrome'] } }],
+  webServer: {
+    command: 'npm run dev',
+    url: 'http://localhost:3000',
+    reuseExistingServer: true,
+    timeout: 120_000,
+  },
+});
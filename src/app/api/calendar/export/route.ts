@@ -0,0 +1,52 @@
+// src/app/api/calendar/export/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { serializeIcs } from '@/lib/ics';
+import { loadSchedulesForRange, scheduleItemsToIcsEvents } from '@/lib/schedule-export';
+import { addCalendarDays, getWeekDatesFor } from '@/lib/time-zones';
+import { loadUserSettings, getSettingsTimeZone } from '@/lib/user-settings';
+
+// Download a day or week of the schedule: ?date=yyyy-MM-dd&range=day|week&breaks=false&timeZone=...
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:read');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date');
+    if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json({ error: 'A date (yyyy-MM-dd) is required' }, { status: 400 });
+    }
+
+    // Weeks start on Sunday, like the dashboard's week strip
+    const range = searchParams.get('range') === 'week' ? 'week' : 'day';
+    const from = range === 'week' ? getWeekDatesFor(date)[0] : date;
+    const to = range === 'week' ? addCalendarDays(from, 6) : date;
+
+    const schedules = await loadSchedulesForRange(supabase, user.id, from, to);
+    const events = scheduleItemsToIcsEvents(schedules, {
+      includeBreaks: searchParams.get('breaks') !== 'false',
+      timeZone: getSettingsTimeZone(await loadUserSettings(supabase, user.id), searchParams.get('timeZone')),
+    });
+
+    const body = serializeIcs(events, range === 'week' ? `Schedule, week of ${from}` : `Schedule, ${from}`);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="schedule-${range === 'week' ? `week-${from}` : from}.ics"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Calendar export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/calendar/feed/[token]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase-server';
+import { serializeIcs } from '@/lib/ics';
+import { loadSchedulesForRange, scheduleItemsToIcsEvents } from '@/lib/schedule-export';
+import { hashToken } from '@/lib/tokens';
+import { addCalendarDays, getZonedToday } from '@/lib/time-zones';
+import { loadUserSettings, getSettingsTimeZone } from '@/lib/user-settings';
+
+// How much of the schedule a subscribed calendar sees
+const FEED_DAYS_BACK = 14;
+const FEED_DAYS_AHEAD = 28;
+
+// Subscribable feed. Calendar clients can't send a bearer token, so the
+// secret in the URL is the credential: ?timeZone=...&breaks=false
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = createServiceClient();
+
+    const { data: feed } = await supabase
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token_hash', hashToken(token))
+      .maybeSingle();
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const timeZone = getSettingsTimeZone(await loadUserSettings(supabase, feed.user_id), searchParams.get('timeZone'));
+    const today = getZonedToday(timeZone);
+    const schedules = await loadSchedulesForRange(
+      supabase,
+      feed.user_id,
+      addCalendarDays(today, -FEED_DAYS_BACK),
+      addCalendarDays(today, FEED_DAYS_AHEAD)
+    );
+
+    const events = scheduleItemsToIcsEvents(schedules, {
+      includeBreaks: searchParams.get('breaks') !== 'false',
+      timeZone,
+    });
+
+    return new NextResponse(serializeIcs(events, 'TaskFlow schedule'), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+// src/app/api/calendar/feed/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { generateToken, hashToken } from '@/lib/tokens';
+import { isValidTimeZone } from '@/lib/time-zones';
+
+// Managing the feed takes a signed-in session: an access token could otherwise
+// mint a URL that outlives its own scopes, expiry and revocation
+
+// Create (or rotate) the user's feed URL. The token is only ever shown here;
+// creating a new one invalidates the previous URL.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request);
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { includeBreaks = true, timeZone } = await request.json().catch(() => ({}));
+    const token = generateToken();
+
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .upsert({
+        user_id: user.id,
+        token_hash: hashToken(token),
+        created_at: new Date().toISOString(),
+      }, {
+        onConflict: 'user_id'
+      });
+
+    if (error) throw error;
+
+    const url = new URL(`/api/calendar/feed/${token}`, request.nextUrl.origin);
+    // Without an explicit zone the feed follows the one in the user's settings
+    if (timeZone && isValidTimeZone(timeZone)) url.searchParams.set('timeZone', timeZone);
+    if (!includeBreaks) url.searchParams.set('breaks', 'false');
+
+    return NextResponse.json({ success: true, url: url.toString() });
+
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke the feed URL
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request);
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .update({ token_hash: null })
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { ScheduleItem } from '@/types';
+import { Repositories } from '@/lib/repositories';
+import { createMemoryRepositories, MemoryData } from '@/lib/memory-repositories';
+import { POST, GET } from './route';
+
+const USER = 'user-1';
+
+let data: MemoryData;
+let repositories: Repositories;
+let calendarUrl: string | null;
+
+vi.mock('@/lib/api-auth', () => ({
+  getAuthenticatedUser: async () => ({ user: { id: USER }, error: null, status: 200, supabase: {} }),
+}));
+
+vi.mock('@/lib/repositories', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/repositories')>()),
+  createSupabaseRepositories: () => repositories,
+}));
+
+vi.mock('@/lib/user-settings', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/user-settings')>();
+  return {
+    ...actual,
+    loadUserSettings: async (_supabase: unknown, userId: string) =>
+      ({ ...actual.DEFAULT_USER_SETTINGS, time_zone: 'UTC', calendar_url: calendarUrl, user_id: userId }),
+  };
+});
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'X-WR-CALNAME:Work',
+  'BEGIN:VEVENT',
+  'UID:review',
+  'SUMMARY:Design review',
+  'DTSTART:20261020T093000Z',
+  'DTEND:20261020T100000Z',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+const savedItems = () => data.scheduleItems
+  .map(item => [item.item_type, item.title, item.start_time.slice(0, 5), item.end_time.slice(0, 5)])
+  .sort((a, b) => a[2].localeCompare(b[2]));
+
+beforeEach(() => {
+  calendarUrl = null;
+  data = {
+    tasks: [],
+    schedules: [{ id: 's1', user_id: USER, schedule_date: '2026-10-20', schedule_data: { total_hours: 7, work_blocks: 2, break_blocks: 0 }, created_at: '' }],
+    scheduleItems: [
+      { id: 'i1', schedule_id: 's1', start_time: '09:00', end_time: '10:00', item_type: 'task', title: 'Write the launch plan', completed: false },
+      { id: 'i2', schedule_id: 's1', start_time: '10:00', end_time: '11:00', item_type: 'task', title: 'Book flights', completed: false },
+      {
+        id: 'gone', schedule_id: 's1', start_time: '15:00', end_time: '16:00', item_type: 'event', title: 'Cancelled 1:1',
+        completed: false, external_uid: 'one-on-one', external_calendar: 'upload:Work',
+      },
+    ] as ScheduleItem[],
+    patterns: [],
+    rollovers: [],
+  };
+  repositories = createMemoryRepositories(data);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('POST /api/calendar/import', () => {
+  it('adds new events, clears ones gone from the calendar and re-flows the day in one edit', async () => {
+    const edit = vi.spyOn(repositories.scheduleItems, 'edit');
+
+    const response = await POST(new NextRequest('http://localhost/api/calendar/import', {
+      method: 'POST',
+      body: JSON.stringify({ ics: ICS, date: '2026-10-20' }),
+    }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ imported: 1, updated: 0, removed: 1, dates: ['2026-10-20'] });
+    expect(edit).toHaveBeenCalledTimes(1);
+    expect(savedItems()).toEqual([
+      ['event', 'Design review', '09:30', '10:00'],
+      ['task', 'Write the launch plan', '10:00', '11:00'],
+      ['task', 'Book flights', '11:00', '12:00'],
+    ]);
+    expect(data.scheduleItems.find(item => item.item_type === 'event'))
+      .toMatchObject({ external_uid: 'review', external_calendar: 'upload:Work' });
+  });
+
+  it('writes nothing when the edit fails', async () => {
+    vi.spyOn(repositories.scheduleItems, 'edit').mockRejectedValue(new Error('connection lost'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const before = structuredClone(data.scheduleItems);
+
+    const response = await POST(new NextRequest('http://localhost/api/calendar/import', {
+      method: 'POST',
+      body: JSON.stringify({ ics: ICS, date: '2026-10-20' }),
+    }));
+
+    expect(response.status).toBe(500);
+    expect(data.scheduleItems).toEqual(before);
+  });
+});
+
+describe('GET /api/calendar/import', () => {
+  const request = () => new NextRequest('http://localhost/api/calendar/import?date=2026-10-20&days=1');
+
+  it('answers 404 when the user has no calendar_url', async () => {
+    const fetchCalendar = vi.fn();
+    vi.stubGlobal('fetch', fetchCalendar);
+
+    expect((await GET(request())).status).toBe(404);
+    expect(fetchCalendar).not.toHaveBeenCalled();
+  });
+
+  it('syncs the user\'s own feed under a hash of its URL', async () => {
+    calendarUrl = 'https://calendar.example.com/private-abc123/basic.ics';
+    const fetchCalendar = vi.fn(async () => new Response(ICS));
+    vi.stubGlobal('fetch', fetchCalendar);
+
+    const response = await GET(request());
+
+    expect(response.status).toBe(200);
+    expect(fetchCalendar).toHaveBeenCalledWith(calendarUrl, { cache: 'no-store' });
+    const imported = data.scheduleItems.find(item => item.external_uid === 'review');
+    expect(imported?.external_calendar).toMatch(/^feed:[0-9a-f]{16}$/);
+  });
+});
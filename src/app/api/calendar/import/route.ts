@@ -0,0 +1,265 @@
+// src/app/api/calendar/import/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { addDays, format, parseISO } from 'date-fns';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { Repositories, ScheduleItemEdit, createSupabaseRepositories } from '@/lib/repositories';
+import { parseIcs, getCalendarOccurrences, getCalendarName } from '@/lib/ics';
+import { loadUserSettings, getSettingsTimeZone, getDayProfile, SettingsInput } from '@/lib/user-settings';
+import { isFixedItemType, flowAroundFixed } from '@/lib/fixed-events';
+import { timeToMinutes } from '@/lib/format-time';
+import { CalendarImportResult, ScheduleItem } from '@/types';
+
+const MAX_DAYS = 31;
+
+interface ImportParams {
+  date?: string | null;
+  days?: string | number | null;
+  timeZone?: string | null;
+  calendar?: string | null; // names an uploaded calendar; defaults to its X-WR-CALNAME
+}
+
+function getImportDates(params: ImportParams): string[] | null {
+  if (!params.date || !/^\d{4}-\d{2}-\d{2}$/.test(params.date)) return null;
+  const days = Math.min(Math.max(parseInt(String(params.days ?? 1), 10) || 1, 1), MAX_DAYS);
+  const start = parseISO(params.date);
+  return Array.from({ length: days }, (_, i) => format(addDays(start, i), 'yyyy-MM-dd'));
+}
+
+/** The user's calendar_url, which settings only accept as http(s) */
+async function fetchConfiguredCalendar(url: string): Promise<string> {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Calendar fetch failed with ${response.status}`);
+  }
+  return response.text();
+}
+
+/** An upload is recorded under the name it was given, else the calendar's own name */
+function getUploadCalendar(ics: string, params: ImportParams): string {
+  const name = typeof params.calendar === 'string' ? params.calendar.trim() : '';
+  return `upload:${name || getCalendarName(ics) || 'calendar'}`;
+}
+
+/** A feed is recorded under a hash of its URL, which may carry a secret */
+function getFeedCalendar(url: string): string {
+  return `feed:${createHash('sha256').update(url).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Turn the calendar's busy time on `dates` into fixed 'event' items. Items are
+ * matched on external_uid within `calendar`, so a re-import moves or retitles
+ * what is already there, and events that disappeared from that calendar are
+ * cleared; other calendars' events are left alone. The rest of each touched
+ * day is re-flowed around the events. Every item change is written in one
+ * transaction.
+ */
+async function importCalendar(
+  { schedules: scheduleRepository, scheduleItems }: Repositories,
+  userId: string,
+  ics: string,
+  dates: string[],
+  calendar: string,
+  settings: SettingsInput,
+  timeZone: string
+): Promise<CalendarImportResult> {
+  const occurrences = getCalendarOccurrences(parseIcs(ics), dates, timeZone);
+
+  // The import dates are consecutive, so they are one range
+  const schedules = await scheduleRepository.listRange(userId, dates[0], dates[dates.length - 1]);
+
+  const scheduleIdByDate = new Map<string, string>(schedules.map(s => [s.schedule_date, s.id]));
+  // Each day's items as they will be after the import, to re-flow before anything is written
+  const itemsBySchedule = new Map<string, ScheduleItem[]>(schedules.map(s => [s.id, [...(s.items || [])]]));
+  // Items imported before sources were recorded are adopted by whichever calendar still has them
+  const existingByUid = new Map<string, ScheduleItem>();
+  const unclaimedByUid = new Map<string, ScheduleItem>();
+  for (const schedule of schedules) {
+    for (const item of schedule.items || []) {
+      if (!item.external_uid) continue;
+      if (item.external_calendar === calendar) existingByUid.set(item.external_uid, item);
+      else if (!item.external_calendar) unclaimedByUid.set(item.external_uid, item);
+    }
+  }
+
+  const result: CalendarImportResult = { imported: 0, updated: 0, removed: 0, dates: [] };
+  const touchedScheduleIds = new Set<string>();
+  const edit: Required<ScheduleItemEdit> = { updates: [], added: [], deleted: [] };
+
+  const place = (scheduleId: string, item: ScheduleItem) => {
+    itemsBySchedule.set(scheduleId, [...(itemsBySchedule.get(scheduleId) || []).filter(i => i.id !== item.id), item]);
+  };
+
+  for (const occurrence of occurrences) {
+    let scheduleId = scheduleIdByDate.get(occurrence.date);
+    if (!scheduleId) {
+      const newSchedule = await scheduleRepository.getOrCreate(userId, occurrence.date, {
+        total_hours: getDayProfile(settings, occurrence.date).workHours,
+        work_blocks: 0,
+        break_blocks: 0,
+      });
+      scheduleId = newSchedule.id;
+      scheduleIdByDate.set(occurrence.date, scheduleId);
+    }
+
+    const fields = {
+      item_type: 'event' as const,
+      title: occurrence.title,
+      start_time: occurrence.start_time,
+      end_time: occurrence.end_time,
+    };
+
+    const existing = existingByUid.get(occurrence.external_uid) ?? unclaimedByUid.get(occurrence.external_uid);
+    if (existing) {
+      existingByUid.delete(occurrence.external_uid);
+      unclaimedByUid.delete(occurrence.external_uid);
+      if (existing.schedule_id !== scheduleId) {
+        touchedScheduleIds.add(existing.schedule_id);
+        itemsBySchedule.set(existing.schedule_id, itemsBySchedule.get(existing.schedule_id)!.filter(i => i.id !== existing.id));
+      }
+      const { title, start_time, end_time } = fields;
+      edit.updates.push({ id: existing.id, title, start_time, end_time, schedule_id: scheduleId, external_calendar: calendar });
+      place(scheduleId, { ...existing, ...fields, schedule_id: scheduleId });
+      result.updated++;
+    } else {
+      edit.added.push({ ...fields, schedule_id: scheduleId, external_uid: occurrence.external_uid, external_calendar: calendar });
+      place(scheduleId, { ...fields, id: `new:${occurrence.external_uid}`, schedule_id: scheduleId, completed: false });
+      result.imported++;
+    }
+    touchedScheduleIds.add(scheduleId);
+  }
+
+  // Anything imported earlier from this calendar that is no longer in it
+  const stale = [...existingByUid.values()];
+  for (const item of stale) {
+    edit.deleted.push(item.id);
+    itemsBySchedule.set(item.schedule_id, itemsBySchedule.get(item.schedule_id)!.filter(i => i.id !== item.id));
+    touchedScheduleIds.add(item.schedule_id);
+  }
+  result.removed = stale.length;
+
+  for (const scheduleId of touchedScheduleIds) {
+    edit.updates.push(...reflow(itemsBySchedule.get(scheduleId) || []));
+  }
+
+  await scheduleItems.edit(edit);
+
+  result.dates = [...scheduleIdByDate.entries()]
+    .filter(([, id]) => touchedScheduleIds.has(id))
+    .map(([date]) => date)
+    .sort();
+
+  return result;
+}
+
+/** New times for the day's movable items, pushed clear of its fixed ones in their order */
+function reflow(items: ScheduleItem[]): ScheduleItemEdit['updates'] {
+  const fixed = items.filter(item => isFixedItemType(item.item_type));
+  const movable = items
+    .filter(item => !isFixedItemType(item.item_type))
+    .sort((a, b) => a.start_time.localeCompare(b.start_time));
+  if (movable.length === 0) return [];
+
+  const reflowed = flowAroundFixed(movable, fixed, timeToMinutes(movable[0].start_time));
+  return reflowed
+    .filter((item, i) => item.start_time !== movable[i].start_time.slice(0, 5))
+    .map(({ id, start_time, end_time }) => ({ id, start_time, end_time }));
+}
+
+// Upload an .ics file: multipart form with a `file` field, or JSON { ics, date, days, timeZone, calendar }
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'schedules:generate');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    let ics: string | null = null;
+    let params: ImportParams;
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      ics = file instanceof File ? await file.text() : null;
+      params = {
+        date: form.get('date') as string | null,
+        days: form.get('days') as string | null,
+        timeZone: form.get('timeZone') as string | null,
+        calendar: form.get('calendar') as string | null,
+      };
+    } else {
+      const body = await request.json();
+      ics = typeof body.ics === 'string' ? body.ics : null;
+      params = body;
+    }
+
+    const dates = getImportDates(params);
+    if (!dates) {
+      return NextResponse.json({ error: 'A date (yyyy-MM-dd) is required' }, { status: 400 });
+    }
+    if (!ics || !ics.includes('BEGIN:VCALENDAR')) {
+      return NextResponse.json({ error: 'Not an iCalendar (.ics) file' }, { status: 400 });
+    }
+
+    const settings = await loadUserSettings(supabase, user.id);
+    const result = await importCalendar(
+      createSupabaseRepositories(supabase), user.id, ics, dates,
+      getUploadCalendar(ics, params), settings, getSettingsTimeZone(settings, params.timeZone)
+    );
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    console.error('Calendar import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import calendar' },
+      { status: 500 }
+    );
+  }
+}
+
+// Poll the calendar the user set as calendar_url: ?date=yyyy-MM-dd&days=7&timeZone=...
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'schedules:generate');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const settings = await loadUserSettings(supabase, user.id);
+    const calendarUrl = settings.calendar_url;
+    if (!calendarUrl) {
+      return NextResponse.json({ error: 'No calendar configured' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params: ImportParams = {
+      date: searchParams.get('date'),
+      days: searchParams.get('days'),
+      timeZone: searchParams.get('timeZone'),
+    };
+
+    const dates = getImportDates(params);
+    if (!dates) {
+      return NextResponse.json({ error: 'A date (yyyy-MM-dd) is required' }, { status: 400 });
+    }
+
+    const ics = await fetchConfiguredCalendar(calendarUrl);
+    const result = await importCalendar(
+      createSupabaseRepositories(supabase), user.id, ics, dates,
+      getFeedCalendar(calendarUrl), settings, getSettingsTimeZone(settings, params.timeZone)
+    );
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    console.error('Calendar sync error:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync calendar' },
+      { status: 500 }
+    );
+  }
+}
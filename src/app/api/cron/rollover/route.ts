@@ -0,0 +1,50 @@
+// src/app/api/cron/rollover/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase-server';
+import { createSupabaseRepositories } from '@/lib/repositories';
+import { runRolloverForUser, ROLLOVER_LOOKBACK_DAYS } from '@/lib/rollover';
+import { addCalendarDays, getZonedToday, resolveTimeZone } from '@/lib/time-zones';
+
+// Hourly job (see vercel.json). Each user's days close at their own end of day,
+// so every run just asks each user with recent schedules to catch up.
+// Authorized with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createServiceClient();
+
+    // Padded by a day either way to cover every time zone
+    const today = getZonedToday(resolveTimeZone());
+    const userIds = await createSupabaseRepositories(supabase).schedules.listUserIds(
+      addCalendarDays(today, -(ROLLOVER_LOOKBACK_DAYS + 1)),
+      addCalendarDays(today, 1)
+    );
+    let rolledOver = 0;
+    let failed = 0;
+
+    for (const userId of userIds) {
+      try {
+        const logs = await runRolloverForUser(supabase, userId);
+        rolledOver += logs.reduce((sum, log) => sum + log.task_ids.length, 0);
+      } catch (userError) {
+        // One bad account shouldn't stop everyone else's rollover
+        console.error(`Rollover failed for user ${userId}:`, userError);
+        failed++;
+      }
+    }
+
+    return NextResponse.json({ success: true, users: userIds.length, rolledOver, failed });
+
+  } catch (error) {
+    console.error('Rollover job error:', error);
+    return NextResponse.json(
+      { error: 'Rollover job failed' },
+      { status: 500 }
+    );
+  }
+}
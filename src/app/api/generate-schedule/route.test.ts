@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { Task, ScheduleItem } from '@/types';
+import { Repositories } from '@/lib/repositories';
+import { createMemoryRepositories, MemoryData } from '@/lib/memory-repositories';
+import { POST } from './route';
+
+const USER = 'user-1';
+const T1 = '00000000-0000-4000-8000-0000000000a1';
+const T2 = '00000000-0000-4000-8000-0000000000a2';
+
+let data: MemoryData;
+let repositories: Repositories;
+
+vi.mock('@/lib/api-auth', () => ({
+  getAuthenticatedUser: async () => ({ user: { id: USER }, error: null, status: 200, supabase: {} }),
+}));
+
+vi.mock('@/lib/repositories', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/repositories')>()),
+  createSupabaseRepositories: () => repositories,
+}));
+
+vi.mock('@/lib/user-settings', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/user-settings')>();
+  return {
+    ...actual,
+    loadUserSettings: async (_supabase: unknown, userId: string) => ({ ...actual.DEFAULT_USER_SETTINGS, time_zone: 'UTC', user_id: userId }),
+  };
+});
+
+vi.mock('@/lib/llm-usage', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/llm-usage')>()),
+  checkLlmQuota: async () => ({ allowed: true }),
+  trackLlmCall: (_supabase: unknown, _userId: string, _operation: string, _provider: unknown, run: (meter: object) => Promise<unknown>) =>
+    run({ input_tokens: 0, output_tokens: 0 }),
+}));
+
+const task = (id: string, title: string, estimated_duration: number): Task =>
+  ({ id, user_id: USER, title, priority: 'medium', status: 'pending', estimated_duration, created_at: '' });
+
+const request = (body: unknown) =>
+  new NextRequest('http://localhost/api/generate-schedule', { method: 'POST', body: typeof body === 'string' ? body : JSON.stringify(body) });
+
+const savedItems = () => data.scheduleItems
+  .map(item => [item.item_type, item.title, item.start_time.slice(0, 5), item.end_time.slice(0, 5)])
+  .sort((a, b) => a[2].localeCompare(b[2]));
+
+beforeEach(() => {
+  vi.stubEnv('LLM_PROVIDER', 'mock');
+  vi.stubEnv('LLM_FIXTURES_DIR', '');
+  data = {
+    tasks: [task(T1, 'Write the launch plan', 60), task(T2, 'Book flights', 30)],
+    schedules: [{ id: 's1', user_id: USER, schedule_date: '2026-10-20', schedule_data: { total_hours: 7, work_blocks: 1, break_blocks: 0 }, created_at: '' }],
+    scheduleItems: [
+      { id: 'm1', schedule_id: 's1', start_time: '09:30', end_time: '10:00', item_type: 'meeting', title: 'Standup', completed: false },
+      { id: 'old', schedule_id: 's1', start_time: '14:00', end_time: '15:00', item_type: 'task', title: 'Yesterday’s plan', completed: false },
+    ] as ScheduleItem[],
+    patterns: [],
+    rollovers: [],
+  };
+  repositories = createMemoryRepositories(data);
+});
+
+describe('POST /api/generate-schedule', () => {
+  it('plans the day around its meetings and replaces the old plan', async () => {
+    const response = await POST(request({ date: '2026-10-20', taskIds: [T1, T2] }));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ success: true, engine: 'llm', atRisk: [] });
+    expect(savedItems()).toEqual([
+      ['meeting', 'Standup', '09:30', '10:00'],
+      ['task', 'Write the launch plan', '10:00', '11:00'],
+      ['task', 'Book flights', '11:00', '11:30'],
+    ]);
+    expect(data.scheduleItems.find(item => item.id === 'm1')).toBeDefined();
+    expect(data.scheduleItems.find(item => item.id === 'old')).toBeUndefined();
+    expect(data.scheduleItems.filter(item => item.task_id).map(item => item.task_id).sort()).toEqual([T1, T2]);
+  });
+
+  it('uses the local engine when asked', async () => {
+    const response = await POST(request({ date: '2026-10-20', taskIds: [T1], engine: 'local' }));
+    expect((await response.json()).engine).toBe('local');
+    expect(data.scheduleItems.some(item => item.task_id === T1)).toBe(true);
+  });
+
+  it('rejects a body without task ids or with a bad date, writing nothing', async () => {
+    const before = structuredClone(data);
+
+    const missing = await POST(request({ date: '2026-10-20' }));
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).details).toEqual(['body.taskIds is required']);
+
+    const impossible = await POST(request({ date: '2026-02-31', taskIds: [T1] }));
+    expect(impossible.status).toBe(400);
+    expect((await impossible.json()).details).toEqual(['body.date must be a yyyy-MM-dd date']);
+
+    expect((await POST(request('not json'))).status).toBe(400);
+    expect(data).toEqual(before);
+  });
+});
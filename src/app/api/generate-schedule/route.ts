@@ -1,127 +1,89 @@
 // src/app/api/generate-schedule/route.ts - ENHANCED VERSION
 
 import { NextRequest, NextResponse } from 'next/server';
-import { generateOptimalSchedule } from '@/lib/scheduler';
-import { getTaskPatterns } from '@/lib/supabase';
+import { generateDaySchedule, toScheduleItems, getScheduleData } from '@/lib/schedule-planner';
+import { FixedEvent, toFixedEvent } from '@/lib/fixed-events';
+import { loadUserSettings, getDayProfile, getSettingsTimeZone } from '@/lib/user-settings';
+import { createSupabaseRepositories } from '@/lib/repositories';
 import { getAuthenticatedUser } from '@/lib/api-auth';
-
+import { validate, ObjectSchema } from '@/lib/api-schema';
+
+const GenerateScheduleSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    date: { type: 'string', format: 'date' },
+    taskIds: { type: 'array', items: { type: 'string', format: 'uuid' }, maxItems: 200 },
+    workHours: { type: 'number', minimum: 0, maximum: 24, allowNull: true }, // 0 or null: the day from settings
+    engine: { type: 'string', enum: ['llm', 'local'] },
+  },
+  required: ['date', 'taskIds'],
+  additionalProperties: false,
+};
+
+// POST - Plan one day: { date, taskIds, workHours?, engine? }. Meetings and events on the day stay put.
 export async function POST(request: NextRequest) {
   try {
-    const { date, taskIds, workHours } = await request.json();
+    const body = await request.json().catch(() => null);
 
     // Get authenticated user
-    const { user, error: authError, supabase } = await getAuthenticatedUser(request);
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'schedules:generate');
     
     if (!user || authError) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const errors = body === null ? ['body must be an object'] : validate(GenerateScheduleSchema, body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid request', details: errors }, { status: 400 });
     }
+    const { date, taskIds, workHours, engine } = body;
 
     const userId = user.id;
+    const repositories = createSupabaseRepositories(supabase);
 
     // Get the tasks using authenticated client
-    const { data: tasks, error: tasksError } = await supabase
-      .from('tasks')
-      .select('*')
-      .in('id', taskIds);
-
-    if (tasksError) throw tasksError;
+    const tasks = await repositories.tasks.getMany(userId, taskIds);
 
     // Get historical patterns
-    const patterns = await getTaskPatterns(userId);
+    const patterns = await repositories.patterns.list(userId);
 
-    // Generate schedule using Claude with custom work hours
-    const taskDescriptions = tasks.map(t => 
-      `${t.title}${t.description ? ` - ${t.description}` : ''}`
-    );
+    // The user's work-day profile for this date; an explicit workHours still wins
+    const settings = await loadUserSettings(supabase, userId);
+    const profile = getDayProfile(settings, date, workHours || undefined);
 
-    const { blocks, suggestions } = await generateOptimalSchedule(
-      taskDescriptions,
-      patterns,
-      date,
-      workHours || 6
-    );
+    // Meetings and events already on this day are immovable
+    const existingSchedule = await repositories.schedules.getForDate(userId, date);
 
-    // Map blocks to tasks
-    const scheduleItems = blocks.map(block => {
-      const taskIndex = block.type === 'task' 
-        ? tasks.findIndex(t => 
-            block.title.toLowerCase().includes(t.title.toLowerCase()) ||
-            t.title.toLowerCase().includes(block.title.toLowerCase())
-          )
-        : -1;
-
-      return {
-        task_id: taskIndex >= 0 ? tasks[taskIndex].id : undefined,
-        start_time: block.start_time,
-        end_time: block.end_time,
-        item_type: block.type,
-        title: block.title,
-      };
-    });
+    const fixedEvents = (existingSchedule?.items || [])
+      .map(toFixedEvent)
+      .filter((event): event is FixedEvent => event !== null);
 
-    // Save schedule to database using authenticated client
-    const scheduleData = {
-      total_hours: workHours || 6,
-      work_blocks: blocks.filter(b => b.type === 'task').length,
-      break_blocks: blocks.filter(b => b.type !== 'task').length,
-      suggestions
-    };
-
-    // Save schedule directly with authenticated client
-    const { data: schedule, error: scheduleError } = await supabase
-      .from('schedules')
-      .upsert({
-        user_id: userId,
-        schedule_date: date,
-        schedule_data: scheduleData
-      }, {
-        onConflict: 'user_id,schedule_date'
-      })
-      .select()
-      .single();
-
-    if (scheduleError) throw scheduleError;
-
-    // Fetch existing items (reuse rows via UPDATE instead of DELETE to avoid RLS issues)
-    const { data: existingItems } = await supabase
-      .from('schedule_items')
-      .select('id')
-      .eq('schedule_id', schedule.id)
-      .order('start_time');
-
-    const newItems = scheduleItems.map(item => ({
-      schedule_id: schedule.id,
-      ...item
-    }));
-
-    const oldItems = existingItems || [];
-    for (let i = 0; i < newItems.length; i++) {
-      if (i < oldItems.length) {
-        await supabase
-          .from('schedule_items')
-          .update(newItems[i])
-          .eq('id', oldItems[i].id);
-      } else {
-        const { error: itemsError } = await supabase
-          .from('schedule_items')
-          .insert(newItems[i]);
-        if (itemsError) throw itemsError;
-      }
-    }
+    // Generate schedule with the configured model and custom work hours, or the local engine
+    // when requested, when the user is out of model quota or budget, or when the LLM call fails
+    const { blocks, suggestions, engine: engineUsed, atRisk } = await generateDaySchedule(supabase, userId, {
+      date,
+      tasks,
+      profile,
+      fixedEvents,
+      patterns,
+      engine: engine === 'local' ? 'local' : 'llm',
+      timeZone: getSettingsTimeZone(settings),
+    });
 
-    // Neutralize leftover old items
-    for (let i = newItems.length; i < oldItems.length; i++) {
-      await supabase
-        .from('schedule_items')
-        .update({ task_id: null, item_type: 'break', title: '', start_time: '23:59', end_time: '23:59', completed: true })
-        .eq('id', oldItems[i].id);
-    }
+    // Save the schedule in one transaction; meetings and events stay, the rest is replaced
+    await repositories.schedules.replace(userId, [{
+      date,
+      schedule_data: getScheduleData(blocks, profile, suggestions),
+      items: toScheduleItems(blocks, tasks),
+    }]);
 
     // Note: We keep tasks as 'pending' so they remain visible in the pending list
     // Tasks are only marked 'completed' when user explicitly completes them
 
     return NextResponse.json({
       success: true,
+      engine: engineUsed,
+      atRisk,
       schedule: {
         date,
         blocks,
@@ -0,0 +1,145 @@
+// src/app/api/llm/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseISO } from 'date-fns';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { validate, ObjectSchema } from '@/lib/api-schema';
+import { getLlmProvider, LlmOperation, LlmMeter } from '@/lib/llm-provider';
+import { checkLlmQuota, trackLlmCall } from '@/lib/llm-usage';
+import { parseTasksLocally } from '@/lib/local-task-parser';
+import { parseTasksFromNaturalLanguage, normalizeParsedTasks, generateOptimalSchedule, describeTasksForPrompt } from '@/lib/scheduler';
+import { FixedEvent, toFixedEvent } from '@/lib/fixed-events';
+import { createSupabaseRepositories } from '@/lib/repositories';
+import { loadUserSettings, getSettingsTimeZone, getDayProfile } from '@/lib/user-settings';
+import { getZonedToday } from '@/lib/time-zones';
+
+// A pasted task list, not a document
+const MAX_INPUT_LENGTH = 10000;
+
+const ParseTasksSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    operation: { type: 'string', enum: ['parse_tasks'] },
+    input: { type: 'string', minLength: 1, maxLength: MAX_INPUT_LENGTH },
+    model: { type: 'string' },
+  },
+  required: ['operation', 'input'],
+  additionalProperties: false,
+};
+
+const GenerateScheduleSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    operation: { type: 'string', enum: ['generate_schedule'] },
+    date: { type: 'string', format: 'date' },
+    taskIds: { type: 'array', items: { type: 'string', format: 'uuid' }, maxItems: 200 },
+    workHours: { type: 'number', minimum: 0, maximum: 24, allowNull: true }, // 0 or null: the day from settings
+    model: { type: 'string' },
+  },
+  required: ['operation', 'date', 'taskIds'],
+  additionalProperties: false,
+};
+
+const OPERATIONS = {
+  parse_tasks: { schema: ParseTasksSchema, scope: 'tasks:write' },
+  generate_schedule: { schema: GenerateScheduleSchema, scope: 'schedules:generate' },
+} as const;
+
+// POST - Run one model operation with the configured provider. The prompts are
+// built here from structured input; nothing the client sends reaches the model
+// except the task text it asks to parse.
+//   { operation: 'parse_tasks', input }                         needs tasks:write
+//   { operation: 'generate_schedule', date, taskIds, workHours? } needs schedules:generate
+// Either may name a model; it is used only if it's on LLM_ALLOWED_MODELS.
+// Nothing is saved. Once the monthly budget is spent, parse_tasks answers
+// without the model (marked degraded) and generate_schedule fails with 402 so
+// the caller uses its own non-LLM path.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const operation = OPERATIONS[body?.operation as keyof typeof OPERATIONS];
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(
+      request,
+      operation?.scope || 'schedules:generate'
+    );
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    if (!operation) {
+      return NextResponse.json(
+        { error: 'operation must be parse_tasks or generate_schedule' },
+        { status: 400 }
+      );
+    }
+
+    const errors = validate(operation.schema, body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid request', details: errors }, { status: 400 });
+    }
+
+    const settings = await loadUserSettings(supabase, user.id);
+    const timeZone = getSettingsTimeZone(settings);
+    const today = parseISO(getZonedToday(timeZone));
+
+    const quota = await checkLlmQuota(supabase, user.id, timeZone);
+    if (!quota.allowed && quota.kind === 'budget') {
+      if (body.operation === 'parse_tasks') {
+        return NextResponse.json({ tasks: normalizeParsedTasks(parseTasksLocally(body.input), today), degraded: true });
+      }
+      return NextResponse.json({ error: quota.reason, degraded: true }, { status: 402 });
+    }
+    if (!quota.allowed) {
+      return NextResponse.json(
+        { error: quota.reason },
+        { status: 429, headers: { 'Retry-After': String(quota.retryAfter) } }
+      );
+    }
+
+    const repositories = createSupabaseRepositories(supabase);
+    const patterns = await repositories.patterns.list(user.id);
+
+    const provider = getLlmProvider(body.model);
+    const track = <T,>(name: LlmOperation, run: (meter: LlmMeter) => Promise<T>) =>
+      trackLlmCall(supabase, user.id, name, provider, run);
+
+    if (body.operation === 'parse_tasks') {
+      const tasks = await track('parse_tasks', meter =>
+        parseTasksFromNaturalLanguage(body.input, today, meter, patterns, provider)
+      );
+      return NextResponse.json({ tasks });
+    }
+
+    const { date, taskIds, workHours } = body;
+    const tasks = await repositories.tasks.getMany(user.id, taskIds);
+    if (tasks.length === 0) {
+      return NextResponse.json({ error: 'No tasks found' }, { status: 404 });
+    }
+
+    // Meetings and events already on this day are immovable
+    const existingSchedule = await repositories.schedules.getForDate(user.id, date);
+    const fixedEvents = (existingSchedule?.items || [])
+      .map(toFixedEvent)
+      .filter((event): event is FixedEvent => event !== null);
+
+    const schedule = await track('generate_schedule', meter => generateOptimalSchedule(
+      describeTasksForPrompt(tasks),
+      patterns,
+      date,
+      getDayProfile(settings, date, workHours || undefined),
+      fixedEvents,
+      meter,
+      provider
+    ));
+    return NextResponse.json(schedule);
+
+  } catch (error) {
+    console.error('LLM request error:', error);
+    return NextResponse.json(
+      { error: 'Model request failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+
+const planWeek = vi.fn();
+
+vi.mock('@/lib/api-auth', () => ({
+  getAuthenticatedUser: async () => ({ user: { id: 'user-1' }, error: null, status: 200, supabase: {} }),
+}));
+
+vi.mock('@/lib/schedule-planner', () => ({
+  planWeek: (...args: unknown[]) => planWeek(...args),
+  streamWeekPlan: vi.fn(),
+}));
+
+const request = (body: string) =>
+  new NextRequest('http://localhost/api/plan-week', { method: 'POST', body });
+
+beforeEach(() => {
+  planWeek.mockReset();
+  planWeek.mockResolvedValue({ days: [] });
+});
+
+describe('POST /api/plan-week', () => {
+  it('plans the range', async () => {
+    const response = await POST(request(JSON.stringify({ from: '2026-10-19', to: '2026-10-23' })));
+
+    expect(response.status).toBe(200);
+    expect(planWeek).toHaveBeenCalledWith({}, 'user-1', { from: '2026-10-19', to: '2026-10-23', taskIds: undefined, engine: 'llm' });
+  });
+
+  it('answers 400, not 500, for a missing or malformed body', async () => {
+    for (const body of ['', '{not json', 'null', '[]']) {
+      expect((await POST(request(body))).status).toBe(400);
+    }
+    expect(planWeek).not.toHaveBeenCalled();
+  });
+
+  it('rejects bad fields and ranges', async () => {
+    const unknown = await POST(request(JSON.stringify({ from: '2026-10-19', to: '2026-10-23', days: 5 })));
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json()).details).toEqual(['body.days is not allowed']);
+
+    expect((await POST(request(JSON.stringify({ from: '2026-10-23', to: '2026-10-19' })))).status).toBe(400);
+    expect((await POST(request(JSON.stringify({ from: '2026-10-01', to: '2026-10-31' })))).status).toBe(400);
+    expect((await POST(request(JSON.stringify({ from: '2026-10-19', to: '2026-10-23', taskIds: [1] })))).status).toBe(400);
+  });
+});
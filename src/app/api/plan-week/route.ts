@@ -0,0 +1,97 @@
+// src/app/api/plan-week/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { validate, ObjectSchema } from '@/lib/api-schema';
+import { planWeek, streamWeekPlan, WeekPlanEvent } from '@/lib/schedule-planner';
+import { addCalendarDays } from '@/lib/time-zones';
+
+// Every day is a model call, so a plan covers two weeks at most
+const MAX_RANGE_DAYS = 14;
+
+const PlanWeekSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string', format: 'date' },
+    to: { type: 'string', format: 'date' },
+    taskIds: { type: 'array', items: { type: 'string', format: 'uuid' }, maxItems: 200 },
+    engine: { type: 'string', enum: ['llm', 'local'] },
+  },
+  required: ['from', 'to'],
+  additionalProperties: false,
+};
+
+// POST - Plan and save every workday from `from` to `to`:
+// { from, to, taskIds?, engine? }; without taskIds all open tasks are planned.
+// With Accept: text/event-stream each day is saved and sent as it finishes
+// (start, day, day_error, done events) and a failed day doesn't stop the rest.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'schedules:generate');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const errors = validate(PlanWeekSchema, body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid request', details: errors }, { status: 400 });
+    }
+    const { from, to, taskIds, engine } = body;
+
+    if (from > to) {
+      return NextResponse.json({ error: 'from must not be after to' }, { status: 400 });
+    }
+    if (addCalendarDays(from, MAX_RANGE_DAYS) <= to) {
+      return NextResponse.json({ error: `Range can be at most ${MAX_RANGE_DAYS} days` }, { status: 400 });
+    }
+
+    const options = {
+      from,
+      to,
+      taskIds,
+      engine: engine === 'local' ? 'local' as const : 'llm' as const,
+    };
+
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (event: WeekPlanEvent) => {
+            if (request.signal.aborted) return;
+            const { type, ...data } = event;
+            controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`));
+          };
+          try {
+            await streamWeekPlan(supabase, user.id, options, send, request.signal);
+          } catch (error) {
+            console.error('Week planning error:', error);
+            send({ type: 'error', error: 'Failed to plan the week' });
+          }
+          if (!request.signal.aborted) controller.close();
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive',
+        },
+      });
+    }
+
+    const plan = await planWeek(supabase, user.id, options);
+
+    return NextResponse.json({ success: true, ...plan });
+
+  } catch (error) {
+    console.error('Week planning error:', error);
+    return NextResponse.json(
+      { error: 'Failed to plan the week' },
+      { status: 500 }
+    );
+  }
+}
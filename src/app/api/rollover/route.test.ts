@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { Task, ScheduleItem, Schedule } from '@/types';
+import { Repositories } from '@/lib/repositories';
+import { createMemoryRepositories, MemoryData } from '@/lib/memory-repositories';
+import { GET, POST, PATCH, DELETE } from './route';
+
+const USER = 'user-1';
+
+let data: MemoryData;
+let repositories: Repositories;
+
+vi.mock('@/lib/api-auth', () => ({
+  getAuthenticatedUser: async () => ({ user: { id: USER }, error: null, status: 200, supabase: {} }),
+}));
+
+vi.mock('@/lib/repositories', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/repositories')>()),
+  createSupabaseRepositories: () => repositories,
+}));
+
+vi.mock('@/lib/user-settings', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/user-settings')>();
+  return {
+    ...actual,
+    loadUserSettings: async (_supabase: unknown, userId: string) => ({ ...actual.DEFAULT_USER_SETTINGS, time_zone: 'UTC', user_id: userId }),
+  };
+});
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  ({ id, user_id: USER, title: `Task ${id}`, priority: 'medium', status: 'scheduled', estimated_duration: 60, created_at: '', ...overrides });
+
+const schedule = (id: string, date: string): Schedule =>
+  ({ id, user_id: USER, schedule_date: date, schedule_data: { total_hours: 7, work_blocks: 1, break_blocks: 0 }, created_at: '' });
+
+const item = (id: string, scheduleId: string, start: string, end: string, overrides: Partial<ScheduleItem> = {}): ScheduleItem =>
+  ({ id, schedule_id: scheduleId, start_time: start, end_time: end, item_type: 'task', title: id, completed: false, ...overrides });
+
+const request = (method: string, { body, query = '' }: { body?: unknown; query?: string } = {}) =>
+  new NextRequest(`http://localhost/api/rollover${query}`, { method, body: body === undefined ? undefined : JSON.stringify(body) });
+
+beforeEach(() => {
+  // Tuesday evening, after the 16:30 end of day: Tuesday is closed and rolls onto Wednesday
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-20T18:00:00Z'));
+
+  data = {
+    tasks: [task('t1'), task('t2', { status: 'completed' })],
+    schedules: [schedule('tue', '2026-10-20'), schedule('wed', '2026-10-21')],
+    scheduleItems: [
+      item('i1', 'tue', '09:00', '10:00', { task_id: 't1' }),
+      item('i2', 'tue', '10:00', '11:00', { task_id: 't2', completed: true }),
+      item('w1', 'wed', '09:00', '10:00'),
+    ],
+    patterns: [],
+    rollovers: [],
+  };
+  repositories = createMemoryRepositories(data);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('/api/rollover', () => {
+  it('closes the ended day and lists the rollover', async () => {
+    const response = await POST(request('POST'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.rolledOver).toBe(1);
+    expect(body.rollovers).toMatchObject([{ from_date: '2026-10-20', to_date: '2026-10-21', task_ids: ['t1'] }]);
+    expect(data.tasks[0]).toMatchObject({ status: 'rolled_over', rollover_count: 1 });
+
+    const listed = await (await GET(request('GET'))).json();
+    expect(listed.rollovers.map((log: { id: string }) => log.id)).toEqual([body.rollovers[0].id]);
+  });
+
+  it('closes each day once', async () => {
+    await POST(request('POST'));
+    const again = await (await POST(request('POST'))).json();
+
+    expect(again.rolledOver).toBe(0);
+    expect(data.rollovers).toHaveLength(1);
+    expect(data.scheduleItems.filter(i => i.task_id === 't1')).toHaveLength(2);
+  });
+
+  it('hides a dismissed rollover', async () => {
+    const { rollovers } = await (await POST(request('POST'))).json();
+
+    expect((await PATCH(request('PATCH', { body: { id: rollovers[0].id } }))).status).toBe(200);
+    expect((await (await GET(request('GET'))).json()).rollovers).toEqual([]);
+    expect((await PATCH(request('PATCH', { body: {} }))).status).toBe(400);
+  });
+
+  it('undoes a rollover once', async () => {
+    const { rollovers } = await (await POST(request('POST'))).json();
+    const id = rollovers[0].id;
+
+    const undone = await DELETE(request('DELETE', { query: `?id=${id}` }));
+    expect(undone.status).toBe(200);
+    expect(data.tasks[0]).toMatchObject({ status: 'scheduled', rollover_count: 0 });
+    expect(data.scheduleItems.map(i => i.id).sort()).toEqual(['i1', 'i2', 'w1']);
+
+    expect((await DELETE(request('DELETE', { query: `?id=${id}` }))).status).toBe(404);
+    expect((await DELETE(request('DELETE'))).status).toBe(400);
+  });
+});
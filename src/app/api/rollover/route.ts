@@ -1,24 +1,54 @@
 // src/app/api/rollover/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { rolloverIncompleteTasks } from '@/lib/supabase';
-import { supabase } from '@/lib/supabase';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { runRolloverForUser, getActiveRollovers, dismissRollover, undoRollover } from '@/lib/rollover';
+import { loadUserSettings, getSettingsTimeZone } from '@/lib/user-settings';
+import { getZonedToday } from '@/lib/time-zones';
 
+async function getUserToday(supabase: SupabaseClient, userId: string) {
+  return getZonedToday(getSettingsTimeZone(await loadUserSettings(supabase, userId)));
+}
+
+// GET - Rollovers the dashboard should show (not undone or dismissed)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:read');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const rollovers = await getActiveRollovers(supabase, user.id, await getUserToday(supabase, user.id));
+
+    return NextResponse.json({ rollovers });
+
+  } catch (error) {
+    console.error('Fetch rollovers error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch rollovers' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Close any ended days now instead of waiting for the scheduled job
 export async function POST(request: NextRequest) {
   try {
-    const { date } = await request.json();
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
 
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
     }
 
-    const rolledOverTasks = await rolloverIncompleteTasks(session.user.id, date);
+    const created = await runRolloverForUser(supabase, user.id);
+    const rollovers = await getActiveRollovers(supabase, user.id, await getUserToday(supabase, user.id));
 
     return NextResponse.json({
       success: true,
-      rolledOver: rolledOverTasks.length,
-      tasks: rolledOverTasks
+      rolledOver: created.reduce((sum, log) => sum + log.task_ids.length, 0),
+      rollovers
     });
 
   } catch (error) {
@@ -29,3 +59,63 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// PATCH - Dismiss a rollover notice: { id }
+export async function PATCH(request: NextRequest) {
+  try {
+    const { id } = await request.json();
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    if (!id) {
+      return NextResponse.json({ error: 'Rollover ID required' }, { status: 400 });
+    }
+
+    await dismissRollover(supabase, user.id, id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Dismiss rollover error:', error);
+    return NextResponse.json(
+      { error: 'Failed to dismiss rollover' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Undo a rollover: ?id=...
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    if (!id) {
+      return NextResponse.json({ error: 'Rollover ID required' }, { status: 400 });
+    }
+
+    const undone = await undoRollover(supabase, user.id, id);
+    if (!undone) {
+      return NextResponse.json({ error: 'Rollover not found or already undone' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, rollover: undone });
+
+  } catch (error) {
+    console.error('Undo rollover error:', error);
+    return NextResponse.json(
+      { error: 'Failed to undo rollover' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+// src/app/api/settings/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { loadUserSettings, validateSettings } from '@/lib/user-settings';
+
+// GET - The user's work-day settings (defaults if never saved)
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:read');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const settings = await loadUserSettings(supabase, user.id);
+
+    return NextResponse.json({ settings });
+
+  } catch (error) {
+    console.error('Fetch settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Replace the user's work-day settings
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { settings, errors } = validateSettings(body);
+    if (!settings) {
+      return NextResponse.json({ error: 'Invalid settings', details: errors }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .upsert({
+        user_id: user.id,
+        ...settings,
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: 'user_id'
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true, settings: data });
+
+  } catch (error) {
+    console.error('Save settings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+// src/app/api/task-templates/generate/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { materializeRecurringTasks } from '@/lib/recurring-tasks';
+
+// POST - Create the tasks recurring templates produce for { from, to } (yyyy-MM-dd, inclusive)
+export async function POST(request: NextRequest) {
+  try {
+    const { from, to } = await request.json();
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    if (!isDate(from) || !isDate(to) || from > to) {
+      return NextResponse.json({ error: 'from and to must be dates (yyyy-MM-dd), from <= to' }, { status: 400 });
+    }
+
+    const tasks = await materializeRecurringTasks(supabase, user.id, from, to);
+
+    return NextResponse.json({ success: true, created: tasks.length, tasks });
+
+  } catch (error) {
+    console.error('Generate recurring tasks error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate recurring tasks' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+// src/app/api/task-templates/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { parseRRule, formatRRule } from '@/lib/recurrence';
+import { buildTemplateFromTask, parseRecurrenceFromText } from '@/lib/recurring-tasks';
+import { loadUserSettings, getSettingsTimeZone } from '@/lib/user-settings';
+import { getZonedToday } from '@/lib/time-zones';
+
+// GET - List the user's active recurring templates
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:read');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { data: templates, error } = await supabase
+      .from('task_templates')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json({ templates: templates || [] });
+
+  } catch (error) {
+    console.error('Fetch templates error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recurring tasks' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a template from { title, rrule } or { title, recurrence: "every Tuesday" }
+export async function POST(request: NextRequest) {
+  try {
+    const { title, description, estimated_duration, priority, tags, rrule, recurrence, starts_on } = await request.json();
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const rule = rrule ? parseRRule(rrule) : parseRecurrenceFromText(recurrence || '')?.rule;
+    if (!title || !rule) {
+      return NextResponse.json({ error: 'A title and a valid recurrence rule are required' }, { status: 400 });
+    }
+
+    const { data: template, error } = await supabase
+      .from('task_templates')
+      .insert(buildTemplateFromTask(
+        { title, description, estimated_duration, priority, tags, rrule: formatRRule(rule) },
+        user.id,
+        starts_on || getZonedToday(getSettingsTimeZone(await loadUserSettings(supabase, user.id)))
+      ))
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true, template });
+
+  } catch (error) {
+    console.error('Create template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create recurring task' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Stop a template (tasks it already generated are kept)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { templateId } = await request.json();
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { error } = await supabase
+      .from('task_templates')
+      .update({ active: false })
+      .eq('id', templateId)
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop recurring task' },
+      { status: 500 }
+    );
+  }
+}
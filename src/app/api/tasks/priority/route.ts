@@ -1,28 +1,22 @@
 // src/app/api/tasks/priority/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase-server';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { createSupabaseRepositories } from '@/lib/repositories';
 
 // PATCH - Update task priority
 export async function PATCH(request: NextRequest) {
   try {
     const { taskId, priority } = await request.json();
 
-    const supabase = await createClient();
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
 
-    // Update task priority
-    const { error } = await supabase
-      .from('tasks')
-      .update({ priority })
-      .eq('id', taskId)
-      .eq('user_id', user.id); // Make sure user owns the task
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
 
-    if (error) throw error;
+    // Update task priority (scoped to the user, so only their own)
+    await createSupabaseRepositories(supabase).tasks.update(user.id, taskId, { priority });
 
     return NextResponse.json({ success: true });
 
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { Task } from '@/types';
+import { Repositories } from '@/lib/repositories';
+import { createMemoryRepositories, MemoryData } from '@/lib/memory-repositories';
+import { GET, POST, PUT, PATCH, DELETE } from './route';
+
+const USER = 'user-1';
+
+let data: MemoryData;
+let repositories: Repositories;
+let signedIn = true;
+
+vi.mock('@/lib/api-auth', () => ({
+  getAuthenticatedUser: async () => (signedIn
+    ? { user: { id: USER }, error: null, status: 200, supabase: {} }
+    : { user: null, error: 'No auth token or session provided', status: 401, supabase: {} }),
+}));
+
+vi.mock('@/lib/repositories', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/repositories')>()),
+  createSupabaseRepositories: () => repositories,
+}));
+
+vi.mock('@/lib/user-settings', async importOriginal => {
+  const actual = await importOriginal<typeof import('@/lib/user-settings')>();
+  return {
+    ...actual,
+    loadUserSettings: async (_supabase: unknown, userId: string) => ({ ...actual.DEFAULT_USER_SETTINGS, time_zone: 'UTC', user_id: userId }),
+  };
+});
+
+vi.mock('@/lib/llm-usage', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/llm-usage')>()),
+  checkLlmQuota: async () => ({ allowed: true }),
+  trackLlmCall: (_supabase: unknown, _userId: string, _operation: string, _provider: unknown, run: (meter: object) => Promise<unknown>) =>
+    run({ input_tokens: 0, output_tokens: 0 }),
+}));
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  ({ id, user_id: USER, title: `Task ${id}`, priority: 'medium', status: 'pending', created_at: `2026-10-0${id.slice(-1)}T09:00:00Z`, ...overrides });
+
+const request = (method: string, body?: unknown) =>
+  new NextRequest('http://localhost/api/tasks', { method, body: body === undefined ? undefined : JSON.stringify(body) });
+
+beforeEach(() => {
+  vi.stubEnv('LLM_PROVIDER', 'mock');
+  vi.stubEnv('LLM_FIXTURES_DIR', '');
+  signedIn = true;
+  data = {
+    tasks: [
+      task('t1', { title: 'Reply to vendor emails', priority: 'low' }),
+      task('t2', { priority: 'high', status: 'scheduled' }),
+      task('t3', { status: 'completed' }),
+      { ...task('t4'), user_id: 'someone-else' },
+    ],
+    schedules: [{ id: 's1', user_id: USER, schedule_date: '2026-10-19', schedule_data: { total_hours: 7, work_blocks: 1, break_blocks: 0 }, created_at: '' }],
+    scheduleItems: [{ id: 'i1', schedule_id: 's1', task_id: 't1', start_time: '09:00', end_time: '09:30', item_type: 'task', title: 'Reply to vendor emails', completed: false }],
+    patterns: [],
+    rollovers: [],
+  };
+  repositories = createMemoryRepositories(data);
+});
+
+describe('GET /api/tasks', () => {
+  it("lists the user's open tasks, highest priority first", async () => {
+    const response = await GET(request('GET'));
+    expect(response.status).toBe(200);
+    expect((await response.json()).tasks.map((t: Task) => t.id)).toEqual(['t1', 't2']);
+  });
+
+  it('passes auth failures through', async () => {
+    signedIn = false;
+    const response = await GET(request('GET'));
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('POST /api/tasks', () => {
+  it('creates the parsed tasks', async () => {
+    const response = await POST(request('POST', { input: 'Write the launch plan\nBook flights' }));
+    const body = await response.json();
+
+    expect(body).toMatchObject({ success: true, hasDuplicates: false });
+    expect(body.tasks.map((t: Task) => t.title)).toEqual(['Write the launch plan', 'Book flights']);
+    expect(data.tasks.filter(t => t.status === 'pending' && t.user_id === USER)).toHaveLength(3);
+  });
+
+  it('holds back tasks that look like open ones', async () => {
+    const response = await POST(request('POST', { input: 'reply to vendor emails\nBook flights' }));
+    const body = await response.json();
+
+    expect(body.hasDuplicates).toBe(true);
+    expect(body.duplicates.map((d: { existingTask: Task }) => d.existingTask.title)).toEqual(['Reply to vendor emails']);
+    expect(body.uniqueTasks.map((t: Task) => t.title)).toEqual(['Book flights']);
+    expect(data.tasks).toHaveLength(4);
+  });
+});
+
+describe('PUT /api/tasks', () => {
+  it('adds confirmed tasks as pending', async () => {
+    const response = await PUT(request('PUT', { tasksToAdd: [{ title: 'Book flights', priority: 'high' }] }));
+    expect(response.status).toBe(200);
+    expect(data.tasks.at(-1)).toMatchObject({ title: 'Book flights', priority: 'high', status: 'pending', user_id: USER });
+  });
+
+  it('rejects fields a client may not set', async () => {
+    const response = await PUT(request('PUT', { tasksToAdd: [{ title: 'Book flights', status: 'completed' }] }));
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual(['tasksToAdd[0].status is not allowed']);
+    expect(data.tasks).toHaveLength(4);
+  });
+});
+
+describe('PATCH /api/tasks', () => {
+  it('completes the task and learns its duration', async () => {
+    const response = await PATCH(request('PATCH', { taskId: 't1', actualDuration: 25 }));
+    expect(response.status).toBe(200);
+    expect(data.tasks[0]).toMatchObject({ status: 'completed', actual_duration: 25 });
+    expect(data.patterns).toMatchObject([{ task_keywords: ['reply', 'vendor', 'emails'], average_duration: 25, times_completed: 1 }]);
+  });
+
+  it("is 404 for another user's task", async () => {
+    const response = await PATCH(request('PATCH', { taskId: 't4', actualDuration: 25 }));
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('DELETE /api/tasks', () => {
+  it('deletes the task and its schedule items', async () => {
+    const response = await DELETE(request('DELETE', { taskId: 't1' }));
+    expect(response.status).toBe(200);
+    expect(data.tasks.map(t => t.id)).toEqual(['t2', 't3', 't4']);
+    expect(data.scheduleItems).toEqual([]);
+  });
+});
@@ -1,41 +1,62 @@
 // src/app/api/tasks/route.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createTask, getPendingTasks, markTaskCompleted, updateTaskPattern } from '@/lib/supabase';
-import { parseTasksFromNaturalLanguage, extractKeywordsFromTask } from '@/lib/scheduler';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { parseISO } from 'date-fns';
+import { createSupabaseRepositories, NewTask } from '@/lib/repositories';
+import { parseTasksFromNaturalLanguage, normalizeParsedTasks, ParsedTask } from '@/lib/scheduler';
+import { parseTasksLocally } from '@/lib/local-task-parser';
+import { buildTemplateFromTask, materializeRecurringTasks } from '@/lib/recurring-tasks';
+import { extractKeywordsFromTask, updateTaskPattern } from '@/lib/task-patterns';
+import { normalizeDueFields } from '@/lib/due-dates';
 import { getAuthenticatedUser } from '@/lib/api-auth';
+import { validate, shape } from '@/lib/api-schema';
+import { TaskCreateSchema } from '@/lib/api-v1-schemas';
+import { getLlmProvider } from '@/lib/llm-provider';
+import { checkLlmQuota, trackLlmCall } from '@/lib/llm-usage';
+import { loadUserSettings, getSettingsTimeZone } from '@/lib/user-settings';
+import { getZonedToday, getWeekDatesFor } from '@/lib/time-zones';
+
+// Repeating tasks become templates; this week's occurrences are created right away
+async function createTemplates(supabase: SupabaseClient, userId: string, recurring: ParsedTask[], today: string) {
+  if (recurring.length === 0) return { templates: [], tasks: [] };
+
+  const { data: templates, error } = await supabase
+    .from('task_templates')
+    .insert(recurring.map(task => buildTemplateFromTask({ ...task, rrule: task.rrule! }, userId, today)))
+    .select();
+
+  if (error) throw error;
+
+  const tasks = await materializeRecurringTasks(
+    supabase,
+    userId,
+    today,
+    getWeekDatesFor(today)[6]
+  );
+
+  return { templates: templates || [], tasks };
+}
 
 // GET - Fetch pending tasks
 export async function GET(request: NextRequest) {
   try {
     console.log('=== GET /api/tasks ===');
     
-    const { user, error: authError, supabase } = await getAuthenticatedUser(request);
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:read');
     
     console.log('User found:', !!user);
     if (authError) console.log('Auth error:', authError);
     
     if (!user || authError) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return NextResponse.json({ error: authError }, { status: authStatus });
     }
 
-    // Fetch tasks directly with authenticated client
-    // Include 'scheduled' status so tasks remain visible even after being added to schedule
-    const { data: tasks, error: tasksError } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('user_id', user.id)
-      .in('status', ['pending', 'rolled_over', 'scheduled'])
-      .order('priority', { ascending: false })
-      .order('created_at', { ascending: true });
-
-    if (tasksError) {
-      console.error('Tasks fetch error:', tasksError);
-      throw tasksError;
-    }
+    // Scheduled tasks are included so they stay visible after being added to a day
+    const tasks = await createSupabaseRepositories(supabase).tasks.listOpen(user.id);
 
-    console.log('Tasks found:', tasks?.length || 0);
-    return NextResponse.json({ tasks: tasks || [] });
+    console.log('Tasks found:', tasks.length);
+    return NextResponse.json({ tasks });
 
   } catch (error) {
     console.error('Fetch tasks error:', error);
@@ -51,28 +72,51 @@ export async function POST(request: NextRequest) {
   try {
     const { input } = await request.json();
 
-    const { user, error: authError, supabase } = await getAuthenticatedUser(request);
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
     
     if (!user || authError) {
-      return NextResponse.json({ error: 'Unauthorized - Please log in' }, { status: 401 });
+      return NextResponse.json({ error: authError }, { status: authStatus });
     }
 
-    // Parse natural language input using Claude
-    const parsedTasks = await parseTasksFromNaturalLanguage(input);
+    // "by Friday" and "EOD" are relative to the user's day, not the server's
+    const timeZone = getSettingsTimeZone(await loadUserSettings(supabase, user.id));
+    const today = getZonedToday(timeZone);
 
-    // Get existing pending tasks to check for duplicates
-    const { data: existingTasks } = await supabase
-      .from('tasks')
-      .select('title, description')
-      .eq('user_id', user.id)
-      .in('status', ['pending', 'rolled_over', 'scheduled']);
+    const quota = await checkLlmQuota(supabase, user.id, timeZone);
+    if (!quota.allowed && quota.kind === 'rate_limit') {
+      return NextResponse.json(
+        { error: quota.reason },
+        { status: 429, headers: { 'Retry-After': String(quota.retryAfter) } }
+      );
+    }
+
+    // Parse natural language input with the configured model, or line by line once the
+    // monthly budget is spent
+    const parsed = quota.allowed
+      ? await trackLlmCall(supabase, user.id, 'parse_tasks', getLlmProvider(), meter =>
+          parseTasksFromNaturalLanguage(input, parseISO(today), meter)
+        )
+      : normalizeParsedTasks(parseTasksLocally(input), parseISO(today));
+
+    const parsedTasks: Omit<ParsedTask, 'rrule'>[] = [];
+    const repeating: ParsedTask[] = [];
+    for (const { rrule, ...task } of parsed) {
+      if (rrule) repeating.push({ ...task, rrule });
+      else parsedTasks.push(task);
+    }
+    const recurring = await createTemplates(supabase, user.id, repeating, today);
+
+    // Get existing open tasks to check for duplicates
+    const { tasks } = createSupabaseRepositories(supabase);
+    const existingTasks = (await tasks.listOpen(user.id))
+      .map(({ title, description }) => ({ title, description }));
 
     // Separate duplicates from unique tasks
     const duplicates: any[] = [];
     const uniqueTasks: any[] = [];
 
     parsedTasks.forEach(newTask => {
-      const matchingExisting = existingTasks?.find(existing => {
+      const matchingExisting = existingTasks.find(existing => {
         const newTitle = newTask.title.toLowerCase().trim();
         const existingTitle = existing.title.toLowerCase().trim();
         return newTitle === existingTitle || 
@@ -98,31 +142,18 @@ export async function POST(request: NextRequest) {
         hasDuplicates: true,
         duplicates: duplicates,
         uniqueTasks: uniqueTasks,
+        templates: recurring.templates,
         message: `Found ${duplicates.length} potential duplicate(s). Please review.`
       });
     }
 
     // No duplicates, create all tasks
-    const createdTasks = await Promise.all(
-      uniqueTasks.map(async task => {
-        const { data, error } = await supabase
-          .from('tasks')
-          .insert({
-            user_id: user.id,
-            ...task,
-            status: 'pending'
-          })
-          .select()
-          .single();
-
-        if (error) throw error;
-        return data;
-      })
-    );
+    const createdTasks = await tasks.create(user.id, uniqueTasks);
 
     return NextResponse.json({
       success: true,
-      tasks: createdTasks,
+      tasks: [...createdTasks, ...recurring.tasks],
+      templates: recurring.templates,
       hasDuplicates: false
     });
 
@@ -140,27 +171,28 @@ export async function PUT(request: NextRequest) {
   try {
     const { tasksToAdd } = await request.json();
 
-    const { user, error: authError, supabase } = await getAuthenticatedUser(request);
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
     
     if (!user || authError) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    // Only the fields a client may set, so nobody can pick a user_id or status
+    const errors = Array.isArray(tasksToAdd)
+      ? tasksToAdd.flatMap((task: unknown, i: number) => validate(TaskCreateSchema, task, `tasksToAdd[${i}]`))
+      : ['tasksToAdd must be an array'];
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid tasks', details: errors }, { status: 400 });
     }
 
+    const today = parseISO(getZonedToday(getSettingsTimeZone(await loadUserSettings(supabase, user.id))));
+
     // Create the confirmed tasks
-    const createdTasks = await Promise.all(
-      tasksToAdd.map(async (task: any) => {
-        const { data, error } = await supabase
-          .from('tasks')
-          .insert({
-            user_id: user.id,
-            ...task,
-            status: 'pending'
-          })
-          .select()
-          .single();
-
-        if (error) throw error;
-        return data;
+    const createdTasks = await createSupabaseRepositories(supabase).tasks.create(
+      user.id,
+      tasksToAdd.map((task: unknown) => {
+        const input = shape<NewTask>(TaskCreateSchema, task);
+        return { ...input, ...normalizeDueFields(input, today), status: 'pending' };
       })
     );
 
@@ -183,29 +215,28 @@ export async function PATCH(request: NextRequest) {
   try {
     const { taskId, actualDuration } = await request.json();
 
-    const { user, error: authError, supabase } = await getAuthenticatedUser(request);
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
     
     if (!user || authError) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return NextResponse.json({ error: authError }, { status: authStatus });
     }
 
-    // Get task details
-    const { data: task } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('id', taskId)
-      .single();
+    const { tasks, patterns } = createSupabaseRepositories(supabase);
+    const task = await tasks.get(user.id, taskId);
 
     if (!task) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 });
     }
 
-    // Mark as completed
-    await markTaskCompleted(taskId, actualDuration);
+    await tasks.update(user.id, taskId, {
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      actual_duration: actualDuration
+    });
 
     // Update learning patterns
     const keywords = extractKeywordsFromTask(task.title, task.description);
-    await updateTaskPattern(user.id, keywords, actualDuration, true);
+    await updateTaskPattern(patterns, user.id, keywords, actualDuration, true);
 
     return NextResponse.json({ success: true });
 
@@ -223,31 +254,24 @@ export async function DELETE(request: NextRequest) {
   try {
     const { taskId } = await request.json();
 
-    const { user, error: authError, supabase } = await getAuthenticatedUser(request);
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:write');
     
     if (!user || authError) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      return NextResponse.json({ error: authError }, { status: authStatus });
     }
 
-    // Neutralize any schedule items that reference this task (UPDATE instead of DELETE for RLS)
-    const { error: scheduleItemsError } = await supabase
-      .from('schedule_items')
-      .update({ task_id: null, item_type: 'break', title: '', completed: true })
-      .eq('task_id', taskId);
+    const { tasks, scheduleItems } = createSupabaseRepositories(supabase);
 
-    if (scheduleItemsError) {
-      console.error('Error neutralizing schedule items:', scheduleItemsError);
+    // Remove any schedule items that reference this task
+    try {
+      await scheduleItems.deleteForTasks([taskId]);
+    } catch (scheduleItemsError) {
+      console.error('Error removing schedule items:', scheduleItemsError);
       // Continue anyway - we still want to delete the task
     }
 
-    // Then delete the task itself
-    const { error } = await supabase
-      .from('tasks')
-      .delete()
-      .eq('id', taskId)
-      .eq('user_id', user.id); // Make sure user owns the task
-
-    if (error) throw error;
+    // Then delete the task itself (scoped to the user, so only their own)
+    await tasks.delete(user.id, taskId);
 
     return NextResponse.json({ success: true });
 
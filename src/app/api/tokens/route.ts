@@ -0,0 +1,115 @@
+// src/app/api/tokens/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { createAccessTokenSecret, validateAccessTokenInput } from '@/lib/access-tokens';
+
+// Everything but the hash
+const TOKEN_COLUMNS = 'id, user_id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at';
+
+// Managing tokens takes a signed-in session; a token can't mint or revoke tokens
+
+// GET - The user's access tokens, newest first, including expired and revoked ones
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request);
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const { data, error } = await supabase
+      .from('personal_access_tokens')
+      .select(TOKEN_COLUMNS)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return NextResponse.json({ tokens: data || [] });
+
+  } catch (error) {
+    console.error('Fetch access tokens error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch access tokens' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a token: { name, scopes, expiresInDays? }. The secret is only ever returned here.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request);
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { token: input, errors } = validateAccessTokenInput(body);
+    if (!input) {
+      return NextResponse.json({ error: 'Invalid access token', details: errors }, { status: 400 });
+    }
+
+    const { token, token_hash, token_prefix } = createAccessTokenSecret();
+
+    const { data, error } = await supabase
+      .from('personal_access_tokens')
+      .insert({ ...input, user_id: user.id, token_hash, token_prefix })
+      .select(TOKEN_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ success: true, token: data, secret: token });
+
+  } catch (error) {
+    console.error('Create access token error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create access token' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Revoke a token: ?id=...
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request);
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    if (!id) {
+      return NextResponse.json({ error: 'Token ID required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('personal_access_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .select(TOKEN_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return NextResponse.json({ error: 'Token not found or already revoked' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, token: data });
+
+  } catch (error) {
+    console.error('Revoke access token error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke access token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+// src/app/api/usage/route.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedUser } from '@/lib/api-auth';
+import { getUsageSummary, getUsageMonth } from '@/lib/llm-usage';
+import { loadUserSettings, getSettingsTimeZone } from '@/lib/user-settings';
+import { getZonedToday, addCalendarDays } from '@/lib/time-zones';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Long ranges are summed per day in memory
+const MAX_RANGE_DAYS = 92;
+
+// GET - The user's model usage per day: ?from=yyyy-MM-dd&to=yyyy-MM-dd
+// (defaults to the current month so far)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, 'tasks:read');
+
+    if (!user || authError) {
+      return NextResponse.json({ error: authError }, { status: authStatus });
+    }
+
+    const timeZone = getSettingsTimeZone(await loadUserSettings(supabase, user.id));
+    const from = searchParams.get('from') || getUsageMonth(timeZone).start;
+    const to = searchParams.get('to') || getZonedToday(timeZone);
+
+    if (!DATE.test(from) || !DATE.test(to) || from > to) {
+      return NextResponse.json({ error: 'from and to must be yyyy-MM-dd dates, from before to' }, { status: 400 });
+    }
+    if (addCalendarDays(from, MAX_RANGE_DAYS) <= to) {
+      return NextResponse.json({ error: `Range can be at most ${MAX_RANGE_DAYS} days` }, { status: 400 });
+    }
+
+    const usage = await getUsageSummary(supabase, user.id, { from, to, timeZone });
+
+    return NextResponse.json({ usage });
+
+  } catch (error) {
+    console.error('Fetch usage error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
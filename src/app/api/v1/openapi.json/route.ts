@@ -0,0 +1,9 @@
+// src/app/api/v1/openapi.json/route.ts
+
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// GET - The OpenAPI document for /api/v1; public, like any API reference
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
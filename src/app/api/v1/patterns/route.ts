@@ -0,0 +1,16 @@
+// src/app/api/v1/patterns/route.ts
+
+import { v1Route, apiList, readQuery, getPage } from '@/lib/api-v1';
+import { PatternSchema, PageQuery } from '@/lib/api-v1-schemas';
+
+// GET - What the scheduler has learned about task durations, most practised first
+export const GET = v1Route('tasks:read', 'list patterns', async ({ request, user, repositories }) => {
+  const { value: query, error } = readQuery<{ limit?: number; offset?: number }>(request, PageQuery);
+  if (error) return error;
+
+  const patterns = (await repositories.patterns.list(user.id))
+    .sort((a, b) => b.times_scheduled - a.times_scheduled || a.id.localeCompare(b.id));
+  const page = getPage(query);
+
+  return apiList(PatternSchema, patterns.slice(page.offset, page.offset + page.limit), page, patterns.length);
+});
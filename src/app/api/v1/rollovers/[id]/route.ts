@@ -0,0 +1,28 @@
+// src/app/api/v1/rollovers/[id]/route.ts
+
+import { v1Route, apiData, apiError, readJson } from '@/lib/api-v1';
+import { RolloverSchema, RolloverUpdateSchema, IdParams } from '@/lib/api-v1-schemas';
+import { dismissRollover, undoRollover } from '@/lib/rollover';
+
+// PATCH - Dismiss the rollover notice: { dismissed: true }
+export const PATCH = v1Route<{ id: string }>('tasks:write', 'dismiss rollover', async ({ request, user, supabase, params }) => {
+  const { value: input, error } = await readJson<{ dismissed: boolean }>(request, RolloverUpdateSchema);
+  if (error) return error;
+
+  if (!input.dismissed) {
+    return apiError(400, 'invalid_request', 'Invalid request body', ['body.dismissed must be true; a dismissed rollover stays dismissed']);
+  }
+
+  const rollover = await dismissRollover(supabase, user.id, params.id);
+  if (!rollover) return apiError(404, 'not_found', 'Rollover not found');
+
+  return apiData(RolloverSchema, rollover);
+}, IdParams);
+
+// DELETE - Undo the rollover: its added items are removed and its tasks restored
+export const DELETE = v1Route<{ id: string }>('tasks:write', 'undo rollover', async ({ user, supabase, params }) => {
+  const rollover = await undoRollover(supabase, user.id, params.id);
+  if (!rollover) return apiError(404, 'not_found', 'Rollover not found or already undone');
+
+  return apiData(RolloverSchema, rollover);
+}, IdParams);
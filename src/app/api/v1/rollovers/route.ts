@@ -0,0 +1,29 @@
+// src/app/api/v1/rollovers/route.ts
+
+import { v1Route, apiData, apiList, readQuery, getPage } from '@/lib/api-v1';
+import { RolloverSchema, RolloverRunSchema, RolloverListQuery } from '@/lib/api-v1-schemas';
+import { runRolloverForUser } from '@/lib/rollover';
+
+// GET - Closed-out days, newest first: ?from=&to=&active=&limit=&offset=
+export const GET = v1Route('tasks:read', 'list rollovers', async ({ request, user, repositories }) => {
+  const { value: query, error } = readQuery<{ from?: string; to?: string; active?: boolean; limit?: number; offset?: number }>(
+    request,
+    RolloverListQuery
+  );
+  if (error) return error;
+
+  const page = getPage(query);
+  const { rollovers, total } = await repositories.rollovers.list(user.id, query, page);
+
+  return apiList(RolloverSchema, rollovers, page, total);
+});
+
+// POST - Close any ended days now instead of waiting for the scheduled job
+export const POST = v1Route('tasks:write', 'run rollover', async ({ user, supabase }) => {
+  const created = await runRolloverForUser(supabase, user.id);
+
+  return apiData(RolloverRunSchema, {
+    rolled_over: created.reduce((sum, log) => sum + log.task_ids.length, 0),
+    rollovers: created,
+  });
+});
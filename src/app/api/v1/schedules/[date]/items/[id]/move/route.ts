@@ -0,0 +1,18 @@
+// src/app/api/v1/schedules/[date]/items/[id]/move/route.ts
+
+import { v1Route, apiData, apiFailure, readJson } from '@/lib/api-v1';
+import { ScheduleItemMoveSchema, ScheduleItemChangeSchema, ItemParams } from '@/lib/api-v1-schemas';
+import { moveScheduleItem, loadScheduleDay } from '@/lib/schedule-item-edits';
+
+// POST - Move an item to another day (or another place in its own): { date, position? }
+export const POST = v1Route<{ date: string; id: string }>('tasks:write', 'move schedule item', async ({ request, user, supabase, repositories, params }) => {
+  const { value: input, error } = await readJson<{ date: string; position?: number }>(request, ScheduleItemMoveSchema);
+  if (error) return error;
+
+  const day = await loadScheduleDay(supabase, user.id, params.date);
+  const target = input.date === params.date ? day : await loadScheduleDay(supabase, user.id, input.date);
+  const result = await moveScheduleItem(repositories, user.id, day, params.id, target, input.position);
+  if (!result.ok) return apiFailure(result.code, result.error);
+
+  return apiData(ScheduleItemChangeSchema, result);
+}, ItemParams);
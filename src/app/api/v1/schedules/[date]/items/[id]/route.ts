@@ -0,0 +1,28 @@
+// src/app/api/v1/schedules/[date]/items/[id]/route.ts
+
+import { v1Route, apiData, apiFailure, readJson } from '@/lib/api-v1';
+import { ScheduleItemUpdateSchema, ScheduleItemChangeSchema, ItemParams } from '@/lib/api-v1-schemas';
+import { updateScheduleItem, deleteScheduleItem, loadScheduleDay, ScheduleItemUpdate } from '@/lib/schedule-item-edits';
+
+type ItemPath = { date: string; id: string };
+
+// PATCH - Change an item's title, times, length or completion; the day is re-timed
+export const PATCH = v1Route<ItemPath>('tasks:write', 'update schedule item', async ({ request, user, supabase, repositories, params }) => {
+  const { value: changes, error } = await readJson<ScheduleItemUpdate>(request, ScheduleItemUpdateSchema);
+  if (error) return error;
+
+  const day = await loadScheduleDay(supabase, user.id, params.date);
+  const result = await updateScheduleItem(repositories, user.id, day, params.id, changes);
+  if (!result.ok) return apiFailure(result.code, result.error);
+
+  return apiData(ScheduleItemChangeSchema, result);
+}, ItemParams);
+
+// DELETE - Remove an item and close the gap
+export const DELETE = v1Route<ItemPath>('tasks:write', 'delete schedule item', async ({ user, supabase, repositories, params }) => {
+  const day = await loadScheduleDay(supabase, user.id, params.date);
+  const result = await deleteScheduleItem(repositories, user.id, day, params.id);
+  if (!result.ok) return apiFailure(result.code, result.error);
+
+  return apiData(ScheduleItemChangeSchema, result);
+}, ItemParams);
@@ -0,0 +1,17 @@
+// src/app/api/v1/schedules/[date]/items/[id]/split/route.ts
+
+import { v1Route, apiData, apiFailure, readJson } from '@/lib/api-v1';
+import { ScheduleItemSplitSchema, ScheduleItemChangeSchema, ItemParams } from '@/lib/api-v1-schemas';
+import { splitScheduleItem, loadScheduleDay } from '@/lib/schedule-item-edits';
+
+// POST - Split an item in two: { first_duration }
+export const POST = v1Route<{ date: string; id: string }>('tasks:write', 'split schedule item', async ({ request, user, supabase, repositories, params }) => {
+  const { value: input, error } = await readJson<{ first_duration: number }>(request, ScheduleItemSplitSchema);
+  if (error) return error;
+
+  const day = await loadScheduleDay(supabase, user.id, params.date);
+  const result = await splitScheduleItem(repositories, user.id, day, params.id, input.first_duration);
+  if (!result.ok) return apiFailure(result.code, result.error);
+
+  return apiData(ScheduleItemChangeSchema, result, 201);
+}, ItemParams);
@@ -0,0 +1,17 @@
+// src/app/api/v1/schedules/[date]/items/order/route.ts
+
+import { v1Route, apiData, apiFailure, readJson } from '@/lib/api-v1';
+import { ScheduleItemOrderSchema, ScheduleItemChangeSchema, DateParams } from '@/lib/api-v1-schemas';
+import { reorderScheduleItems, loadScheduleDay } from '@/lib/schedule-item-edits';
+
+// PUT - Put the day's movable items in a new order: { item_ids }
+export const PUT = v1Route<{ date: string }>('tasks:write', 'reorder schedule items', async ({ request, user, supabase, repositories, params }) => {
+  const { value: input, error } = await readJson<{ item_ids: string[] }>(request, ScheduleItemOrderSchema);
+  if (error) return error;
+
+  const day = await loadScheduleDay(supabase, user.id, params.date);
+  const result = await reorderScheduleItems(repositories, user.id, day, input.item_ids);
+  if (!result.ok) return apiFailure(result.code, result.error);
+
+  return apiData(ScheduleItemChangeSchema, result);
+}, DateParams);
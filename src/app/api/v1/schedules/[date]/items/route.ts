@@ -0,0 +1,25 @@
+// src/app/api/v1/schedules/[date]/items/route.ts
+
+import { v1Route, apiData, apiError, apiFailure, apiList, readJson } from '@/lib/api-v1';
+import { ScheduleItemSchema, ScheduleItemCreateSchema, ScheduleItemChangeSchema, DateParams } from '@/lib/api-v1-schemas';
+import { addScheduleItem, loadScheduleDay, NewScheduleItemInput } from '@/lib/schedule-item-edits';
+
+// GET - The day's items in start-time order (all of them, so the page is the whole day)
+export const GET = v1Route<{ date: string }>('tasks:read', 'list schedule items', async ({ user, repositories, params }) => {
+  const schedule = await repositories.schedules.getForDate(user.id, params.date);
+  if (!schedule) return apiError(404, 'not_found', `No schedule for ${params.date}`);
+
+  const items = schedule.items || [];
+  return apiList(ScheduleItemSchema, items, { limit: items.length, offset: 0 }, items.length);
+}, DateParams);
+
+// POST - Add an item, creating the day's schedule if needed; the day is re-timed around it
+export const POST = v1Route<{ date: string }>('tasks:write', 'create schedule item', async ({ request, user, supabase, repositories, params }) => {
+  const { value: input, error } = await readJson<NewScheduleItemInput>(request, ScheduleItemCreateSchema);
+  if (error) return error;
+
+  const result = await addScheduleItem(repositories, user.id, await loadScheduleDay(supabase, user.id, params.date), input);
+  if (!result.ok) return apiFailure(result.code, result.error);
+
+  return apiData(ScheduleItemChangeSchema, result, 201);
+}, DateParams);
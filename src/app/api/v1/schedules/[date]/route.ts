@@ -0,0 +1,12 @@
+// src/app/api/v1/schedules/[date]/route.ts
+
+import { v1Route, apiData, apiError } from '@/lib/api-v1';
+import { ScheduleSchema, DateParams } from '@/lib/api-v1-schemas';
+
+// GET - The day's schedule with its items
+export const GET = v1Route<{ date: string }>('tasks:read', 'fetch schedule', async ({ user, repositories, params }) => {
+  const schedule = await repositories.schedules.getForDate(user.id, params.date);
+  if (!schedule) return apiError(404, 'not_found', `No schedule for ${params.date}`);
+
+  return apiData(ScheduleSchema, schedule);
+}, DateParams);
@@ -0,0 +1,24 @@
+// src/app/api/v1/schedules/route.ts
+
+import { v1Route, apiError, apiList, readQuery, getPage } from '@/lib/api-v1';
+import { ScheduleSchema, ScheduleListQuery, MAX_SCHEDULE_RANGE_DAYS } from '@/lib/api-v1-schemas';
+import { addCalendarDays } from '@/lib/time-zones';
+
+// GET - Schedules with their items for ?from=yyyy-MM-dd&to=yyyy-MM-dd, in date order
+export const GET = v1Route('tasks:read', 'list schedules', async ({ request, user, repositories }) => {
+  const { value: query, error } = readQuery<{ from: string; to: string; limit?: number; offset?: number }>(request, ScheduleListQuery);
+  if (error) return error;
+
+  if (query.from > query.to) {
+    return apiError(400, 'invalid_request', 'Invalid query parameters', ['query.from must not be after query.to']);
+  }
+  if (addCalendarDays(query.from, MAX_SCHEDULE_RANGE_DAYS) <= query.to) {
+    return apiError(400, 'invalid_request', 'Invalid query parameters', [`Range can be at most ${MAX_SCHEDULE_RANGE_DAYS} days`]);
+  }
+
+  // A bounded range is at most a few months of rows, so it's paged in memory
+  const schedules = await repositories.schedules.listRange(user.id, query.from, query.to);
+  const page = getPage(query);
+
+  return apiList(ScheduleSchema, schedules.slice(page.offset, page.offset + page.limit), page, schedules.length);
+});
@@ -0,0 +1,84 @@
+// src/app/api/v1/tasks/[id]/route.ts
+
+import { v1Route, apiData, apiError, readJson } from '@/lib/api-v1';
+import { TaskSchema, TaskUpdateSchema, IdParams } from '@/lib/api-v1-schemas';
+import { findDependencyCycle } from '@/lib/task-dependencies';
+import { extractKeywordsFromTask, updateTaskPattern } from '@/lib/task-patterns';
+import { Task } from '@/types';
+
+type TaskUpdate = Partial<Omit<Task, 'id' | 'user_id' | 'created_at'>>;
+
+// GET - One task
+export const GET = v1Route<{ id: string }>('tasks:read', 'fetch task', async ({ user, repositories, params }) => {
+  const task = await repositories.tasks.get(user.id, params.id);
+  if (!task) return apiError(404, 'not_found', 'Task not found');
+
+  return apiData(TaskSchema, task);
+}, IdParams);
+
+// PATCH - Change some of a task's fields. Completing it stamps completed_at, ticks off its
+// schedule items and, with actual_duration, teaches the duration patterns; reopening it
+// clears completed_at and reopens the items.
+export const PATCH = v1Route<{ id: string }>('tasks:write', 'update task', async ({ request, user, repositories, params }) => {
+  const { value: changes, error } = await readJson<TaskUpdate>(request, TaskUpdateSchema);
+  if (error) return error;
+
+  const { tasks, scheduleItems, patterns } = repositories;
+  const task = await tasks.get(user.id, params.id);
+  if (!task) return apiError(404, 'not_found', 'Task not found');
+
+  if (changes.title !== undefined) changes.title = changes.title.trim();
+
+  // A due time only means something with a due date; clearing the date clears both
+  if (changes.due_date === null) changes.due_time = null;
+  if (changes.due_time && !(changes.due_date ?? task.due_date)) {
+    return apiError(400, 'invalid_request', 'Invalid request body', ['body.due_time needs a due_date']);
+  }
+
+  if (changes.blocked_by) {
+    const blockedBy = [...new Set(changes.blocked_by)];
+    if (blockedBy.includes(task.id)) {
+      return apiError(400, 'invalid_request', 'Invalid request body', ['body.blocked_by can\'t contain the task itself']);
+    }
+    const blockers = await tasks.getMany(user.id, blockedBy);
+    if (blockers.length !== blockedBy.length) {
+      return apiError(400, 'invalid_request', 'Invalid request body', ['body.blocked_by contains tasks that don\'t exist']);
+    }
+
+    const openTasks = (await tasks.listOpen(user.id)).filter(t => t.id !== task.id);
+    const cycle = findDependencyCycle([...openTasks, { id: task.id, blocked_by: blockedBy }]);
+    if (cycle) {
+      return apiError(409, 'conflict', 'These prerequisites would make the tasks wait on each other', [cycle.join(' -> ')]);
+    }
+    changes.blocked_by = blockedBy;
+  }
+
+  const completing = changes.status === 'completed' && task.status !== 'completed';
+  if (completing) changes.completed_at = new Date().toISOString();
+  else if (changes.status && changes.status !== 'completed') changes.completed_at = null;
+
+  await tasks.update(user.id, task.id, changes);
+
+  // The task's schedule items are ticked off (or reopened) with it
+  const reopening = changes.status !== undefined && changes.status !== 'completed' && task.status === 'completed';
+  if (completing || reopening) await scheduleItems.updateForTask(task.id, { completed: completing });
+
+  if (completing && typeof changes.actual_duration === 'number') {
+    const keywords = extractKeywordsFromTask(changes.title ?? task.title, changes.description ?? task.description);
+    await updateTaskPattern(patterns, user.id, keywords, changes.actual_duration, true);
+  }
+
+  return apiData(TaskSchema, await tasks.get(user.id, task.id));
+}, IdParams);
+
+// DELETE - Delete a task and the schedule items that reference it
+export const DELETE = v1Route<{ id: string }>('tasks:write', 'delete task', async ({ user, repositories, params }) => {
+  const { tasks, scheduleItems } = repositories;
+  const task = await tasks.get(user.id, params.id);
+  if (!task) return apiError(404, 'not_found', 'Task not found');
+
+  await scheduleItems.deleteForTasks([task.id]);
+  await tasks.delete(user.id, task.id);
+
+  return apiData(TaskSchema, task);
+}, IdParams);
@@ -0,0 +1,56 @@
+// src/app/api/v1/tasks/route.ts
+
+import { NewTask, TaskFilter } from '@/lib/repositories';
+import { v1Route, apiData, apiError, apiList, readJson, readQuery, getPage } from '@/lib/api-v1';
+import { TaskSchema, TaskCreateSchema, TaskListQuery } from '@/lib/api-v1-schemas';
+import { Task } from '@/types';
+
+interface TaskListParams {
+  status?: Task['status'][];
+  priority?: Task['priority'][];
+  due_from?: string;
+  due_to?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// GET - Tasks of any status, oldest first: ?status=&priority=&due_from=&due_to=&search=&limit=&offset=
+export const GET = v1Route('tasks:read', 'list tasks', async ({ request, user, repositories }) => {
+  const { value: query, error } = readQuery<TaskListParams>(request, TaskListQuery);
+  if (error) return error;
+
+  const filter: TaskFilter = {
+    status: query.status,
+    priority: query.priority,
+    dueFrom: query.due_from,
+    dueTo: query.due_to,
+    search: query.search?.trim() || undefined,
+  };
+  const page = getPage(query);
+  const { tasks, total } = await repositories.tasks.list(user.id, filter, page);
+
+  return apiList(TaskSchema, tasks, page, total);
+});
+
+// POST - Create one task from structured fields; it starts out pending
+export const POST = v1Route('tasks:write', 'create task', async ({ request, user, repositories }) => {
+  const { value: input, error } = await readJson<NewTask>(request, TaskCreateSchema);
+  if (error) return error;
+
+  if (input.due_time && !input.due_date) {
+    return apiError(400, 'invalid_request', 'Invalid request body', ['body.due_time needs a due_date']);
+  }
+
+  const blockedBy = [...new Set(input.blocked_by || [])];
+  const blockers = await repositories.tasks.getMany(user.id, blockedBy);
+  if (blockers.length !== blockedBy.length) {
+    return apiError(400, 'invalid_request', 'Invalid request body', ['body.blocked_by contains tasks that don\'t exist']);
+  }
+
+  const [task] = await repositories.tasks.create(user.id, [
+    { ...input, title: input.title.trim(), blocked_by: blockedBy, status: 'pending' },
+  ]);
+
+  return apiData(TaskSchema, task, 201);
+});
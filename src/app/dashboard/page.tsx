@@ -2,9 +2,12 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
 import { supabase } from '@/lib/supabase';
-import { Task, Schedule, ScheduleItem } from '@/types';
-import { format, addDays, subDays, startOfWeek, isWeekend, isToday } from 'date-fns';
+import { createSupabaseRepositories, NewTask } from '@/lib/repositories';
+import { authenticatedFetch, streamEvents } from '@/lib/api-client';
+import { Task, Schedule, ScheduleItem, DeadlineRisk, RolloverLog, TaskDecision, UsageSummary } from '@/types';
+import { format, parseISO } from 'date-fns';
 import {
   DndContext,
   DragOverlay,
@@ -20,9 +23,19 @@ import { TASK_LIST_ITEM, SCHEDULE_ITEM, SCHEDULE_DROP_ZONE, WEEK_DAY_PREFIX } fr
 import TaskCard from '@/components/TaskCard';
 import ScheduleItemCard from '@/components/ScheduleItemCard';
 import WeekDayButton from '@/components/WeekDayButton';
+import UsagePanel from '@/components/UsagePanel';
 import ScheduleDropZone from '@/components/ScheduleDropZone';
 import DragOverlayContent from '@/components/DragOverlayContent';
 import { formatDisplayTime } from '@/lib/format-time';
+import { recalculateTimeSlots as packTimeSlots, moveLunch } from '@/lib/schedule-slots';
+import { DEFAULT_USER_SETTINGS, SettingsInput, getDayProfile, loadUserSettings, getSettingsTimeZone } from '@/lib/user-settings';
+import { getZonedToday, getWeekDatesFor, addCalendarDays } from '@/lib/time-zones';
+import { getDecisionUpdate } from '@/lib/escalation';
+import { findDependencyCycle, isTaskBlocked } from '@/lib/task-dependencies';
+import { isFixedItemType } from '@/lib/fixed-events';
+import type { WeekPlanEvent } from '@/lib/schedule-planner';
+
+const repositories = createSupabaseRepositories(supabase);
 
 export default function Dashboard() {
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -34,14 +47,17 @@ export default function Dashboard() {
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState('');
   const [rolloverNotification, setRolloverNotification] = useState<{
+    logIds: string[];
     count: number;
     taskTitles: string[];
-    rolledBackIds: string[];
     autoAdded: number;
-    autoAddedItemIds: string[];
+    toDate: string;
   } | null>(null);
-  const [patterns, setPatterns] = useState<any[]>([]);
-  const [lunchStart, setLunchStart] = useState('12:00');
+  const [deadlineRisks, setDeadlineRisks] = useState<DeadlineRisk[]>([]);
+  const [settings, setSettings] = useState<SettingsInput>(DEFAULT_USER_SETTINGS);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [weekProgress, setWeekProgress] = useState<Record<string, 'pending' | 'done' | 'failed'>>({});
+  const [newEvent, setNewEvent] = useState<{ title: string; start_time: string; end_time: string } | null>(null);
   const [activeItem, setActiveItem] = useState<{
     type: string;
     task?: Task;
@@ -50,6 +66,9 @@ export default function Dashboard() {
 
   const busyRef = useRef(false);
   const rolloverRef = useRef(false);
+  const calendarSyncRef = useRef(false);
+  const icsInputRef = useRef<HTMLInputElement>(null);
+  const planAbortRef = useRef<AbortController | null>(null);
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -71,234 +90,135 @@ export default function Dashboard() {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Also reloads when the selected day finishes planning mid-run
+  const selectedProgress = weekProgress[format(selectedDate, 'yyyy-MM-dd')];
   useEffect(() => {
     if (user) {
       loadPendingTasks();
-      loadPatterns();
       loadScheduleForDate(selectedDate);
     }
-  }, [user, selectedDate]);
+  }, [user, selectedDate, selectedProgress]);
 
   useEffect(() => {
     if (user) {
-      checkAndRollover();
+      loadSettings().then(loaded => {
+        checkAndRollover();
+        loadUsage(getSettingsTimeZone(loaded));
+        if (loaded.calendar_url) syncConfiguredCalendar();
+      });
+      generateRecurringTasks();
     }
   }, [user]);
 
   // --- Data loading ---
 
-  const loadPendingTasks = async () => {
-    const { data } = await supabase
-      .from('tasks')
-      .select('*')
-      .in('status', ['pending', 'rolled_over', 'scheduled'])
-      .order('priority', { ascending: false })
-      .order('created_at', { ascending: true });
-
-    setTasks(data || []);
+  const loadSettings = async () => {
+    let loaded = await loadUserSettings(supabase, user.id);
+
+    // Adopt the browser's zone on first visit so the server agrees on what day it is
+    if (!loaded.time_zone) {
+      loaded = { ...loaded, time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone };
+      await authenticatedFetch('/api/settings', {
+        method: 'PUT',
+        body: JSON.stringify(loaded),
+      });
+    }
+    setSettings(loaded);
+
+    // Open on the user's today, which needn't be the browser's
+    const today = getZonedToday(getSettingsTimeZone(loaded));
+    if (today !== format(selectedDate, 'yyyy-MM-dd')) setSelectedDate(parseISO(today));
+    return loaded;
   };
 
-  const loadPatterns = async () => {
+  // The date it is now in the user's time zone (yyyy-MM-dd)
+  const getToday = () => getZonedToday(getSettingsTimeZone(settings));
+
+  // Model usage for the past week, plus the month so far against the budget
+  const loadUsage = async (timeZone: string = getSettingsTimeZone(settings)) => {
+    const today = getZonedToday(timeZone);
+    const response = await authenticatedFetch(`/api/usage?from=${addCalendarDays(today, -6)}&to=${today}`);
+    if (!response.ok) return;
+    const { usage } = await response.json();
+    setUsage(usage);
+  };
+
+  const loadPendingTasks = async () => {
     if (!user) return;
-    const { data } = await supabase
-      .from('task_patterns')
-      .select('*')
-      .eq('user_id', user.id);
-    setPatterns(data || []);
+    setTasks(await repositories.tasks.listOpen(user.id));
+  };
+
+  // Concrete tasks for the rest of this week from the user's recurring templates
+  const generateRecurringTasks = async () => {
+    const today = getToday();
+    const response = await authenticatedFetch('/api/task-templates/generate', {
+      method: 'POST',
+      body: JSON.stringify({ from: today, to: getWeekDatesFor(today)[6] }),
+    });
+    if (!response.ok) return;
+    const { created } = await response.json();
+    if (created > 0) await loadPendingTasks();
   };
 
   const loadScheduleForDate = async (date: Date) => {
-    const dateStr = format(date, 'yyyy-MM-dd');
-    const { data } = await supabase
-      .from('schedules')
-      .select(`
-        *,
-        items:schedule_items(
-          *,
-          task:tasks(*)
-        )
-      `)
-      .eq('schedule_date', dateStr)
-      .order('start_time', { referencedTable: 'schedule_items' })
-      .single();
-
-    if (data?.items) {
-      data.items = data.items.filter((i: any) => i.title !== '');
-    }
-    setCurrentSchedule(data);
+    if (!user) return;
+    setCurrentSchedule(await repositories.schedules.getForDate(user.id, format(date, 'yyyy-MM-dd')));
   };
 
   // --- Rollover ---
 
+  // Days are closed on the server (hourly job); this just catches up and shows the result
   const checkAndRollover = async () => {
     if (rolloverRef.current) return;
     rolloverRef.current = true;
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayStr = format(today, 'yyyy-MM-dd');
-
-    const rolledTasks: { id: string; title: string; estimated_duration?: number }[] = [];
-
-    for (let i = 1; i <= 7; i++) {
-      const pastDate = subDays(today, i);
-      const dateStr = format(pastDate, 'yyyy-MM-dd');
-      const { data: schedule } = await supabase
-        .from('schedules')
-        .select(`
-          *,
-          items:schedule_items(
-            *,
-            task:tasks(*)
-          )
-        `)
-        .eq('schedule_date', dateStr)
-        .eq('user_id', user.id)
-        .single();
-
-      if (!schedule?.items) continue;
-
-      const incompleteItems = schedule.items.filter(
-        (item: any) => item.item_type === 'task' && !item.completed && item.task_id && item.task && item.task.status !== 'completed'
-      );
-
-      for (const item of incompleteItems) {
-        // Deduplicate — same task may appear on multiple past days
-        if (rolledTasks.some(t => t.id === item.task_id)) continue;
-        rolledTasks.push({
-          id: item.task_id!,
-          title: item.task?.title || item.title,
-          estimated_duration: item.task?.estimated_duration || undefined,
-        });
-      }
-    }
-
-    if (rolledTasks.length === 0) return;
-
-    const taskIds = rolledTasks.map(t => t.id);
-    await supabase
-      .from('tasks')
-      .update({ status: 'pending' })
-      .in('id', taskIds);
-
-    let autoAdded = 0;
-    let autoAddedItemIds: string[] = [];
-
-    const { data: todaySchedule } = await supabase
-      .from('schedules')
-      .select(`
-        *,
-        items:schedule_items(
-          *,
-          task:tasks(*)
-        )
-      `)
-      .eq('schedule_date', todayStr)
-      .eq('user_id', user.id)
-      .single();
-
-    if (todaySchedule) {
-      const existingItems = (todaySchedule.items || []).filter((i: any) => i.title !== '');
-      let lastEndTime = '09:00';
-      for (const item of existingItems) {
-        if (item.end_time > lastEndTime) {
-          lastEndTime = item.end_time;
-        }
-      }
-
-      // Skip tasks already on today's schedule (check both task_id and title)
-      const existingTaskIds = new Set(existingItems.filter((i: any) => i.task_id).map((i: any) => i.task_id));
-      const existingTitles = new Set(existingItems.map((i: any) => i.title?.toLowerCase()).filter(Boolean));
-      const tasksToAdd = rolledTasks.filter(t => !existingTaskIds.has(t.id) && !existingTitles.has(t.title.toLowerCase()));
-
-      if (tasksToAdd.length === 0) {
-        // All rolled tasks are already on today's schedule — just notify
-        setRolloverNotification({
-          count: rolledTasks.length,
-          taskTitles: rolledTasks.map(t => t.title),
-          rolledBackIds: taskIds,
-          autoAdded: 0,
-          autoAddedItemIds: [],
-        });
-        await loadPendingTasks();
-        await loadScheduleForDate(selectedDate);
-        return;
-      }
-
-      const newItems = tasksToAdd.map(task => {
-        const duration = task.estimated_duration || 30;
-        const [h, m] = lastEndTime.split(':').map(Number);
-        const startMinutes = h * 60 + m;
-        const endMinutes = startMinutes + duration;
-        const startTime = formatTime(startMinutes);
-        const endTime = formatTime(endMinutes);
-        lastEndTime = endTime;
-
-        return {
-          schedule_id: todaySchedule.id,
-          task_id: task.id,
-          start_time: startTime,
-          end_time: endTime,
-          item_type: 'task' as const,
-          title: task.title,
-          completed: false,
-        };
+    const response = await authenticatedFetch('/api/rollover', { method: 'POST' });
+    if (!response.ok) return;
+
+    const { rolledOver, rollovers } = await response.json() as { rolledOver: number; rollovers: RolloverLog[] };
+    if (rollovers.length > 0) {
+      setRolloverNotification({
+        logIds: rollovers.map(log => log.id),
+        count: rollovers.reduce((sum, log) => sum + log.task_ids.length, 0),
+        taskTitles: [...new Set(rollovers.flatMap(log => log.task_titles))],
+        autoAdded: rollovers.reduce((sum, log) => sum + log.item_ids.length, 0),
+        toDate: rollovers[rollovers.length - 1].to_date,
       });
-
-      const { data: insertedItems } = await supabase
-        .from('schedule_items')
-        .insert(newItems)
-        .select();
-
-      if (insertedItems) {
-        autoAdded = insertedItems.length;
-        autoAddedItemIds = insertedItems.map(i => i.id);
-
-        await supabase
-          .from('tasks')
-          .update({ status: 'scheduled' })
-          .in('id', taskIds);
-      }
     }
 
-    setRolloverNotification({
-      count: rolledTasks.length,
-      taskTitles: rolledTasks.map(t => t.title),
-      rolledBackIds: taskIds,
-      autoAdded,
-      autoAddedItemIds,
-    });
-
-    await loadPendingTasks();
-    await loadScheduleForDate(selectedDate);
+    if (rolledOver > 0) {
+      await loadPendingTasks();
+      await loadScheduleForDate(selectedDate);
+    }
   };
 
   const handleUndoRollover = async () => {
     if (!rolloverNotification) return;
 
-    if (rolloverNotification.autoAddedItemIds.length > 0) {
-      await supabase
-        .from('schedule_items')
-        .update({ task_id: null, item_type: 'break', title: '', completed: true })
-        .in('id', rolloverNotification.autoAddedItemIds);
+    for (const id of rolloverNotification.logIds) {
+      await authenticatedFetch(`/api/rollover?id=${id}`, { method: 'DELETE' });
     }
 
-    await supabase
-      .from('tasks')
-      .update({ status: 'scheduled' })
-      .in('id', rolloverNotification.rolledBackIds);
-
     setRolloverNotification(null);
     await loadPendingTasks();
     await loadScheduleForDate(selectedDate);
   };
 
-  // --- Time helpers ---
+  const handleDismissRollover = async () => {
+    if (!rolloverNotification) return;
+    const { logIds } = rolloverNotification;
+    setRolloverNotification(null);
 
-  const formatTime = (totalMinutes: number) => {
-    return `${String(Math.floor(totalMinutes / 60)).padStart(2, '0')}:${String(totalMinutes % 60).padStart(2, '0')}`;
+    for (const id of logIds) {
+      await authenticatedFetch('/api/rollover', {
+        method: 'PATCH',
+        body: JSON.stringify({ id }),
+      });
+    }
   };
 
+  // --- Time helpers ---
+
   const getMinutes = (timeStr: string) => {
     const [h, m] = timeStr.split(':').map(Number);
     return h * 60 + m;
@@ -306,194 +226,64 @@ export default function Dashboard() {
 
   // --- DnD helpers ---
 
-  const recalculateTimeSlots = (items: ScheduleItem[]): ScheduleItem[] => {
-    let currentTime = 9 * 60; // 09:00
+  // Meetings and events keep their times; everything else flows around them from the day's start
+  const recalculateTimeSlots = (items: ScheduleItem[], dateStr: string = format(selectedDate, 'yyyy-MM-dd')): ScheduleItem[] =>
+    packTimeSlots(items, getDayProfile(settings, dateStr).startTime);
 
-    return items.map(item => {
-      const duration = getMinutes(item.end_time) - getMinutes(item.start_time);
-      const newStartTime = formatTime(currentTime);
-      currentTime += duration;
-      const newEndTime = formatTime(currentTime);
-
-      return { ...item, start_time: newStartTime, end_time: newEndTime };
+  // Item edits go through the API, which re-times the day and keeps the tasks in step
+  const editScheduleItems = async (dateStr: string, path: string, method: string, body?: unknown) => {
+    const response = await authenticatedFetch(`/api/v1/schedules/${dateStr}/items${path}`, {
+      method,
+      ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
     });
-  };
-
-  const persistReorderedItems = async (items: ScheduleItem[]) => {
-    for (const item of items) {
-      await supabase
-        .from('schedule_items')
-        .update({ start_time: item.start_time, end_time: item.end_time })
-        .eq('id', item.id);
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      alert(result.error?.message || 'Failed to update the schedule');
+      return null;
     }
+    return result.data;
   };
 
   const addTaskToDay = async (task: Task, dateStr: string, insertAtItemId?: string) => {
     // Check if this task already has a schedule_item anywhere
-    const { data: existingTaskItems } = await supabase
-      .from('schedule_items')
-      .select('id')
-      .eq('task_id', task.id);
+    const [existingItem] = await repositories.scheduleItems.listForTasks([task.id]);
 
-    // Optimistically remove from current schedule UI
-    if (currentSchedule?.items) {
-      const filtered = currentSchedule.items.filter(i => i.task_id !== task.id);
-      if (filtered.length !== currentSchedule.items.length) {
-        setCurrentSchedule({ ...currentSchedule, items: filtered });
-      }
-    }
-
-    // Find or create schedule for the target date
-    let { data: schedule } = await supabase
-      .from('schedules')
-      .select('*, items:schedule_items(*)')
-      .eq('schedule_date', dateStr)
-      .eq('user_id', user.id)
-      .single();
-
-    if (!schedule) {
-      const { data: newSchedule } = await supabase
-        .from('schedules')
-        .insert({
-          user_id: user.id,
-          schedule_date: dateStr,
-          schedule_data: { total_hours: 7, work_blocks: 1, break_blocks: 0 },
-        })
-        .select()
-        .single();
-
-      schedule = { ...newSchedule, items: [] };
-    }
-
-    const duration = task.estimated_duration || 30;
-    let movedItem: any;
-
-    if (existingTaskItems && existingTaskItems.length > 0) {
-      // MOVE existing item to this schedule (UPDATE, not delete+insert)
-      const itemId = existingTaskItems[0].id;
-      const { data: updated } = await supabase
-        .from('schedule_items')
-        .update({
-          schedule_id: schedule.id,
-          start_time: '00:00',
-          end_time: formatTime(duration),
-          title: task.title,
-        })
-        .eq('id', itemId)
-        .select()
-        .single();
-
-      movedItem = updated;
-
-      // Neutralize any extra duplicates (shouldn't exist, but safety)
-      if (existingTaskItems.length > 1) {
-        const extraIds = existingTaskItems.slice(1).map(i => i.id);
-        await supabase.from('schedule_items')
-          .update({ task_id: null, item_type: 'break', title: '', completed: true })
-          .in('id', extraIds);
+    // Dropped on an item: go in before it, counted among the movable items
+    let position: number | undefined;
+    if (insertAtItemId && currentSchedule?.items) {
+      const insertIndex = currentSchedule.items.findIndex(i => i.id === insertAtItemId);
+      if (insertIndex !== -1) {
+        position = currentSchedule.items
+          .slice(0, insertIndex)
+          .filter(i => !isFixedItemType(i.item_type) && i.id !== existingItem?.id)
+          .length;
       }
-    } else {
-      // No existing item — insert a new one
-      const { data: newItem } = await supabase
-        .from('schedule_items')
-        .insert({
-          schedule_id: schedule.id,
-          task_id: task.id,
-          start_time: '00:00',
-          end_time: formatTime(duration),
-          item_type: 'task',
-          title: task.title,
-          completed: false,
-        })
-        .select()
-        .single();
-
-      movedItem = newItem;
     }
 
-    if (!movedItem) return;
-
-    // Build ordered list — exclude the moved item from existing, then insert at position or append
-    const existingItems = (schedule.items || []).filter((i: any) => i.id !== movedItem.id && i.title !== '');
-    let orderedItems: any[];
-
-    if (insertAtItemId) {
-      const insertIndex = existingItems.findIndex((i: any) => i.id === insertAtItemId);
-      orderedItems = [...existingItems];
-      if (insertIndex !== -1) {
-        orderedItems.splice(insertIndex, 0, movedItem);
-      } else {
-        orderedItems.push(movedItem);
+    if (existingItem) {
+      // MOVE the existing item, so it keeps its id
+      const source = await repositories.schedules.getById(user.id, existingItem.schedule_id);
+      if (source) {
+        await editScheduleItems(source.schedule_date, `/${existingItem.id}/move`, 'POST', { date: dateStr, position });
       }
     } else {
-      orderedItems = [...existingItems, movedItem];
+      await editScheduleItems(dateStr, '', 'POST', { item_type: 'task', task_id: task.id, position });
     }
 
-    // Recalculate all times sequentially from 09:00
-    const recalculated = recalculateTimeSlots(orderedItems);
-    await persistReorderedItems(recalculated);
-
-    await supabase
-      .from('tasks')
-      .update({ status: 'scheduled' })
-      .eq('id', task.id);
-
     await loadPendingTasks();
     await loadScheduleForDate(selectedDate);
   };
 
-  const moveScheduleItemToDay = async (item: ScheduleItem, _sourceDateStr: string, targetDateStr: string) => {
-    // Find or create target schedule
-    let { data: targetSchedule } = await supabase
-      .from('schedules')
-      .select('*, items:schedule_items(*)')
-      .eq('schedule_date', targetDateStr)
-      .eq('user_id', user.id)
-      .single();
-
-    if (!targetSchedule) {
-      const { data: newSchedule } = await supabase
-        .from('schedules')
-        .insert({
-          user_id: user.id,
-          schedule_date: targetDateStr,
-          schedule_data: { total_hours: 7, work_blocks: 1, break_blocks: 0 },
-        })
-        .select()
-        .single();
-
-      targetSchedule = { ...newSchedule, items: [] };
-    }
-
-    // Calculate new position (append to end of target day)
-    const targetItems = (targetSchedule.items || []).filter((ti: any) => ti.id !== item.id && ti.title !== '');
-    let lastEndTime = '09:00';
-    for (const ti of targetItems) {
-      if (ti.end_time > lastEndTime) lastEndTime = ti.end_time;
-    }
-
-    const duration = getMinutes(item.end_time) - getMinutes(item.start_time);
-    const startMinutes = getMinutes(lastEndTime);
-    const endMinutes = startMinutes + duration;
-
-    // MOVE the item by updating its schedule_id (no delete+insert — avoids RLS issues)
-    await supabase
-      .from('schedule_items')
-      .update({
-        schedule_id: targetSchedule.id,
-        start_time: formatTime(startMinutes),
-        end_time: formatTime(endMinutes),
-      })
-      .eq('id', item.id);
-
+  const moveScheduleItemToDay = async (item: ScheduleItem, sourceDateStr: string, targetDateStr: string) => {
     // Optimistic update: remove from current schedule and recalculate times
     if (currentSchedule?.items) {
       const remaining = currentSchedule.items.filter(i => i.id !== item.id);
-      const recalculated = recalculateTimeSlots(remaining);
-      setCurrentSchedule({ ...currentSchedule, items: recalculated });
-      await persistReorderedItems(recalculated);
+      setCurrentSchedule({ ...currentSchedule, items: recalculateTimeSlots(remaining) });
     }
 
+    // Appended after the target day's last movable item, keeping its id and completion
+    await editScheduleItems(sourceDateStr, `/${item.id}/move`, 'POST', { date: targetDateStr });
+
     await loadScheduleForDate(selectedDate);
   };
 
@@ -538,6 +328,9 @@ export default function Dashboard() {
       const item = active.data.current?.item as ScheduleItem;
       const sourceDateStr = active.data.current?.dateStr as string;
 
+      // Meetings and events are pinned to their time and day
+      if (isFixedItemType(item.item_type)) return;
+
       if (overId.startsWith(WEEK_DAY_PREFIX)) {
         const targetDateStr = overId.replace(WEEK_DAY_PREFIX, '');
         if (targetDateStr !== sourceDateStr) {
@@ -554,11 +347,11 @@ export default function Dashboard() {
         if (activeIndex === -1 || overIndex === -1) return;
 
         const reordered = arrayMove(items, activeIndex, overIndex);
-        const recalculated = recalculateTimeSlots(reordered);
 
         // Optimistic update
-        setCurrentSchedule({ ...currentSchedule, items: recalculated });
-        await persistReorderedItems(recalculated);
+        setCurrentSchedule({ ...currentSchedule, items: recalculateTimeSlots(reordered) });
+        await editScheduleItems(currentSchedule.schedule_date, '/order', 'PUT', { item_ids: reordered.map(i => i.id) });
+        await loadScheduleForDate(selectedDate);
       }
       return;
     }
@@ -566,44 +359,15 @@ export default function Dashboard() {
 
   // --- Task CRUD ---
 
-  const parseTasksWithClaude = async (input: string) => {
-    const response = await fetch('/api/claude', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-5-20250929',
-        max_tokens: 4000,
-        messages: [{
-          role: 'user',
-          content: `Parse these tasks into a JSON array. Each task should have: title (string), description (optional string), priority ('high'|'medium'|'low'), estimated_minutes (number).
-
-RULES:
-- Preserve the EXACT original wording for the title. Do not paraphrase, shorten, or rewrite task titles.
-
-DURATION ESTIMATION:
-${patterns.length > 0 ? `Use these historical patterns from the user's completed tasks to estimate duration:\n${patterns.map(p => `- Tasks matching '${p.task_keywords.join(', ')}' typically take ${p.average_duration}min`).join('\n')}\nIf no pattern matches, use your best guess.` : 'Use your best guess at duration.'}
-Use values like 5, 10, 15, 30, 45, 60, 90, 120.
-
-Input:
-${input}
-
-Return ONLY valid JSON array, no markdown, no explanation.`
-        }]
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `API returned ${response.status}`);
-    }
-    const data = await response.json();
-    if (data.type === 'error' || data.error || !data.content?.[0]?.text) {
-      throw new Error(data.error?.message || 'Failed to parse tasks');
-    }
-    const text = data.content[0].text.replace(/```json\n?|\n?```/g, '').trim();
-    return JSON.parse(text);
+  const requestTasks = async (method: 'POST' | 'PUT', body: unknown) => {
+    const response = await authenticatedFetch('/api/tasks', { method, body: JSON.stringify(body) });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(result.error || `API returned ${response.status}`);
+    return result;
   };
 
+  // The server parses the text, turns repeating tasks into templates and
+  // holds back likely duplicates until they're confirmed here
   const handleAddTasks = async () => {
     if (!taskInput.trim() || !user) {
       alert('Please log in to add tasks');
@@ -612,30 +376,10 @@ Return ONLY valid JSON array, no markdown, no explanation.`
 
     setLoading(true);
     try {
-      const parsedTasks = await parseTasksWithClaude(taskInput);
+      const result = await requestTasks('POST', { input: taskInput });
 
-      const existingTasks = tasks;
-      const duplicates: any[] = [];
-      const uniqueTasks: any[] = [];
-
-      parsedTasks.forEach((newTask: any) => {
-        const isDuplicate = existingTasks.some(existing =>
-          existing.title.toLowerCase() === newTask.title.toLowerCase()
-        );
-
-        if (isDuplicate) {
-          const existingTask = existingTasks.find(e =>
-            e.title.toLowerCase() === newTask.title.toLowerCase()
-          );
-          duplicates.push({ newTask, existingTask });
-        } else {
-          uniqueTasks.push(newTask);
-        }
-      });
-
-      let tasksToAdd = uniqueTasks;
-
-      if (duplicates.length > 0) {
+      if (result.hasDuplicates) {
+        const duplicates: { newTask: NewTask; existingTask: Pick<Task, 'title'> }[] = result.duplicates;
         const duplicateList = duplicates
           .map((d, i) =>
             `${i + 1}. "${d.newTask.title}" (similar to: "${d.existingTask.title}")`
@@ -646,31 +390,18 @@ Return ONLY valid JSON array, no markdown, no explanation.`
           `Found ${duplicates.length} potential duplicate(s):\n\n${duplicateList}\n\nAdd anyway?`
         );
 
-        if (addDuplicates) {
-          tasksToAdd = [...uniqueTasks, ...duplicates.map(d => d.newTask)];
-        } else if (uniqueTasks.length === 0) {
+        const tasksToAdd: NewTask[] = addDuplicates
+          ? [...result.uniqueTasks, ...duplicates.map(d => d.newTask)]
+          : result.uniqueTasks;
+
+        if (tasksToAdd.length === 0) {
           alert('No unique tasks to add.');
-          setLoading(false);
+          await loadPendingTasks();
           return;
         }
+        await requestTasks('PUT', { tasksToAdd });
       }
 
-      const { data: createdTasks, error } = await supabase
-        .from('tasks')
-        .insert(
-          tasksToAdd.map((task: any) => ({
-            user_id: user.id,
-            title: task.title,
-            description: task.description || null,
-            priority: task.priority || 'medium',
-            estimated_duration: task.estimated_minutes || null,
-            status: 'pending'
-          }))
-        )
-        .select();
-
-      if (error) throw error;
-
       setTaskInput('');
       await loadPendingTasks();
 
@@ -679,48 +410,68 @@ Return ONLY valid JSON array, no markdown, no explanation.`
       alert(`Failed to add tasks: ${error.message || 'Unknown error'}`);
     } finally {
       setLoading(false);
+      loadUsage();
     }
   };
 
   const handleDeleteTask = async (taskId: string) => {
     if (!confirm('Are you sure you want to delete this task?')) return;
 
-    await supabase
-      .from('schedule_items')
-      .update({ task_id: null, item_type: 'break', title: '', completed: true })
-      .eq('task_id', taskId);
+    await repositories.scheduleItems.deleteForTasks([taskId]);
+    await repositories.tasks.delete(user.id, taskId);
+
+    await loadPendingTasks();
+    await loadScheduleForDate(selectedDate);
+  };
+
+  // Answer for a task the escalation policy flagged after slipping too often
+  const handleTaskDecision = async (taskId: string, decision: TaskDecision) => {
+    if (decision === 'drop') {
+      await handleDeleteTask(taskId);
+      return;
+    }
+
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
 
-    await supabase
-      .from('tasks')
-      .delete()
-      .eq('id', taskId);
+    await repositories.tasks.update(user.id, taskId, getDecisionUpdate(task, decision));
+
+    // Delegated or deferred work comes off the schedule; done blocks stay as history
+    if (decision !== 'do') {
+      await repositories.scheduleItems.deleteForTasks([taskId], { incompleteOnly: true });
+    }
 
     await loadPendingTasks();
     await loadScheduleForDate(selectedDate);
   };
 
   const handleChangePriority = async (taskId: string, priority: 'high' | 'medium' | 'low') => {
-    await supabase
-      .from('tasks')
-      .update({ priority })
-      .eq('id', taskId);
+    await repositories.tasks.update(user.id, taskId, { priority });
 
     await loadPendingTasks();
     await loadScheduleForDate(selectedDate);
   };
 
+  const handleBlockedByChange = async (taskId: string, blockedBy: string[]) => {
+    const updatedTasks = tasks.map(t => (t.id === taskId ? { ...t, blocked_by: blockedBy } : t));
+    const cycle = findDependencyCycle(updatedTasks);
+    if (cycle) {
+      const titles = cycle.map(id => tasks.find(t => t.id === id)?.title || id);
+      alert(`That would create a dependency cycle:\n\n${titles.join(' → ')}`);
+      return;
+    }
+
+    setTasks(updatedTasks);
+    await repositories.tasks.update(user.id, taskId, { blocked_by: blockedBy });
+
+    await loadPendingTasks();
+  };
+
   const handleTitleEdit = async (taskId: string, newTitle: string) => {
     if (!newTitle.trim()) return;
     const trimmed = newTitle.trim();
-    await supabase
-      .from('tasks')
-      .update({ title: trimmed })
-      .eq('id', taskId);
-
-    await supabase
-      .from('schedule_items')
-      .update({ title: trimmed })
-      .eq('task_id', taskId);
+    await repositories.tasks.update(user.id, taskId, { title: trimmed });
+    await repositories.scheduleItems.updateForTask(taskId, { title: trimmed });
 
     setEditingTaskId(null);
     await loadPendingTasks();
@@ -731,24 +482,13 @@ Return ONLY valid JSON array, no markdown, no explanation.`
     const minutes = parseInt(value);
     const newMinutes = isNaN(minutes) ? null : minutes;
 
-    await supabase
-      .from('tasks')
-      .update({ estimated_duration: newMinutes })
-      .eq('id', taskId);
+    await repositories.tasks.update(user.id, taskId, { estimated_duration: newMinutes });
 
     // Adjust the schedule block duration if this task is on the current schedule
     if (newMinutes && currentSchedule?.items) {
       const item = currentSchedule.items.find(i => i.task_id === taskId);
       if (item) {
-        const startMin = getMinutes(item.start_time);
-        const updatedItems = currentSchedule.items.map(i =>
-          i.id === item.id
-            ? { ...i, end_time: formatTime(startMin + newMinutes) }
-            : i
-        );
-        const recalculated = recalculateTimeSlots(updatedItems);
-        setCurrentSchedule({ ...currentSchedule, items: recalculated });
-        await persistReorderedItems(recalculated);
+        await editScheduleItems(currentSchedule.schedule_date, `/${item.id}`, 'PATCH', { duration: newMinutes });
       }
     }
 
@@ -757,372 +497,211 @@ Return ONLY valid JSON array, no markdown, no explanation.`
   };
 
   const handleLunchStartChange = async (newTime: string) => {
-    setLunchStart(newTime);
+    // Saved as the default lunch time, so the next generated schedule uses it too
+    const updatedSettings = { ...settings, lunch_start: newTime };
+    setSettings(updatedSettings);
+    await authenticatedFetch('/api/settings', {
+      method: 'PUT',
+      body: JSON.stringify(updatedSettings),
+    });
 
     if (!currentSchedule?.items) return;
 
-    const lunchItem = currentSchedule.items.find(i => i.item_type === 'lunch');
-    if (!lunchItem) return;
+    // Move the lunch block, keeping its length, and recalculate all times
+    const recalculated = moveLunch(currentSchedule.items, newTime, getDayProfile(settings, currentSchedule.schedule_date).startTime);
+    const lunch = currentSchedule.items.find(i => i.item_type === 'lunch');
+    if (!recalculated || !lunch) return;
 
-    // Update the lunch block duration (keep 30min) and recalculate all times
-    const lunchMinutes = getMinutes(newTime);
-    const updatedItems = currentSchedule.items.map(i => {
-      if (i.id === lunchItem.id) {
-        return { ...i, start_time: newTime, end_time: formatTime(lunchMinutes + 30) };
-      }
-      return i;
-    });
-
-    // Sort: all items before lunch keep order, lunch at its new time, then remaining
-    const beforeLunch = updatedItems.filter(i => i.id !== lunchItem.id && i.item_type !== 'lunch');
-    const lunch = updatedItems.find(i => i.id === lunchItem.id)!;
-
-    // Split items around the lunch time
-    let preLunch: ScheduleItem[] = [];
-    let postLunch: ScheduleItem[] = [];
-    let currentTime = 9 * 60;
-    for (const item of beforeLunch) {
-      const duration = getMinutes(item.end_time) - getMinutes(item.start_time);
-      if (currentTime + duration <= lunchMinutes) {
-        preLunch.push(item);
-        currentTime += duration;
-      } else {
-        postLunch.push(item);
-      }
-    }
-
-    const reordered = [...preLunch, lunch, ...postLunch];
-    const recalculated = recalculateTimeSlots(reordered);
     setCurrentSchedule({ ...currentSchedule, items: recalculated });
-    await persistReorderedItems(recalculated);
+    await editScheduleItems(currentSchedule.schedule_date, `/${lunch.id}`, 'PATCH', { start_time: newTime });
+    await loadScheduleForDate(selectedDate);
   };
 
-  const handleCompleteTask = async (
-    itemId: string,
-    taskId: string | null,
-    currentlyCompleted: boolean,
-    startTime?: string,
-    endTime?: string,
-    taskTitle?: string
-  ) => {
-    await supabase
-      .from('schedule_items')
-      .update({ completed: !currentlyCompleted })
-      .eq('id', itemId);
-
-    if (!currentlyCompleted && taskId) {
-      await supabase
-        .from('tasks')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', taskId);
-
-      if (startTime && endTime && taskTitle) {
-        try {
-          const [startH, startM] = startTime.split(':').map(Number);
-          const [endH, endM] = endTime.split(':').map(Number);
-          const actualMinutes = (endH * 60 + endM) - (startH * 60 + startM);
-
-          const commonWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'it', 'up']);
-          const keywords = taskTitle
-            .toLowerCase()
-            .split(/\s+/)
-            .map(w => w.replace(/[^\w]/g, ''))
-            .filter(w => w.length > 3 && !commonWords.has(w))
-            .slice(0, 5);
-
-          if (keywords.length > 0 && actualMinutes > 0) {
-            const matchingPattern = patterns.find(p =>
-              p.task_keywords.some((kw: string) => keywords.includes(kw))
-            );
-
-            if (matchingPattern) {
-              const newTimesScheduled = matchingPattern.times_scheduled + 1;
-              const newTimesCompleted = matchingPattern.times_completed + 1;
-              const newAvgDuration = Math.round(
-                (matchingPattern.average_duration * matchingPattern.times_scheduled + actualMinutes) / newTimesScheduled
-              );
-              await supabase
-                .from('task_patterns')
-                .update({
-                  average_duration: newAvgDuration,
-                  times_scheduled: newTimesScheduled,
-                  times_completed: newTimesCompleted,
-                  completion_rate: newTimesCompleted / newTimesScheduled,
-                  updated_at: new Date().toISOString()
-                })
-                .eq('id', matchingPattern.id);
-            } else {
-              await supabase
-                .from('task_patterns')
-                .insert({
-                  user_id: user.id,
-                  task_keywords: keywords,
-                  average_duration: actualMinutes,
-                  times_scheduled: 1,
-                  times_completed: 1,
-                  completion_rate: 1.0
-                });
-            }
-            await loadPatterns();
-          }
-        } catch (err) {
-          console.error('Failed to update task pattern:', err);
-        }
-      }
+  const handleAddFixedEvent = async () => {
+    if (!newEvent || !newEvent.title.trim()) return;
+    if (getMinutes(newEvent.end_time) <= getMinutes(newEvent.start_time)) {
+      alert('The event must end after it starts');
+      return;
     }
 
-    if (currentlyCompleted && taskId) {
-      await supabase
-        .from('tasks')
-        .update({
-          status: 'pending',
-          completed_at: null
-        })
-        .eq('id', taskId);
-    }
+    // The rest of the day flows around the new meeting; one that overlaps another is refused
+    const saved = await editScheduleItems(format(selectedDate, 'yyyy-MM-dd'), '', 'POST', {
+      item_type: 'meeting',
+      title: newEvent.title.trim(),
+      start_time: newEvent.start_time,
+      end_time: newEvent.end_time,
+    });
+    if (!saved) return;
 
+    setNewEvent(null);
     await loadScheduleForDate(selectedDate);
-    await loadPendingTasks();
   };
 
-  // --- Schedule generation ---
+  const calendarImportQuery = () => ({
+    date: getWeekDatesFor(getToday())[0],
+    days: 7,
+    timeZone: getSettingsTimeZone(settings),
+  });
 
-  const handleGenerateSchedule = async () => {
-    if (busyRef.current) return;
-    if (tasks.length === 0) {
-      alert('Please add some tasks first!');
-      return;
+  // Pull busy time from the calendar feed set in settings
+  const syncConfiguredCalendar = async () => {
+    if (calendarSyncRef.current) return;
+    calendarSyncRef.current = true;
+
+    const { date, days, timeZone } = calendarImportQuery();
+    const response = await authenticatedFetch(
+      `/api/calendar/import?date=${date}&days=${days}&timeZone=${encodeURIComponent(timeZone)}`
+    );
+    if (!response.ok) return; // an unreachable feed shouldn't block the dashboard
+
+    const result = await response.json();
+    if (result.dates?.length > 0) {
+      await loadScheduleForDate(selectedDate);
     }
+  };
 
-    busyRef.current = true;
+  const handleImportIcs = async (file: File) => {
     setLoading(true);
     try {
-      const weekDates = getWeekDates();
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      const remainingDates = weekDates.filter(date => {
-        const d = new Date(date);
-        d.setHours(0, 0, 0, 0);
-        return d >= today && !isWeekend(d);
+      const response = await authenticatedFetch('/api/calendar/import', {
+        method: 'POST',
+        body: JSON.stringify({ ...calendarImportQuery(), ics: await file.text() }),
       });
-
-      if (remainingDates.length === 0) {
-        alert('No remaining days in this week!');
-        busyRef.current = false;
-        setLoading(false);
+      const result = await response.json();
+      if (!response.ok) {
+        alert(result.error || 'Failed to import calendar');
         return;
       }
-
-      // Distribute tasks round-robin by priority across remaining days
-      const tasksPerDay: Task[][] = remainingDates.map(() => []);
-      const sortedTasks = [...tasks].sort((a, b) => {
-        const order = { high: 0, medium: 1, low: 2 };
-        return order[a.priority] - order[b.priority];
-      });
-
-      sortedTasks.forEach((task, index) => {
-        const dayIndex = index % remainingDates.length;
-        tasksPerDay[dayIndex].push(task);
-      });
-
-      for (let i = 0; i < remainingDates.length; i++) {
-        const dateStr = format(remainingDates[i], 'yyyy-MM-dd');
-        const dayTasks = tasksPerDay[i];
-        if (dayTasks.length === 0) continue;
-        await generateScheduleForDay(dateStr, dayTasks, 7);
-      }
-
       await loadScheduleForDate(selectedDate);
-      await loadPendingTasks();
     } catch (error) {
-      console.error('Error:', error);
-      alert('Failed to generate schedules');
+      console.error('Calendar import error:', error);
+      alert('Failed to import calendar');
     } finally {
-      busyRef.current = false;
       setLoading(false);
+      if (icsInputRef.current) icsInputRef.current.value = '';
     }
   };
 
-  const generateScheduleForDay = async (date: string, dayTasks: Task[], hours: number) => {
-    // Find or create the schedule row (never delete it — avoids RLS/unique constraint issues)
-    let { data: scheduleRow } = await supabase
-      .from('schedules')
-      .select('id')
-      .eq('schedule_date', date)
-      .eq('user_id', user.id)
-      .single();
-
-    if (!scheduleRow) {
-      const { data: newSchedule, error } = await supabase
-        .from('schedules')
-        .insert({
-          user_id: user.id,
-          schedule_date: date,
-          schedule_data: { total_hours: hours, work_blocks: 0, break_blocks: 0 },
-        })
-        .select()
-        .single();
-
-      if (error || !newSchedule) throw error || new Error('Failed to create schedule');
-      scheduleRow = newSchedule;
-    }
-
-    const scheduleId = scheduleRow!.id;
-
-    // Fetch existing items for this schedule (we'll reuse rows via UPDATE instead of DELETE)
-    const { data: existingItems } = await supabase
-      .from('schedule_items')
-      .select('id')
-      .eq('schedule_id', scheduleId)
-      .order('start_time');
-
-    // Neutralize stale items for these tasks on OTHER schedules (enforces one-task-per-day)
-    const taskIds = dayTasks.map(t => t.id);
-    const { data: staleItems } = await supabase
-      .from('schedule_items')
-      .select('id')
-      .in('task_id', taskIds)
-      .neq('schedule_id', scheduleId);
-
-    if (staleItems && staleItems.length > 0) {
-      for (const stale of staleItems) {
-        await supabase
-          .from('schedule_items')
-          .update({ task_id: null, item_type: 'break', title: '', completed: true })
-          .eq('id', stale.id);
-      }
+  const handleExportWeek = async () => {
+    const { timeZone } = calendarImportQuery();
+    const response = await authenticatedFetch(
+      `/api/calendar/export?date=${format(selectedDate, 'yyyy-MM-dd')}&range=week&timeZone=${encodeURIComponent(timeZone)}`
+    );
+    if (!response.ok) {
+      alert('Failed to export schedule');
+      return;
     }
 
-    const taskDescriptions = dayTasks.map(t =>
-      `${t.title} [Priority: ${t.priority}]${t.estimated_duration ? ` [Est: ${t.estimated_duration}min]` : ''}`
-    );
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `schedule-week-${getWeekDatesFor(format(selectedDate, 'yyyy-MM-dd'))[0]}.ics`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
-    const patternsBlock = patterns.length > 0
-      ? `\nHISTORICAL PATTERNS (use to validate/adjust time block sizes):\n${patterns.map(p => `- Tasks like '${p.task_keywords.join(', ')}' typically take ${p.average_duration}min (completed ${p.times_completed} times)`).join('\n')}\n`
-      : '';
+  const handleSubscribeFeed = async () => {
+    if (!confirm('Create a calendar feed link? Any link created earlier will stop working.')) return;
+    const includeBreaks = confirm('Include breaks and lunch in the feed?');
 
-    const response = await fetch('/api/claude', {
+    const response = await authenticatedFetch('/api/calendar/feed', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-5-20250929',
-        max_tokens: 4000,
-        messages: [{
-          role: 'user',
-          content: `Generate a ${hours}-hour work schedule for ${date}.
-
-TASKS:
-${taskDescriptions.map((t, i) => `${i + 1}. ${t}`).join('\n')}
-${patternsBlock}
-RULES:
-- Total work time: ${hours} hours, start 9:00 AM
-- Use each task's estimated duration for block sizing
-- Cross-reference with historical patterns — if a pattern suggests different duration, prefer the pattern
-- High-priority and imminent-deadline tasks in the morning
-- Include 30min lunch break starting at ${lunchStart}
-- Include 5-10min breaks every 60-90min
-- Each task gets its own block
-- Use EXACT task titles from the list above (without the [Priority], [Est], or [Due] tags)
-
-Return ONLY valid JSON:
-{
-  "blocks": [
-    {"start_time": "09:00", "end_time": "10:30", "type": "task", "title": "exact task name", "estimated_duration": 90},
-    {"start_time": "10:30", "end_time": "10:40", "type": "break", "title": "Break", "estimated_duration": 10},
-    {"start_time": "${lunchStart}", "end_time": "${formatTime(getMinutes(lunchStart) + 30)}", "type": "lunch", "title": "Lunch break", "estimated_duration": 30}
-  ]
-}`
-        }]
-      })
+      body: JSON.stringify({ includeBreaks, timeZone: calendarImportQuery().timeZone }),
     });
-
-    const data = await response.json();
-    if (!response.ok || data.type === 'error' || !data.content?.[0]?.text) {
-      throw new Error(data.error?.message || 'Claude API returned an error');
+    const result = await response.json();
+    if (!response.ok) {
+      alert(result.error || 'Failed to create calendar feed');
+      return;
     }
-    const text = data.content[0].text.replace(/```json\n?|\n?```/g, '').trim();
-    const schedule = JSON.parse(text);
-
-    // Deduplicate blocks: if Claude generated the same task twice, keep only the first
-    const seenTaskTitles = new Set<string>();
-    const dedupedBlocks = schedule.blocks.filter((block: any) => {
-      if (block.type !== 'task') return true;
-      const key = block.title.toLowerCase();
-      if (seenTaskTitles.has(key)) return false;
-      seenTaskTitles.add(key);
-      return true;
-    });
 
-    // Update schedule metadata
-    await supabase
-      .from('schedules')
-      .update({
-        schedule_data: {
-          total_hours: hours,
-          work_blocks: dedupedBlocks.filter((b: any) => b.type === 'task').length,
-          break_blocks: dedupedBlocks.filter((b: any) => b.type !== 'task').length,
-        },
-      })
-      .eq('id', scheduleId);
-
-    const items = dedupedBlocks.map((block: any) => {
-      const matchingTask = dayTasks.find(t =>
-        block.title.toLowerCase().includes(t.title.toLowerCase()) ||
-        t.title.toLowerCase().includes(block.title.toLowerCase())
-      );
-
-      return {
-        schedule_id: scheduleId,
-        task_id: matchingTask?.id || null,
-        start_time: block.start_time,
-        end_time: block.end_time,
-        item_type: block.type,
-        title: block.title,
-        completed: false,
-      };
-    });
+    prompt('Subscribe to this URL in your calendar app:', result.url);
+  };
 
-    // Overwrite existing rows with new data via UPDATE; INSERT extras; neutralize leftovers
-    // (Uses UPDATE instead of DELETE to avoid Supabase RLS issues)
-    const oldItems = existingItems || [];
-    for (let i = 0; i < items.length; i++) {
-      if (i < oldItems.length) {
-        await supabase
-          .from('schedule_items')
-          .update(items[i])
-          .eq('id', oldItems[i].id);
-      } else {
-        await supabase.from('schedule_items').insert(items[i]);
-      }
-    }
+  const handleRemoveFixedEvent = async (itemId: string) => {
+    if (!confirm('Remove this event from the schedule?')) return;
+
+    await editScheduleItems(format(selectedDate, 'yyyy-MM-dd'), `/${itemId}`, 'DELETE');
+
+    await loadScheduleForDate(selectedDate);
+  };
+
+  // The server completes (or reopens) the task with its item and learns from the item's length
+  const handleCompleteTask = async (itemId: string, currentlyCompleted: boolean) => {
+    await editScheduleItems(format(selectedDate, 'yyyy-MM-dd'), `/${itemId}`, 'PATCH', { completed: !currentlyCompleted });
+
+    await loadScheduleForDate(selectedDate);
+    await loadPendingTasks();
+  };
+
+  // --- Schedule generation ---
 
-    // Neutralize any leftover old items (more old rows than new blocks)
-    for (let i = items.length; i < oldItems.length; i++) {
-      await supabase
-        .from('schedule_items')
-        .update({ task_id: null, item_type: 'break', title: '', start_time: '23:59', end_time: '23:59', completed: true })
-        .eq('id', oldItems[i].id);
+  const handleGenerateSchedule = async () => {
+    if (busyRef.current) return;
+
+    busyRef.current = true;
+    setLoading(true);
+    const controller = new AbortController();
+    planAbortRef.current = controller;
+    try {
+      const today = getToday();
+      const risks: DeadlineRisk[] = [];
+      let failed: string[] = [];
+
+      // Each day is saved and shown as soon as the server has planned it
+      await streamEvents<WeekPlanEvent>('/api/plan-week', { from: today, to: getWeekDatesFor(today)[6] }, event => {
+        switch (event.type) {
+          case 'start':
+            if (event.dates.length === 0) {
+              alert(tasks.length === 0 ? 'Please add some tasks first!' : 'No remaining workdays in this week!');
+            }
+            setWeekProgress(Object.fromEntries(event.dates.map(date => [date, 'pending'])));
+            break;
+          case 'day':
+            risks.push(...event.day.atRisk.filter(r => !risks.some(existing => existing.task_id === r.task_id)));
+            setDeadlineRisks([...risks]);
+            setWeekProgress(progress => ({ ...progress, [event.day.date]: 'done' }));
+            break;
+          case 'day_error':
+            setWeekProgress(progress => ({ ...progress, [event.date]: 'failed' }));
+            break;
+          case 'done':
+            setDeadlineRisks(event.atRisk);
+            failed = event.failed;
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      }, controller.signal);
+
+      if (failed.length > 0) {
+        alert(`Couldn't plan ${failed.map(date => format(parseISO(date), 'EEE MMM d')).join(', ')}; those tasks kept their old slots.`);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error:', error);
+        alert('Failed to generate schedules');
+      }
+    } finally {
+      planAbortRef.current = null;
+      busyRef.current = false;
+      setLoading(false);
+      setWeekProgress({});
+      await loadScheduleForDate(selectedDate);
+      await loadPendingTasks();
+      loadUsage();
     }
+  };
 
-    // Mark these tasks as scheduled
-    await supabase
-      .from('tasks')
-      .update({ status: 'scheduled' })
-      .in('id', taskIds);
+  // Days already planned stay saved; the rest keep their old schedules
+  const handleCancelGenerate = () => {
+    planAbortRef.current?.abort();
   };
 
   const handleSignOut = async () => {
     await supabase.auth.signOut();
   };
 
-  const getWeekDates = () => {
-    const start = startOfWeek(new Date(), { weekStartsOn: 0 });
-    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
-  };
+  const getWeekDates = () => getWeekDatesFor(getToday()).map(dateStr => parseISO(dateStr));
 
   const priorityConfig = {
     high: { dot: 'bg-[#e8705e]', text: 'text-[#e8705e]', label: 'High', border: 'border-l-[#e8705e]', tint: 'bg-[#e8705e]/[0.06]' },
@@ -1149,6 +728,8 @@ Return ONLY valid JSON:
   const weekDates = getWeekDates();
   const scheduleItems = currentSchedule?.items || [];
   const selectedDateStr = format(selectedDate, 'yyyy-MM-dd');
+  const todayStr = getToday();
+  const selectedLunchStart = getDayProfile(settings, selectedDateStr).lunchStart;
 
   return (
     <DndContext
@@ -1174,12 +755,32 @@ Return ONLY valid JSON:
             <h1 className="text-2xl font-semibold text-white tracking-tight">
               TaskFlow
             </h1>
-            <button
-              onClick={handleSignOut}
-              className="px-3 py-1.5 rounded-lg text-slate-500 hover:text-slate-300 transition-colors text-sm"
-            >
-              Sign Out
-            </button>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={handleExportWeek}
+                className="px-3 py-1.5 rounded-lg text-slate-500 hover:text-slate-300 transition-colors text-sm"
+              >
+                Export Week
+              </button>
+              <button
+                onClick={handleSubscribeFeed}
+                className="px-3 py-1.5 rounded-lg text-slate-500 hover:text-slate-300 transition-colors text-sm"
+              >
+                Subscribe
+              </button>
+              <Link
+                href="/settings"
+                className="px-3 py-1.5 rounded-lg text-slate-500 hover:text-slate-300 transition-colors text-sm"
+              >
+                Settings
+              </Link>
+              <button
+                onClick={handleSignOut}
+                className="px-3 py-1.5 rounded-lg text-slate-500 hover:text-slate-300 transition-colors text-sm"
+              >
+                Sign Out
+              </button>
+            </div>
           </div>
 
           {/* Rollover notification */}
@@ -1189,7 +790,9 @@ Return ONLY valid JSON:
                 <p className="text-sm text-slate-300">
                   {rolloverNotification.count} incomplete {rolloverNotification.count === 1 ? 'task' : 'tasks'} rolled over from previous days
                   {rolloverNotification.autoAdded > 0 && (
-                    <span className="text-[#d4a54a]"> — {rolloverNotification.autoAdded} added to today&apos;s schedule</span>
+                    <span className="text-[#d4a54a]">
+                      {' '}— {rolloverNotification.autoAdded} added to {rolloverNotification.toDate === todayStr ? <>today&apos;s schedule</> : format(parseISO(rolloverNotification.toDate), 'EEEE')}
+                    </span>
                   )}
                 </p>
                 <p className="text-xs text-slate-600 mt-0.5 truncate">
@@ -1204,7 +807,7 @@ Return ONLY valid JSON:
                   Undo
                 </button>
                 <button
-                  onClick={() => setRolloverNotification(null)}
+                  onClick={handleDismissRollover}
                   className="text-slate-600 hover:text-slate-400 transition-colors p-1"
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
@@ -1215,6 +818,28 @@ Return ONLY valid JSON:
             </div>
           )}
 
+          {/* Deadline risks from the last generation */}
+          {deadlineRisks.length > 0 && (
+            <div className="mb-6 bg-[#e8705e]/[0.06] border border-[#e8705e]/20 rounded-xl px-4 py-3 flex items-center justify-between animate-fade-in">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-[#e8705e]">
+                  {deadlineRisks.length} {deadlineRisks.length === 1 ? 'task is' : 'tasks are'} at risk of missing {deadlineRisks.length === 1 ? 'its' : 'their'} deadline
+                </p>
+                <p className="text-xs text-slate-500 mt-0.5 truncate">
+                  {deadlineRisks.map(r => `${r.title} (due ${format(parseISO(r.due_date), 'EEE MMM d')}${r.due_time ? ` ${formatDisplayTime(r.due_time)}` : ''})`).join(', ')}
+                </p>
+              </div>
+              <button
+                onClick={() => setDeadlineRisks([])}
+                className="text-slate-600 hover:text-slate-400 transition-colors p-1 ml-4 flex-shrink-0"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+                </svg>
+              </button>
+            </div>
+          )}
+
           {/* Week Navigation */}
           <div className="flex gap-2 mb-8 overflow-x-auto pb-2">
             {weekDates.map((date) => {
@@ -1227,6 +852,8 @@ Return ONLY valid JSON:
                   date={date}
                   dateStr={dateStr}
                   isSelected={isSelected}
+                  isToday={dateStr === todayStr}
+                  progress={weekProgress[dateStr]}
                   onClick={() => setSelectedDate(date)}
                 />
               );
@@ -1275,6 +902,7 @@ Return ONLY valid JSON:
                         <TaskCard
                           key={task.id}
                           task={task}
+                          today={todayStr}
                           pc={pc}
                           isEditing={editingTaskId === task.id}
                           editingTitle={editingTitle}
@@ -1285,12 +913,19 @@ Return ONLY valid JSON:
                           onDelete={handleDeleteTask}
                           onChangePriority={handleChangePriority}
                           onEstimatedDurationChange={handleEstimatedDurationChange}
+                          allTasks={tasks}
+                          isBlocked={isTaskBlocked(task, tasks)}
+                          onBlockedByChange={handleBlockedByChange}
+                          onDecision={handleTaskDecision}
                         />
                       );
                     })
                   )}
                 </div>
               </div>
+
+              {/* Model Usage */}
+              {usage && <UsagePanel usage={usage} today={todayStr} />}
             </div>
 
             {/* Right Column - Schedule */}
@@ -1309,25 +944,90 @@ Return ONLY valid JSON:
                     <label className="flex items-center gap-1.5 text-[11px] text-slate-500">
                       Lunch
                       <select
-                        value={lunchStart}
+                        value={selectedLunchStart}
                         onChange={(e) => handleLunchStartChange(e.target.value)}
                         className="text-[11px] px-1.5 py-1 rounded bg-white/[0.03] border border-white/[0.06] text-slate-400 cursor-pointer focus:outline-none transition-all"
                       >
-                        {['11:00', '11:30', '12:00', '12:30', '13:00', '13:30'].map(t => (
+                        {[...new Set(['11:00', '11:30', '12:00', '12:30', '13:00', '13:30', selectedLunchStart])].sort().map(t => (
                           <option key={t} value={t}>{formatDisplayTime(t)}</option>
                         ))}
                       </select>
                     </label>
+                    <input
+                      ref={icsInputRef}
+                      type="file"
+                      accept=".ics,text/calendar"
+                      className="hidden"
+                      onChange={(e) => e.target.files?.[0] && handleImportIcs(e.target.files[0])}
+                    />
                     <button
-                      onClick={handleGenerateSchedule}
+                      onClick={() => icsInputRef.current?.click()}
                       disabled={loading}
-                      className="btn-primary px-4 py-2 rounded-lg text-sm"
+                      className="btn-secondary px-3 py-2 rounded-lg text-sm"
+                      title="Block out this week's meetings from an .ics calendar file"
                     >
-                      Generate Schedule
+                      Import .ics
                     </button>
+                    <button
+                      onClick={() => setNewEvent(newEvent ? null : { title: '', start_time: '10:00', end_time: '10:30' })}
+                      className="btn-secondary px-3 py-2 rounded-lg text-sm"
+                    >
+                      Add Event
+                    </button>
+                    {Object.keys(weekProgress).length > 0 ? (
+                      <button
+                        onClick={handleCancelGenerate}
+                        className="btn-secondary px-4 py-2 rounded-lg text-sm"
+                      >
+                        Cancel ({Object.values(weekProgress).filter(status => status !== 'pending').length}/{Object.keys(weekProgress).length})
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleGenerateSchedule}
+                        disabled={loading}
+                        className="btn-primary px-4 py-2 rounded-lg text-sm"
+                      >
+                        Generate Schedule
+                      </button>
+                    )}
                   </div>
                 </div>
 
+                {newEvent && (
+                  <div className="mb-4 flex items-center gap-2 animate-fade-in">
+                    <input
+                      autoFocus
+                      value={newEvent.title}
+                      onChange={(e) => setNewEvent({ ...newEvent, title: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleAddFixedEvent();
+                        if (e.key === 'Escape') setNewEvent(null);
+                      }}
+                      placeholder="Standup, 1:1, ..."
+                      className="flex-1 min-w-0 text-sm px-3 py-2 rounded-lg bg-white/[0.03] border border-white/[0.06] text-white placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-white/15"
+                    />
+                    <input
+                      type="time"
+                      value={newEvent.start_time}
+                      onChange={(e) => setNewEvent({ ...newEvent, start_time: e.target.value })}
+                      className="text-sm px-2 py-2 rounded-lg bg-white/[0.03] border border-white/[0.06] text-slate-400 focus:outline-none"
+                    />
+                    <input
+                      type="time"
+                      value={newEvent.end_time}
+                      onChange={(e) => setNewEvent({ ...newEvent, end_time: e.target.value })}
+                      className="text-sm px-2 py-2 rounded-lg bg-white/[0.03] border border-white/[0.06] text-slate-400 focus:outline-none"
+                    />
+                    <button
+                      onClick={handleAddFixedEvent}
+                      disabled={!newEvent.title.trim()}
+                      className="btn-primary px-3 py-2 rounded-lg text-sm"
+                    >
+                      Add
+                    </button>
+                  </div>
+                )}
+
                 {!currentSchedule ? (
                   <ScheduleDropZone>
                     <div className="text-center py-16 animate-fade-in">
@@ -1351,6 +1051,7 @@ Return ONLY valid JSON:
                             item={item}
                             pc={pc}
                             onComplete={handleCompleteTask}
+                            onRemove={handleRemoveFixedEvent}
                             dateStr={selectedDateStr}
                           />
                         );
@@ -5,6 +5,17 @@ import { useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useRouter } from 'next/navigation';
 
+// Only a path on this origin: "/\evil.com" and "//evil.com" would send the user elsewhere
+function getRedirectPath(next: string | null): string {
+  if (!next || next.includes('\\')) return '/dashboard';
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search : '/dashboard';
+  } catch {
+    return '/dashboard';
+  }
+}
+
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -24,7 +35,8 @@ export default function Login() {
       } else {
         const { error } = await supabase.auth.signInWithPassword({ email, password });
         if (error) throw error;
-        router.push('/dashboard');
+        // Back to where the middleware sent them from, if that was a page of ours
+        router.push(getRedirectPath(new URLSearchParams(window.location.search).get('next')));
       }
     } catch (error: any) {
       alert(error.message);
@@ -0,0 +1,304 @@
+// src/app/settings/page.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { authenticatedFetch } from '@/lib/api-client';
+import AccessTokensPanel from '@/components/AccessTokensPanel';
+import { DEFAULT_USER_SETTINGS, SettingsInput } from '@/lib/user-settings';
+import { ESCALATION_ACTIONS } from '@/lib/escalation';
+import { WeekdayOverride, EscalationAction } from '@/types';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const LUNCH_LENGTHS = [0, 15, 30, 45, 60, 90];
+const BREAK_CADENCES = [0, 45, 60, 75, 90, 120];
+const BREAK_LENGTHS = [5, 10, 15, 20];
+
+const ESCALATION_THRESHOLDS = [0, 2, 3, 4, 5, 7, 10];
+const ESCALATION_LABELS: Record<EscalationAction, string> = {
+  bump_priority: 'raise its priority',
+  next_morning: 'put it first thing the next morning',
+  decide: 'ask me to do, delegate, defer or drop it',
+};
+
+const TIME_ZONES = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+const inputClass = 'text-sm px-2 py-1.5 rounded-lg bg-white/[0.03] border border-white/[0.06] text-slate-300 focus:outline-none focus:ring-1 focus:ring-white/15';
+
+export default function Settings() {
+  const [user, setUser] = useState<User | null>(null);
+  const [settings, setSettings] = useState<SettingsInput>(DEFAULT_USER_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUser(session?.user ?? null);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    authenticatedFetch('/api/settings')
+      .then(response => response.json())
+      .then(data => {
+        if (data.settings) setSettings(data.settings);
+      })
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const update = (changes: Partial<SettingsInput>) => {
+    setSettings({ ...settings, ...changes });
+    setSaved(false);
+  };
+
+  const toggleWorkday = (weekday: number) => {
+    update({
+      workdays: settings.workdays.includes(weekday)
+        ? settings.workdays.filter(d => d !== weekday)
+        : [...settings.workdays, weekday].sort(),
+    });
+  };
+
+  const updateOverride = (weekday: number, changes: WeekdayOverride | null) => {
+    const overrides = { ...settings.weekday_overrides };
+    if (changes === null) {
+      delete overrides[weekday];
+    } else {
+      overrides[weekday] = { ...overrides[weekday], ...changes };
+    }
+    update({ weekday_overrides: overrides });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors([]);
+    try {
+      const response = await authenticatedFetch('/api/settings', {
+        method: 'PUT',
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details || [data.error || 'Failed to save settings']);
+        return;
+      }
+      setSettings(data.settings);
+      setSaved(true);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!user || loading) {
+    return (
+      <div className="min-h-screen bg-[#050507] flex items-center justify-center">
+        <div className="w-10 h-10 border-2 border-white/20 border-t-white rounded-full animate-spin-slow" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#050507] text-white">
+      <div className="max-w-3xl mx-auto p-6">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-2xl font-semibold text-white tracking-tight">
+            Work day
+          </h1>
+          <Link
+            href="/dashboard"
+            className="px-3 py-1.5 rounded-lg text-slate-500 hover:text-slate-300 transition-colors text-sm"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+
+        <div className="glass-card p-6 space-y-6 animate-fade-in">
+          <section>
+            <h2 className="text-sm font-medium text-slate-400 mb-3">Hours</h2>
+            <div className="flex items-center gap-3 text-sm text-slate-500">
+              <label className="flex items-center gap-2">
+                Start
+                <input type="time" value={settings.day_start} onChange={(e) => update({ day_start: e.target.value })} className={inputClass} />
+              </label>
+              <label className="flex items-center gap-2">
+                End
+                <input type="time" value={settings.day_end} onChange={(e) => update({ day_end: e.target.value })} className={inputClass} />
+              </label>
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-sm font-medium text-slate-400 mb-1">Time zone</h2>
+            <p className="text-xs text-slate-600 mb-3">Decides when your day starts and ends, and so when unfinished tasks roll over.</p>
+            <select
+              value={settings.time_zone || ''}
+              onChange={(e) => update({ time_zone: e.target.value || null })}
+              className={inputClass}
+            >
+              <option value="">This browser ({Intl.DateTimeFormat().resolvedOptions().timeZone})</option>
+              {[...new Set([...(settings.time_zone ? [settings.time_zone] : []), ...TIME_ZONES])].map(zone => (
+                <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </section>
+
+          <section>
+            <h2 className="text-sm font-medium text-slate-400 mb-3">Workdays</h2>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((name, weekday) => (
+                <button
+                  key={name}
+                  onClick={() => toggleWorkday(weekday)}
+                  className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                    settings.workdays.includes(weekday)
+                      ? 'bg-white/[0.08] border-white/15 text-white'
+                      : 'bg-transparent border-white/[0.06] text-slate-600'
+                  }`}
+                >
+                  {name.slice(0, 3)}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-sm font-medium text-slate-400 mb-3">Lunch and breaks</h2>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-slate-500">
+              <label className="flex items-center gap-2">
+                Lunch at
+                <input type="time" value={settings.lunch_start} onChange={(e) => update({ lunch_start: e.target.value })} className={inputClass} />
+              </label>
+              <label className="flex items-center gap-2">
+                for
+                <select value={settings.lunch_duration} onChange={(e) => update({ lunch_duration: Number(e.target.value) })} className={inputClass}>
+                  {LUNCH_LENGTHS.map(m => (
+                    <option key={m} value={m}>{m === 0 ? 'no lunch' : `${m}m`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Break every
+                <select value={settings.break_every} onChange={(e) => update({ break_every: Number(e.target.value) })} className={inputClass}>
+                  {BREAK_CADENCES.map(m => (
+                    <option key={m} value={m}>{m === 0 ? 'never' : `${m}m`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                for
+                <select value={settings.break_duration} onChange={(e) => update({ break_duration: Number(e.target.value) })} className={inputClass}>
+                  {BREAK_LENGTHS.map(m => (
+                    <option key={m} value={m}>{m}m</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-sm font-medium text-slate-400 mb-1">Per-day overrides</h2>
+            <p className="text-xs text-slate-600 mb-3">Different hours on some days, e.g. short Fridays. Empty fields use the defaults above.</p>
+            <div className="space-y-2">
+              {settings.workdays.map(weekday => {
+                const override = settings.weekday_overrides[weekday];
+                return (
+                  <div key={weekday} className="flex flex-wrap items-center gap-2 text-sm text-slate-500">
+                    <span className="w-24 text-slate-400">{WEEKDAYS[weekday]}</span>
+                    {override ? (
+                      <>
+                        <input type="time" value={override.day_start || ''} onChange={(e) => updateOverride(weekday, { day_start: e.target.value || undefined })} className={inputClass} />
+                        <span>to</span>
+                        <input type="time" value={override.day_end || ''} onChange={(e) => updateOverride(weekday, { day_end: e.target.value || undefined })} className={inputClass} />
+                        <span>lunch</span>
+                        <input type="time" value={override.lunch_start || ''} onChange={(e) => updateOverride(weekday, { lunch_start: e.target.value || undefined })} className={inputClass} />
+                        <select
+                          value={override.lunch_duration ?? ''}
+                          onChange={(e) => updateOverride(weekday, { lunch_duration: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          className={inputClass}
+                        >
+                          <option value="">default</option>
+                          {LUNCH_LENGTHS.map(m => (
+                            <option key={m} value={m}>{m === 0 ? 'no lunch' : `${m}m`}</option>
+                          ))}
+                        </select>
+                        <button onClick={() => updateOverride(weekday, null)} className="text-xs text-slate-600 hover:text-slate-300 transition-colors px-2">
+                          Remove
+                        </button>
+                      </>
+                    ) : (
+                      <button onClick={() => updateOverride(weekday, {})} className="text-xs text-slate-600 hover:text-slate-300 transition-colors">
+                        + Custom hours
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-sm font-medium text-slate-400 mb-1">Calendar</h2>
+            <p className="text-xs text-slate-600 mb-3">An .ics link to your calendar. Its events are put on your schedule each time you open the dashboard.</p>
+            <input
+              type="url"
+              value={settings.calendar_url || ''}
+              onChange={(e) => update({ calendar_url: e.target.value || null })}
+              placeholder="https://calendar.example.com/you.ics"
+              className={`${inputClass} w-full`}
+            />
+          </section>
+
+          <section>
+            <h2 className="text-sm font-medium text-slate-400 mb-1">Tasks that keep slipping</h2>
+            <p className="text-xs text-slate-600 mb-3">Unfinished tasks roll over to your next workday. Decide what happens once one has rolled over too often.</p>
+            <div className="flex flex-wrap items-center gap-3 text-sm text-slate-500">
+              <label className="flex items-center gap-2">
+                After
+                <select value={settings.escalate_after} onChange={(e) => update({ escalate_after: Number(e.target.value) })} className={inputClass}>
+                  {ESCALATION_THRESHOLDS.map(n => (
+                    <option key={n} value={n}>{n === 0 ? 'never' : `${n} rollovers`}</option>
+                  ))}
+                </select>
+              </label>
+              {settings.escalate_after > 0 && (
+                <select
+                  value={settings.escalation_action}
+                  onChange={(e) => update({ escalation_action: e.target.value as EscalationAction })}
+                  className={inputClass}
+                >
+                  {ESCALATION_ACTIONS.map(action => (
+                    <option key={action} value={action}>{ESCALATION_LABELS[action]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </section>
+
+          {errors.length > 0 && (
+            <div className="bg-[#e8705e]/[0.06] border border-[#e8705e]/20 rounded-xl px-4 py-3">
+              {errors.map(error => (
+                <p key={error} className="text-xs text-[#e8705e]">{error}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button onClick={handleSave} disabled={saving} className="btn-primary px-4 py-2 rounded-lg text-sm">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            {saved && <span className="text-xs text-[#7dab6e]">Saved</span>}
+          </div>
+        </div>
+
+        <div className="mt-6">
+          <AccessTokensPanel />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { PersonalAccessToken, TokenScope } from '@/types';
+import { authenticatedFetch } from '@/lib/api-client';
+
+const SCOPE_LABELS: Record<TokenScope, string> = {
+  'tasks:read': 'Read tasks',
+  'tasks:write': 'Write tasks',
+  'schedules:generate': 'Generate schedules',
+};
+
+const EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: null, label: 'never' },
+];
+
+const inputClass = 'text-sm px-2 py-1.5 rounded-lg bg-white/[0.03] border border-white/[0.06] text-slate-300 focus:outline-none focus:ring-1 focus:ring-white/15';
+
+const formatDate = (value: string) => format(parseISO(value), 'MMM d, yyyy');
+
+function describeStatus(token: PersonalAccessToken, now: Date): { label: string; active: boolean } {
+  if (token.revoked_at) return { label: `revoked ${formatDate(token.revoked_at)}`, active: false };
+  if (token.expires_at && parseISO(token.expires_at) <= now) return { label: `expired ${formatDate(token.expires_at)}`, active: false };
+  return { label: token.expires_at ? `expires ${formatDate(token.expires_at)}` : 'never expires', active: true };
+}
+
+export default function AccessTokensPanel() {
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<TokenScope[]>(['tasks:read']);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [creating, setCreating] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [secret, setSecret] = useState<{ name: string; value: string } | null>(null);
+
+  const loadTokens = async () => {
+    const response = await authenticatedFetch('/api/tokens');
+    if (!response.ok) return;
+    const data = await response.json();
+    setTokens(data.tokens);
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope]);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setErrors([]);
+    try {
+      const response = await authenticatedFetch('/api/tokens', {
+        method: 'POST',
+        body: JSON.stringify({ name, scopes, expiresInDays }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details || [data.error || 'Failed to create token']);
+        return;
+      }
+      setSecret({ name: data.token.name, value: data.secret });
+      setName('');
+      await loadTokens();
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    if (!confirm(`Revoke "${token.name}"? Anything using it will stop working.`)) return;
+    await authenticatedFetch(`/api/tokens?id=${token.id}`, { method: 'DELETE' });
+    await loadTokens();
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="glass-card p-6 space-y-5 animate-fade-in">
+      <div>
+        <h2 className="text-sm font-medium text-slate-400 mb-1">Access tokens</h2>
+        <p className="text-xs text-slate-600">
+          For scripts, CI jobs and editor plugins: send <code className="text-slate-400">Authorization: Bearer &lt;token&gt;</code> to the API.
+        </p>
+      </div>
+
+      {secret && (
+        <div className="bg-[#7dab6e]/[0.06] border border-[#7dab6e]/20 rounded-xl px-4 py-3 space-y-2">
+          <p className="text-xs text-[#7dab6e]">Copy &quot;{secret.name}&quot; now — it won&apos;t be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs text-slate-200 break-all">{secret.value}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(secret.value)}
+              className="text-xs text-slate-500 hover:text-slate-300 transition-colors px-2"
+            >
+              Copy
+            </button>
+            <button onClick={() => setSecret(null)} className="text-xs text-slate-600 hover:text-slate-300 transition-colors px-2">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-500">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name, e.g. CI import"
+          maxLength={100}
+          className={`${inputClass} w-48`}
+        />
+        {(Object.keys(SCOPE_LABELS) as TokenScope[]).map(scope => (
+          <label key={scope} className="flex items-center gap-1.5">
+            <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+            {SCOPE_LABELS[scope]}
+          </label>
+        ))}
+        <label className="flex items-center gap-2">
+          Expires
+          <select
+            value={expiresInDays ?? ''}
+            onChange={(e) => setExpiresInDays(e.target.value === '' ? null : Number(e.target.value))}
+            className={inputClass}
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={handleCreate} disabled={creating || !name.trim() || scopes.length === 0} className="btn-primary px-3 py-1.5 rounded-lg text-sm">
+          {creating ? 'Creating...' : 'Create token'}
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="bg-[#e8705e]/[0.06] border border-[#e8705e]/20 rounded-xl px-4 py-3">
+          {errors.map(error => (
+            <p key={error} className="text-xs text-[#e8705e]">{error}</p>
+          ))}
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <ul className="divide-y divide-white/[0.04]">
+          {tokens.map(token => {
+            const status = describeStatus(token, now);
+            return (
+              <li key={token.id} className={`flex items-center justify-between gap-3 py-2.5 text-sm ${status.active ? '' : 'opacity-50'}`}>
+                <div className="min-w-0">
+                  <div className="text-slate-200 truncate">
+                    {token.name} <code className="text-xs text-slate-600">{token.token_prefix}…</code>
+                  </div>
+                  <div className="text-xs text-slate-600">
+                    {token.scopes.map(scope => SCOPE_LABELS[scope]).join(', ')}
+                    {' · '}{status.label}
+                    {' · '}{token.last_used_at ? `last used ${formatDate(token.last_used_at)}` : 'never used'}
+                  </div>
+                </div>
+                {status.active && (
+                  <button onClick={() => handleRevoke(token)} className="text-xs text-slate-600 hover:text-[#e8705e] transition-colors px-2">
+                    Revoke
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
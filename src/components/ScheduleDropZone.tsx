@@ -15,6 +15,7 @@ export default function ScheduleDropZone({ children }: ScheduleDropZoneProps) {
   return (
     <div
       ref={setNodeRef}
+      data-testid="schedule-drop-zone"
       className={`space-y-2 rounded-xl transition-all duration-150 ${
         isOver ? 'ring-1 ring-white/20 ring-offset-2 ring-offset-[#050507]' : ''
       }`}
@@ -5,16 +5,20 @@ import { CSS } from '@dnd-kit/utilities';
 import { ScheduleItem } from '@/types';
 import { SCHEDULE_ITEM } from '@/lib/dnd-constants';
 import { formatDisplayTime } from '@/lib/format-time';
+import { isFixedItemType } from '@/lib/fixed-events';
 
 interface ScheduleItemCardProps {
   item: ScheduleItem;
   pc: { dot: string; text: string; label: string; tint: string };
-  onComplete: (itemId: string, taskId: string | null, completed: boolean, startTime?: string, endTime?: string, title?: string) => void;
+  onComplete: (itemId: string, completed: boolean) => void;
+  onRemove?: (itemId: string) => void;
   dateStr: string;
   isDragOverlay?: boolean;
 }
 
-export default function ScheduleItemCard({ item, pc, onComplete, dateStr, isDragOverlay }: ScheduleItemCardProps) {
+export default function ScheduleItemCard({ item, pc, onComplete, onRemove, dateStr, isDragOverlay }: ScheduleItemCardProps) {
+  const isFixed = isFixedItemType(item.item_type);
+
   const {
     attributes,
     listeners,
@@ -25,7 +29,8 @@ export default function ScheduleItemCard({ item, pc, onComplete, dateStr, isDrag
   } = useSortable({
     id: item.id,
     data: { type: SCHEDULE_ITEM, item, dateStr },
-    disabled: isDragOverlay,
+    // Meetings and events are pinned to their time
+    disabled: isDragOverlay || isFixed,
   });
 
   const style = isDragOverlay ? undefined : {
@@ -34,6 +39,36 @@ export default function ScheduleItemCard({ item, pc, onComplete, dateStr, isDrag
     touchAction: 'none' as const,
   };
 
+  if (isFixed) {
+    return (
+      <div
+        ref={isDragOverlay ? undefined : setNodeRef}
+        style={style}
+        className="rounded-xl px-4 py-3 border bg-[#6e9bd4]/[0.06] border-[#6e9bd4]/30"
+      >
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-sm font-medium text-[#8fb3e0] truncate">{item.title}</span>
+            <span className="text-[10px] uppercase tracking-wider text-[#6e9bd4]/70 flex-shrink-0">Fixed</span>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <span className="text-[11px] text-slate-600 font-mono">
+              {formatDisplayTime(item.start_time)} - {formatDisplayTime(item.end_time)}
+            </span>
+            {onRemove && !isDragOverlay && (
+              <button
+                onClick={() => onRemove(item.id)}
+                className="text-slate-600 hover:text-slate-400 transition-colors text-sm leading-none"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (item.item_type === 'break' || item.item_type === 'lunch') {
     return (
       <div
@@ -89,7 +124,7 @@ export default function ScheduleItemCard({ item, pc, onComplete, dateStr, isDrag
         <input
           type="checkbox"
           checked={item.completed}
-          onChange={() => onComplete(item.id, item.task_id || null, item.completed, item.start_time, item.end_time, item.title)}
+          onChange={() => onComplete(item.id, item.completed)}
           onPointerDown={(e) => e.stopPropagation()}
           className="custom-checkbox flex-shrink-0"
         />
@@ -1,8 +1,10 @@
 'use client';
 
 import { useDraggable } from '@dnd-kit/core';
-import { Task } from '@/types';
+import { Task, TaskDecision } from '@/types';
 import { TASK_LIST_ITEM } from '@/lib/dnd-constants';
+import { formatDisplayTime } from '@/lib/format-time';
+import { format, parseISO } from 'date-fns';
 
 interface TaskCardProps {
   task: Task;
@@ -16,14 +18,20 @@ interface TaskCardProps {
   onDelete: (taskId: string) => void;
   onChangePriority: (taskId: string, priority: 'high' | 'medium' | 'low') => void;
   onEstimatedDurationChange: (taskId: string, value: string) => void;
+  allTasks?: Task[];
+  isBlocked?: boolean;
+  onBlockedByChange?: (taskId: string, blockedBy: string[]) => void;
+  onDecision?: (taskId: string, decision: TaskDecision) => void;
   isDragOverlay?: boolean;
+  today?: string; // yyyy-MM-dd in the user's time zone
 }
 
 export default function TaskCard({
   task, pc, isEditing, editingTitle,
   onEditingTitleChange, onTitleEdit, onStartEditing, onCancelEditing,
   onDelete, onChangePriority, onEstimatedDurationChange,
-  isDragOverlay,
+  allTasks = [], isBlocked, onBlockedByChange, onDecision,
+  isDragOverlay, today,
 }: TaskCardProps) {
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
     id: `task-${task.id}`,
@@ -31,6 +39,19 @@ export default function TaskCard({
     disabled: isDragOverlay,
   });
 
+  const todayStr = today || format(new Date(), 'yyyy-MM-dd');
+  const dueTone = !task.due_date
+    ? ''
+    : task.due_date < todayStr
+      ? 'text-[#e8705e]'
+      : task.due_date === todayStr
+        ? 'text-[#d4a54a]'
+        : 'text-slate-500';
+
+  const blockedBy = task.blocked_by || [];
+  const blockers = allTasks.filter(t => blockedBy.includes(t.id));
+  const blockerOptions = allTasks.filter(t => t.id !== task.id && !blockedBy.includes(t.id));
+
   return (
     <div
       ref={isDragOverlay ? undefined : setNodeRef}
@@ -71,6 +92,11 @@ export default function TaskCard({
                 {task.description}
               </div>
             )}
+            {isBlocked && (
+              <div className="text-[11px] text-[#e8705e] mt-0.5">
+                Blocked by incomplete work
+              </div>
+            )}
           </div>
           {!isDragOverlay && (
             <button
@@ -107,6 +133,66 @@ export default function TaskCard({
               <option key={m} value={m}>{m}m</option>
             ))}
           </select>
+          {task.due_date && (
+            <span className={`text-[11px] ${dueTone}`} title={`Due ${task.due_date}${task.due_time ? ` ${task.due_time}` : ''}`}>
+              {task.due_date < todayStr ? 'Overdue' : 'Due'}{' '}
+              {task.due_date === todayStr ? 'today' : format(parseISO(task.due_date), 'EEE MMM d')}
+              {task.due_time && ` ${formatDisplayTime(task.due_time)}`}
+            </span>
+          )}
+          {!!task.rollover_count && (
+            <span
+              className={`text-[11px] ${task.rollover_count >= 3 ? 'text-[#e8705e]' : 'text-slate-500'}`}
+              title={task.first_scheduled_date ? `Rolled over ${task.rollover_count}x since ${format(parseISO(task.first_scheduled_date), 'EEE MMM d')}` : undefined}
+            >
+              Slipped {task.rollover_count}x
+            </span>
+          )}
+          {task.scheduled_for && (
+            <span className="text-[11px] text-slate-500" title="Generated from a recurring task">
+              ↻ {task.scheduled_for === todayStr ? 'today' : format(parseISO(task.scheduled_for), 'EEE MMM d')}
+            </span>
+          )}
+          {onBlockedByChange && blockers.map(blocker => (
+            <span
+              key={blocker.id}
+              className="inline-flex items-center gap-1 text-[11px] px-1.5 py-0.5 rounded bg-white/[0.03] border border-white/[0.06] text-slate-500 max-w-[160px]"
+            >
+              <span className="truncate">after {blocker.title}</span>
+              <button
+                onClick={() => onBlockedByChange(task.id, blockedBy.filter(id => id !== blocker.id))}
+                className="text-slate-600 hover:text-slate-300 transition-colors"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {onBlockedByChange && blockerOptions.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && onBlockedByChange(task.id, [...blockedBy, e.target.value])}
+              className="text-[11px] px-1.5 py-0.5 rounded bg-white/[0.03] border border-white/[0.06] text-slate-500 cursor-pointer focus:outline-none transition-all max-w-[120px]"
+            >
+              <option value="">Blocked by…</option>
+              {blockerOptions.map(t => (
+                <option key={t.id} value={t.id}>{t.title}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+      {!isDragOverlay && task.needs_decision && onDecision && (
+        <div className="flex gap-1 items-center mt-2 text-[11px]">
+          <span className="text-[#d4a54a] mr-1">Keeps slipping:</span>
+          {(['do', 'delegate', 'defer', 'drop'] as const).map(decision => (
+            <button
+              key={decision}
+              onClick={() => onDecision(task.id, decision)}
+              className="px-1.5 py-0.5 rounded bg-white/[0.03] border border-white/[0.06] text-slate-400 hover:text-slate-200 transition-colors capitalize"
+            >
+              {decision}
+            </button>
+          ))}
         </div>
       )}
     </div>
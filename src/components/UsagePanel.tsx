@@ -0,0 +1,73 @@
+'use client';
+
+import { UsageSummary } from '@/types';
+import { format, parseISO } from 'date-fns';
+
+interface UsagePanelProps {
+  usage: UsageSummary;
+  today: string; // yyyy-MM-dd in the user's time zone
+}
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}k`
+      : String(tokens);
+
+export default function UsagePanel({ usage, today }: UsagePanelProps) {
+  const { month } = usage;
+  const share = month.budget ? Math.min(1, month.tokens / month.budget) : 0;
+  const todayUsage = usage.days.find(day => day.date === today);
+  const busiest = Math.max(1, ...usage.days.map(day => day.input_tokens + day.output_tokens));
+
+  return (
+    <div className="glass-card p-5 animate-fade-in">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-medium text-slate-400">Model Usage</h2>
+        <span className="text-xs text-slate-600">since {format(parseISO(month.start), 'MMM d')}</span>
+      </div>
+
+      <div className="flex items-baseline justify-between text-sm">
+        <span className="text-slate-200">{formatTokens(month.tokens)} tokens</span>
+        <span className="text-xs text-slate-500">
+          {month.budget ? `of ${formatTokens(month.budget)}` : 'no monthly budget'}
+        </span>
+      </div>
+      {month.budget && (
+        <div className="mt-2 h-1.5 rounded-full bg-white/[0.05] overflow-hidden">
+          <div
+            className={`h-full rounded-full ${share >= 1 ? 'bg-[#e8705e]' : share >= 0.8 ? 'bg-[#d4a54a]' : 'bg-white/40'}`}
+            style={{ width: `${share * 100}%` }}
+          />
+        </div>
+      )}
+      {month.budget && share >= 1 && (
+        <p className="text-[11px] text-[#e8705e] mt-1.5">
+          Budget used: tasks are parsed line by line and schedules built locally until next month.
+        </p>
+      )}
+
+      <div className="flex items-end gap-1 h-12 mt-4">
+        {usage.days.map(day => {
+          const tokens = day.input_tokens + day.output_tokens;
+          return (
+            <div
+              key={day.date}
+              className="flex-1 flex flex-col justify-end h-full"
+              title={`${format(parseISO(day.date), 'EEE MMM d')}: ${day.requests} requests, ${formatTokens(tokens)} tokens`}
+            >
+              <div
+                className={`rounded-sm ${day.date === today ? 'bg-white/60' : 'bg-white/20'}`}
+                style={{ height: `${Math.max(tokens > 0 ? 6 : 2, (tokens / busiest) * 100)}%` }}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between text-[11px] text-slate-600 mt-2">
+        <span>Today: {todayUsage?.requests || 0} requests</span>
+        <span>{formatTokens((todayUsage?.input_tokens || 0) + (todayUsage?.output_tokens || 0))} tokens</span>
+      </div>
+    </div>
+  );
+}
@@ -2,26 +2,28 @@
 
 import { useDroppable } from '@dnd-kit/core';
 import { WEEK_DAY_PREFIX } from '@/lib/dnd-constants';
-import { format, isToday } from 'date-fns';
+import { format } from 'date-fns';
 
 interface WeekDayButtonProps {
   date: Date;
   dateStr: string;
   isSelected: boolean;
+  isToday: boolean;
+  progress?: 'pending' | 'done' | 'failed'; // while the week is being planned
   onClick: () => void;
 }
 
-export default function WeekDayButton({ date, dateStr, isSelected, onClick }: WeekDayButtonProps) {
+export default function WeekDayButton({ date, dateStr, isSelected, isToday, progress, onClick }: WeekDayButtonProps) {
   const { setNodeRef, isOver } = useDroppable({
     id: `${WEEK_DAY_PREFIX}${dateStr}`,
   });
 
-  const isTodayDate = isToday(date);
-
   return (
     <button
       ref={setNodeRef}
       onClick={onClick}
+      data-date={dateStr}
+      aria-pressed={isSelected}
       className={`relative px-5 py-3 rounded-lg transition-all duration-150 min-w-[100px] ${
         isSelected
           ? 'bg-white text-black'
@@ -30,7 +32,12 @@ export default function WeekDayButton({ date, dateStr, isSelected, onClick }: We
     >
       <div className="text-xs font-medium uppercase tracking-wider">{format(date, 'EEE')}</div>
       <div className="text-lg font-bold mt-0.5">{format(date, 'MMM d')}</div>
-      {isTodayDate && (
+      {progress && (
+        <div className={`absolute bottom-1 left-1/2 -translate-x-1/2 w-6 h-0.5 rounded-full ${
+          progress === 'pending' ? 'bg-current opacity-40 animate-pulse' : progress === 'done' ? 'bg-[#7dab6e]' : 'bg-[#e8705e]'
+        }`} />
+      )}
+      {isToday && (
         <div className={`absolute -top-1 -right-1 w-2 h-2 rounded-full ${isSelected ? 'bg-black ring-2 ring-white' : 'bg-white'}`} />
       )}
     </button>
@@ -0,0 +1,124 @@
+// src/lib/access-tokens.ts
+//
+// Personal access tokens: long-lived bearer tokens for scripts, limited to
+// some scopes. A valid token is exchanged, per request, for a short-lived
+// Supabase JWT for its owner, so the API runs as that user and RLS applies
+// exactly as it does for a browser session.
+
+import { createHmac } from 'crypto';
+import { PersonalAccessToken, TokenScope } from '@/types';
+import { createServiceClient } from './supabase-server';
+import { generateToken, hashToken } from './tokens';
+
+export const TOKEN_SCOPES: TokenScope[] = ['tasks:read', 'tasks:write', 'schedules:generate'];
+
+// Tells a personal access token apart from a session JWT in the Authorization header
+export const ACCESS_TOKEN_PREFIX = 'tfp_';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_EXPIRY_DAYS = 366;
+const SESSION_TTL_SECONDS = 5 * 60;
+
+export interface AccessTokenInput {
+  name: string;
+  scopes: TokenScope[];
+  expires_at: string | null;
+}
+
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+/** A new secret, with the hash and prefix that get stored for it */
+export function createAccessTokenSecret(): { token: string; token_hash: string; token_prefix: string } {
+  const token = `${ACCESS_TOKEN_PREFIX}${generateToken()}`;
+  return { token, token_hash: hashToken(token), token_prefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 4) };
+}
+
+/** Check a create request: { name, scopes, expiresInDays } (null or omitted = never expires) */
+export function validateAccessTokenInput(
+  input: { name?: unknown; scopes?: unknown; expiresInDays?: unknown },
+  now: Date = new Date()
+): { token: AccessTokenInput | null; errors: string[] } {
+  const errors: string[] = [];
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) errors.push('A name is required');
+  else if (name.length > MAX_NAME_LENGTH) errors.push(`The name can be at most ${MAX_NAME_LENGTH} characters`);
+
+  const scopes = Array.isArray(input.scopes) ? [...new Set(input.scopes)] : [];
+  if (scopes.length === 0) errors.push('Pick at least one scope');
+  const unknown = scopes.filter(scope => !TOKEN_SCOPES.includes(scope as TokenScope));
+  if (unknown.length > 0) errors.push(`Unknown scope(s): ${unknown.join(', ')}`);
+
+  let expiresAt: string | null = null;
+  if (input.expiresInDays !== undefined && input.expiresInDays !== null) {
+    const days = input.expiresInDays;
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      errors.push(`expiresInDays must be a whole number from 1 to ${MAX_EXPIRY_DAYS}`);
+    } else {
+      expiresAt = new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+    }
+  }
+
+  if (errors.length > 0) return { token: null, errors };
+  return { token: { name, scopes: scopes as TokenScope[], expires_at: expiresAt }, errors };
+}
+
+type TokenLookup =
+  | { ok: true; token: PersonalAccessToken }
+  | { ok: false; error: string };
+
+/**
+ * The stored token for `secret` if it can be used right now, and its
+ * last_used_at bumped. Needs the service-role key: the caller has no session.
+ */
+export async function verifyAccessToken(secret: string, now: Date = new Date()): Promise<TokenLookup> {
+  const supabase = createServiceClient();
+
+  const { data: token, error } = await supabase
+    .from('personal_access_tokens')
+    .select('*')
+    .eq('token_hash', hashToken(secret))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!token) return { ok: false, error: 'Invalid token' };
+  if (token.revoked_at) return { ok: false, error: 'Token has been revoked' };
+  if (token.expires_at && new Date(token.expires_at) <= now) return { ok: false, error: 'Token has expired' };
+
+  const { error: updateError } = await supabase
+    .from('personal_access_tokens')
+    .update({ last_used_at: now.toISOString() })
+    .eq('id', token.id);
+
+  // Not worth failing the request over
+  if (updateError) console.error('Failed to record token use:', updateError);
+
+  return { ok: true, token };
+}
+
+const base64url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+/**
+ * A Supabase access token for `userId`, signed with the project's JWT secret
+ * (SUPABASE_JWT_SECRET), valid for a few minutes — long enough for one API
+ * request, including a streamed week plan.
+ */
+export function signUserJwt(userId: string, now: Date = new Date()): string {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) throw new Error('SUPABASE_JWT_SECRET is not set; personal access tokens need it');
+
+  const issuedAt = Math.floor(now.getTime() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({
+    sub: userId,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: issuedAt,
+    exp: issuedAt + SESSION_TTL_SECONDS,
+  }));
+  const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+
+  return `${header}.${payload}.${signature}`;
+}
@@ -1,33 +1,68 @@
 // src/lib/api-auth.ts
+//
+// The one way API routes find out who is calling. A bearer token wins:
+// either a Supabase access token (as authenticatedFetch sends) or a personal
+// access token (access-tokens.ts). Otherwise the session cookie set by the
+// browser client is used. Either way the returned client acts as that user,
+// so RLS applies.
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
 import { NextRequest } from 'next/server';
+import { TokenScope } from '@/types';
+import { createClient as createCookieClient } from './supabase-server';
+import { isAccessToken, verifyAccessToken, signUserJwt } from './access-tokens';
 
-export async function getAuthenticatedUser(request: NextRequest) {
+type AuthResult =
+  | { user: User; error: null; status: 200; supabase: SupabaseClient }
+  | { user: null; error: string; status: 401 | 403; supabase: null };
+
+function getBearerToken(request: NextRequest): string | null {
   const authHeader = request.headers.get('authorization');
-  const token = authHeader?.replace('Bearer ', '');
-  
-  if (!token) {
-    return { user: null, error: 'No auth token provided', supabase: null };
-  }
+  return authHeader?.startsWith('Bearer ') ? authHeader.slice('Bearer '.length).trim() || null : null;
+}
 
-  const supabase = createClient(
+function createUserClient(jwt: string): SupabaseClient {
+  return createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     {
       global: {
         headers: {
-          Authorization: `Bearer ${token}`
+          Authorization: `Bearer ${jwt}`
         }
-      }
+      },
+      auth: { persistSession: false, autoRefreshToken: false }
     }
   );
+}
+
+const failure = (error: string, status: 401 | 403 = 401): AuthResult => ({ user: null, error, status, supabase: null });
+
+/**
+ * `scope` is what a personal access token must carry to use the route;
+ * sessions can do everything. Routes that pass no scope (managing the tokens
+ * themselves) don't accept personal access tokens at all.
+ */
+export async function getAuthenticatedUser(request: NextRequest, scope?: TokenScope): Promise<AuthResult> {
+  let token = getBearerToken(request);
+
+  if (token && isAccessToken(token)) {
+    if (!scope) return failure('This endpoint needs a signed-in session, not an access token', 403);
+
+    const lookup = await verifyAccessToken(token);
+    if (!lookup.ok) return failure(lookup.error);
+    if (!lookup.token.scopes.includes(scope)) return failure(`Token is missing the ${scope} scope`, 403);
+
+    token = signUserJwt(lookup.token.user_id);
+  }
+
+  const supabase: SupabaseClient = token ? createUserClient(token) : await createCookieClient();
+
+  const { data: { user }, error } = await supabase.auth.getUser(token || undefined);
 
-  const { data: { user }, error } = await supabase.auth.getUser();
-  
   if (error || !user) {
-    return { user: null, error: error?.message || 'Invalid token', supabase: null };
+    return failure(error?.message || (token ? 'Invalid token' : 'No auth token or session provided'));
   }
 
-  return { user, error: null, supabase };
+  return { user, error: null, status: 200, supabase };
 }
@@ -27,3 +27,45 @@ export async function authenticatedFetch(url: string, options: RequestInit = {})
     headers,
   });
 }
+
+/**
+ * POST to an endpoint that answers with server-sent events and hand each
+ * event to `onEvent` as it arrives, as `{ type, ...data }`. Resolves when the stream ends; aborting
+ * `signal` stops reading (and lets the server stop early).
+ */
+export async function streamEvents<E extends { type: string }>(
+  url: string,
+  body: Record<string, unknown>,
+  onEvent: (event: E) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await authenticatedFetch(url, {
+    method: 'POST',
+    headers: { 'Accept': 'text/event-stream' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `API returned ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line
+    let end;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const lines = buffer.slice(0, end).split('\n');
+      buffer = buffer.slice(end + 2);
+      const type = lines.find(line => line.startsWith('event: '))?.slice(7) || 'message';
+      const data = lines.filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n');
+      if (data) onEvent({ type, ...JSON.parse(data) });
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { validate, parseQuery, ObjectSchema } from './api-schema';
+
+describe('validate', () => {
+  it('only accepts dates that exist', () => {
+    const date = { type: 'string', format: 'date' } as const;
+    expect(validate(date, '2026-10-19')).toEqual([]);
+    expect(validate(date, '2028-02-29')).toEqual([]);
+    expect(validate(date, '2026-02-29', 'body.date')).toEqual(['body.date must be a yyyy-MM-dd date']);
+    expect(validate(date, '2026-02-31')).toHaveLength(1);
+    expect(validate(date, '2026-04-31')).toHaveLength(1);
+    expect(validate(date, '2026-13-01')).toHaveLength(1);
+  });
+
+  it('checks the date part of a timestamp', () => {
+    const timestamp = { type: 'string', format: 'date-time' } as const;
+    expect(validate(timestamp, '2026-10-19T09:00:00Z')).toEqual([]);
+    expect(validate(timestamp, '2026-02-30T09:00:00Z')).toHaveLength(1);
+  });
+
+  it('names every problem in an object', () => {
+    const schema: ObjectSchema = {
+      type: 'object',
+      properties: { title: { type: 'string', minLength: 1 }, tags: { type: 'array', items: { type: 'string' } } },
+      required: ['title'],
+      additionalProperties: false,
+    };
+    expect(validate(schema, { tags: ['a', 2], extra: true })).toEqual([
+      'body.title is required',
+      'body.tags[1] must be a string',
+      'body.extra is not allowed',
+    ]);
+    expect(validate(schema, { title: null })).toEqual(["body.title can't be null"]);
+  });
+});
+
+describe('parseQuery', () => {
+  it('converts values and splits arrays', () => {
+    const schema: ObjectSchema = {
+      type: 'object',
+      properties: { limit: { type: 'integer', minimum: 1 }, status: { type: 'array', items: { type: 'string' } } },
+    };
+    const { value, errors } = parseQuery(schema, new URLSearchParams('limit=5&status=a,b&status=c'));
+    expect(errors).toEqual([]);
+    expect(value).toEqual({ limit: 5, status: ['a', 'b', 'c'] });
+    expect(parseQuery(schema, new URLSearchParams('limit=0&x=1')).errors).toEqual(['query.x is not allowed', 'query.limit must be at least 1']);
+  });
+});
@@ -0,0 +1,172 @@
+// src/lib/api-schema.ts
+//
+// Schemas for the public API (/api/v1), written as a subset of JSON Schema
+// so one object can check a request, shape a response and be printed into the
+// OpenAPI 3.1 document. The one addition is `allowNull`: OpenAPI 3.1 has no
+// `nullable` keyword, so openapi.ts prints it as a `[type, 'null']` union.
+
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | { type: 'boolean'; allowNull?: boolean; description?: string }
+  | { type: 'array'; items: Schema; maxItems?: number; allowNull?: boolean; description?: string }
+  | ObjectSchema;
+
+export interface StringSchema {
+  type: 'string';
+  enum?: readonly string[];
+  format?: 'date' | 'time' | 'date-time' | 'uuid';
+  minLength?: number;
+  maxLength?: number;
+  allowNull?: boolean;
+  description?: string;
+}
+
+export interface NumberSchema {
+  type: 'integer' | 'number';
+  minimum?: number;
+  maximum?: number;
+  allowNull?: boolean;
+  description?: string;
+}
+
+export interface ObjectSchema {
+  type: 'object';
+  properties: Record<string, Schema>;
+  required?: readonly string[];
+  additionalProperties?: boolean; // false = unknown fields are rejected
+  allowNull?: boolean;
+  description?: string;
+}
+
+const FORMATS: Record<NonNullable<StringSchema['format']>, RegExp> = {
+  date: /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/,
+  time: /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+const FORMAT_HINTS: Record<NonNullable<StringSchema['format']>, string> = {
+  date: 'a yyyy-MM-dd date',
+  time: 'an HH:MM time',
+  'date-time': 'an ISO 8601 timestamp',
+  uuid: 'a UUID',
+};
+
+function matchesFormat(format: NonNullable<StringSchema['format']>, value: string): boolean {
+  if (!FORMATS[format].test(value)) return false;
+  if (format !== 'date' && format !== 'date-time') return true;
+  // The pattern lets 2026-02-31 through; a real date survives the round trip
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+}
+
+/** Problems with `value`, one message per problem, each naming the field ("body.tags[1]") */
+export function validate(schema: Schema, value: unknown, path: string = 'body'): string[] {
+  if (value === undefined) return [];
+  if (value === null) return schema.allowNull ? [] : [`${path} can't be null`];
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.join(', ')}`];
+      if (schema.format && !matchesFormat(schema.format, value)) return [`${path} must be ${FORMAT_HINTS[schema.format]}`];
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [schema.minLength === 1 ? `${path} can't be empty` : `${path} must be at least ${schema.minLength} characters`];
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) return [`${path} can be at most ${schema.maxLength} characters`];
+      return [];
+    }
+
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} must be a whole number`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be at least ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} must be at most ${schema.maximum}`];
+      return [];
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be true or false`];
+
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) return [`${path} can have at most ${schema.maxItems} entries`];
+      return value.flatMap((entry, i) => validate(schema.items, entry, `${path}[${i}]`));
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+      }
+      for (const [key, entry] of Object.entries(record)) {
+        const property = schema.properties[key];
+        if (property) errors.push(...validate(property, entry, `${path}.${key}`));
+        else if (schema.additionalProperties === false) errors.push(`${path}.${key} is not allowed`);
+      }
+      return errors;
+    }
+  }
+}
+
+/**
+ * `value` cut down to what `schema` declares, recursively. Responses go
+ * through this so a new column never leaks out of the API by accident.
+ */
+export function shape<T = unknown>(schema: Schema, value: unknown): T {
+  if (value === null || value === undefined) return (value ?? null) as T;
+
+  if (schema.type === 'array' && Array.isArray(value)) {
+    return value.map(entry => shape(schema.items, entry)) as T;
+  }
+  if (schema.type === 'object' && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const shaped: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(schema.properties)) {
+      if (record[key] !== undefined) shaped[key] = shape(property, record[key]);
+    }
+    return shaped as T;
+  }
+  // Postgres `time` comes back as HH:MM:SS; the API speaks HH:MM
+  if (schema.type === 'string' && schema.format === 'time' && typeof value === 'string') {
+    return value.slice(0, 5) as T;
+  }
+  return value as T;
+}
+
+/**
+ * Query parameters as `schema` (an object of scalars and arrays) expects them:
+ * numbers and booleans converted, arrays from repeated or comma-separated
+ * values. Unknown parameters are rejected like unknown body fields.
+ */
+export function parseQuery(schema: ObjectSchema, params: URLSearchParams): { value: Record<string, unknown>; errors: string[] } {
+  const value: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const key of new Set(params.keys())) {
+    const property = schema.properties[key];
+    if (!property) {
+      errors.push(`query.${key} is not allowed`);
+      continue;
+    }
+
+    const raw = params.getAll(key);
+    const convert = (text: string, target: Schema): unknown => {
+      if (target.type === 'integer' || target.type === 'number') return text.trim() === '' ? NaN : Number(text);
+      if (target.type === 'boolean') return text === 'true' ? true : text === 'false' ? false : text;
+      return text;
+    };
+
+    value[key] = property.type === 'array'
+      ? raw.flatMap(entry => entry.split(',')).filter(Boolean).map(entry => convert(entry, property.items))
+      : convert(raw[raw.length - 1], property);
+  }
+
+  errors.push(...validate(schema, value, 'query'));
+  return { value, errors };
+}
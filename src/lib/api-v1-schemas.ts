@@ -0,0 +1,364 @@
+// src/lib/api-v1-schemas.ts
+//
+// Request and response schemas for /api/v1. The routes validate and shape
+// with these, and openapi.ts prints the same objects into the spec.
+
+import { Schema, ObjectSchema } from './api-schema';
+
+const id = { type: 'string', format: 'uuid' } as const;
+const date = { type: 'string', format: 'date' } as const;
+const time = { type: 'string', format: 'time' } as const;
+const timestamp = { type: 'string', format: 'date-time' } as const;
+const nullable = <S extends Schema>(schema: S): S => ({ ...schema, allowNull: true });
+
+export const TASK_PRIORITIES = ['high', 'medium', 'low'] as const;
+export const TASK_STATUSES = ['pending', 'scheduled', 'completed', 'rolled_over'] as const;
+export const ITEM_TYPES = ['task', 'break', 'lunch', 'meeting', 'event'] as const;
+
+export const MAX_PAGE_SIZE = 200;
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_SCHEDULE_RANGE_DAYS = 92;
+
+const pageParams = {
+  limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, description: `Page size, ${DEFAULT_PAGE_SIZE} by default` },
+  offset: { type: 'integer', minimum: 0, description: 'Results to skip, 0 by default' },
+} as const;
+
+// --- Errors and envelopes ---
+
+export const ErrorSchema: ObjectSchema = {
+  type: 'object',
+  description: 'Every failed request answers with this',
+  properties: {
+    error: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', enum: ['unauthorized', 'forbidden', 'invalid_request', 'not_found', 'conflict', 'internal_error'] },
+        message: { type: 'string' },
+        details: { type: 'array', items: { type: 'string' }, description: 'One entry per invalid field' },
+      },
+      required: ['code', 'message'],
+    },
+  },
+  required: ['error'],
+};
+
+export const PaginationSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    limit: { type: 'integer' },
+    offset: { type: 'integer' },
+    total: { type: 'integer', description: 'Matching results across all pages' },
+  },
+  required: ['limit', 'offset', 'total'],
+};
+
+/** `{ data: <schema> }` */
+export function single(schema: Schema): ObjectSchema {
+  return { type: 'object', properties: { data: schema }, required: ['data'] };
+}
+
+/** `{ data: <schema>[], pagination }` */
+export function listOf(schema: Schema): ObjectSchema {
+  return {
+    type: 'object',
+    properties: { data: { type: 'array', items: schema }, pagination: PaginationSchema },
+    required: ['data', 'pagination'],
+  };
+}
+
+// --- Tasks ---
+
+export const TaskSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    id,
+    title: { type: 'string' },
+    description: nullable({ type: 'string' }),
+    estimated_duration: nullable({ type: 'integer', description: 'Minutes' }),
+    actual_duration: nullable({ type: 'integer', description: 'Minutes, once completed' }),
+    priority: { type: 'string', enum: TASK_PRIORITIES },
+    status: { type: 'string', enum: TASK_STATUSES },
+    tags: { type: 'array', items: { type: 'string' } },
+    due_date: nullable(date),
+    due_time: nullable({ ...time, description: 'Only meaningful with due_date' }),
+    blocked_by: { type: 'array', items: id, description: 'Tasks that must be completed first' },
+    template_id: nullable({ ...id, description: 'The recurring template this task came from' }),
+    scheduled_for: nullable(date),
+    rollover_count: { type: 'integer', description: 'Times the task was left unfinished at the end of a day' },
+    first_scheduled_date: nullable(date),
+    needs_decision: { type: 'boolean', description: 'Slipped too often: waiting for do / delegate / defer / drop' },
+    created_at: timestamp,
+    completed_at: nullable(timestamp),
+  },
+  required: ['id', 'title', 'priority', 'status', 'created_at'],
+};
+
+const taskFields = {
+  title: { type: 'string', minLength: 1, maxLength: 500 },
+  description: nullable({ type: 'string', maxLength: 5000 }),
+  estimated_duration: nullable({ type: 'integer', minimum: 1, maximum: 24 * 60, description: 'Minutes' }),
+  priority: { type: 'string', enum: TASK_PRIORITIES },
+  tags: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 50 }, maxItems: 20 },
+  due_date: nullable(date),
+  due_time: nullable(time),
+  blocked_by: { type: 'array', items: id, maxItems: 50 },
+} as const;
+
+export const TaskCreateSchema: ObjectSchema = {
+  type: 'object',
+  description: 'A new task; it starts out pending',
+  properties: taskFields,
+  required: ['title'],
+  additionalProperties: false,
+};
+
+export const TaskUpdateSchema: ObjectSchema = {
+  type: 'object',
+  description: 'Only the fields given change. Completing a task with actual_duration teaches the duration estimates.',
+  properties: {
+    ...taskFields,
+    status: { type: 'string', enum: TASK_STATUSES },
+    actual_duration: nullable({ type: 'integer', minimum: 0, maximum: 24 * 60, description: 'Minutes' }),
+  },
+  additionalProperties: false,
+};
+
+export const TaskListQuery: ObjectSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'array', items: { type: 'string', enum: TASK_STATUSES }, description: 'Any of these; repeat or comma-separate' },
+    priority: { type: 'array', items: { type: 'string', enum: TASK_PRIORITIES } },
+    due_from: { ...date, description: 'Due on or after' },
+    due_to: { ...date, description: 'Due on or before' },
+    search: { type: 'string', maxLength: 200, description: 'Part of the title, any case' },
+    ...pageParams,
+  },
+  additionalProperties: false,
+};
+
+// --- Schedules and their items ---
+
+export const ScheduleItemSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    id,
+    schedule_id: id,
+    task_id: nullable(id),
+    start_time: time,
+    end_time: time,
+    item_type: { type: 'string', enum: ITEM_TYPES, description: 'Meetings and events keep their times; the rest flows around them' },
+    title: { type: 'string' },
+    completed: { type: 'boolean' },
+    external_uid: nullable({ type: 'string', description: 'Calendar event this item was imported from' }),
+    external_calendar: nullable({ type: 'string', description: 'Calendar the event was imported from' }),
+  },
+  required: ['id', 'schedule_id', 'start_time', 'end_time', 'item_type', 'title', 'completed'],
+};
+
+export const ScheduleSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    id,
+    schedule_date: date,
+    schedule_data: {
+      type: 'object',
+      properties: {
+        total_hours: { type: 'number' },
+        work_blocks: { type: 'integer' },
+        break_blocks: { type: 'integer' },
+        suggestions: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    created_at: timestamp,
+    items: { type: 'array', items: ScheduleItemSchema, description: 'In start-time order' },
+  },
+  required: ['id', 'schedule_date', 'schedule_data', 'created_at', 'items'],
+};
+
+export const ScheduleItemCreateSchema: ObjectSchema = {
+  type: 'object',
+  description: 'Meetings and events take start_time and end_time; anything else takes a duration and goes in at position',
+  properties: {
+    item_type: { type: 'string', enum: ITEM_TYPES },
+    task_id: { ...id, description: 'Required for task items; the task must not be on a schedule yet' },
+    title: { type: 'string', minLength: 1, maxLength: 500, description: "The task's title by default" },
+    start_time: time,
+    end_time: time,
+    duration: { type: 'integer', minimum: 1, maximum: 24 * 60, description: "Minutes; the task's estimate or 30 by default" },
+    position: { type: 'integer', minimum: 0, description: "Index among the day's movable items; the end by default" },
+  },
+  required: ['item_type'],
+  additionalProperties: false,
+};
+
+export const ScheduleItemUpdateSchema: ObjectSchema = {
+  type: 'object',
+  description: 'Meetings and events take new times, lunch a new start_time, anything else a new duration. Completing a task item completes its task.',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: 500 },
+    start_time: time,
+    end_time: time,
+    duration: { type: 'integer', minimum: 1, maximum: 24 * 60, description: 'Minutes' },
+    completed: { type: 'boolean' },
+  },
+  additionalProperties: false,
+};
+
+export const ScheduleItemOrderSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    item_ids: { type: 'array', items: id, maxItems: 200, description: "Every movable item of the day, in the new order; meetings and events may be left out" },
+  },
+  required: ['item_ids'],
+  additionalProperties: false,
+};
+
+export const ScheduleItemMoveSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    date: { ...date, description: 'The day to move to; may be the same day' },
+    position: { type: 'integer', minimum: 0, description: "Index among that day's movable items; the end by default" },
+  },
+  required: ['date'],
+  additionalProperties: false,
+};
+
+export const ScheduleItemSplitSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    first_duration: { type: 'integer', minimum: 1, description: 'Minutes the item keeps; the rest becomes a new item right after it' },
+  },
+  required: ['first_duration'],
+  additionalProperties: false,
+};
+
+export const ScheduleItemChangeSchema: ObjectSchema = {
+  type: 'object',
+  description: 'The item as saved (the new part after a split; absent after a reorder or delete) and every day the change touched, re-timed',
+  properties: {
+    item: ScheduleItemSchema,
+    days: { type: 'array', items: ScheduleSchema, description: 'In date order' },
+  },
+  required: ['days'],
+};
+
+export const ScheduleListQuery: ObjectSchema = {
+  type: 'object',
+  properties: {
+    from: date,
+    to: { ...date, description: `Inclusive; the range can cover at most ${MAX_SCHEDULE_RANGE_DAYS} days` },
+    ...pageParams,
+  },
+  required: ['from', 'to'],
+  additionalProperties: false,
+};
+
+export const DateParams: ObjectSchema = {
+  type: 'object',
+  properties: { date },
+  required: ['date'],
+};
+
+export const ItemParams: ObjectSchema = {
+  type: 'object',
+  properties: { date, id },
+  required: ['date', 'id'],
+};
+
+export const IdParams: ObjectSchema = {
+  type: 'object',
+  properties: { id },
+  required: ['id'],
+};
+
+// --- Patterns ---
+
+export const PatternSchema: ObjectSchema = {
+  type: 'object',
+  description: 'What the scheduler has learned about tasks with these keywords',
+  properties: {
+    id,
+    task_keywords: { type: 'array', items: { type: 'string' } },
+    average_duration: { type: 'integer', description: 'Minutes actually spent' },
+    completion_rate: { type: 'number', minimum: 0, maximum: 1 },
+    times_scheduled: { type: 'integer' },
+    times_completed: { type: 'integer' },
+    updated_at: timestamp,
+  },
+  required: ['id', 'task_keywords', 'average_duration', 'completion_rate', 'times_scheduled', 'times_completed'],
+};
+
+export const PageQuery: ObjectSchema = {
+  type: 'object',
+  properties: pageParams,
+  additionalProperties: false,
+};
+
+// --- Rollovers ---
+
+export const RolloverSchema: ObjectSchema = {
+  type: 'object',
+  description: "One closed-out day: its unfinished tasks and where they went",
+  properties: {
+    id,
+    from_date: { ...date, description: 'The day that ended' },
+    to_date: { ...date, description: 'The workday the tasks were added to' },
+    task_ids: { type: 'array', items: id },
+    task_titles: { type: 'array', items: { type: 'string' } },
+    item_ids: { type: 'array', items: id, description: 'Schedule items created on to_date' },
+    escalations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          task_id: id,
+          action: { type: 'string', enum: ['bump_priority', 'next_morning', 'decide'] },
+          previous_priority: { type: 'string', enum: TASK_PRIORITIES },
+        },
+        required: ['task_id', 'action', 'previous_priority'],
+      },
+    },
+    moved_items: {
+      type: 'array',
+      description: 'Items on to_date the rollover pushed later, at their earlier times',
+      items: {
+        type: 'object',
+        properties: { id, start_time: time, end_time: time },
+        required: ['id', 'start_time', 'end_time'],
+      },
+    },
+    created_at: timestamp,
+    dismissed_at: nullable(timestamp),
+    undone_at: nullable(timestamp),
+  },
+  required: ['id', 'from_date', 'to_date', 'task_ids', 'task_titles', 'item_ids', 'escalations', 'moved_items', 'created_at'],
+};
+
+export const RolloverListQuery: ObjectSchema = {
+  type: 'object',
+  properties: {
+    from: { ...date, description: 'Closed days on or after' },
+    to: { ...date, description: 'Closed days on or before' },
+    active: { type: 'boolean', description: 'Only rollovers that are neither undone nor dismissed' },
+    ...pageParams,
+  },
+  additionalProperties: false,
+};
+
+export const RolloverRunSchema: ObjectSchema = {
+  type: 'object',
+  properties: {
+    rolled_over: { type: 'integer', description: 'Tasks moved by this run' },
+    rollovers: { type: 'array', items: RolloverSchema, description: 'Days closed by this run' },
+  },
+  required: ['rolled_over', 'rollovers'],
+};
+
+export const RolloverUpdateSchema: ObjectSchema = {
+  type: 'object',
+  description: 'Hide the rollover notice',
+  properties: { dismissed: { type: 'boolean', description: 'Must be true' } },
+  required: ['dismissed'],
+  additionalProperties: false,
+};
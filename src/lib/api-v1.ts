@@ -0,0 +1,123 @@
+// src/lib/api-v1.ts
+//
+// Plumbing shared by the /api/v1 routes: authentication, request parsing
+// against the schemas in api-v1-schemas.ts, and one response format.
+// Success is `{ data }` (plus `pagination` for lists); failure is
+// `{ error: { code, message, details? } }` with a matching HTTP status.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient, User } from '@supabase/supabase-js';
+import { TokenScope } from '@/types';
+import { getAuthenticatedUser } from './api-auth';
+import { Repositories, Page, createSupabaseRepositories } from './repositories';
+import { Schema, ObjectSchema, validate, shape, parseQuery } from './api-schema';
+import { DEFAULT_PAGE_SIZE } from './api-v1-schemas';
+
+export type ApiErrorCode = 'unauthorized' | 'forbidden' | 'invalid_request' | 'not_found' | 'conflict' | 'internal_error';
+
+export function apiError(status: number, code: ApiErrorCode, message: string, details?: string[]): NextResponse {
+  return NextResponse.json({ error: { code, message, ...(details?.length ? { details } : {}) } }, { status });
+}
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  unauthorized: 401,
+  forbidden: 403,
+  invalid_request: 400,
+  not_found: 404,
+  conflict: 409,
+  internal_error: 500,
+};
+
+/** apiError with the status that goes with `code` */
+export function apiFailure(code: ApiErrorCode, message: string, details?: string[]): NextResponse {
+  return apiError(STATUS_BY_CODE[code], code, message, details);
+}
+
+export function apiData(schema: Schema, value: unknown, status: number = 200): NextResponse {
+  return NextResponse.json({ data: shape(schema, value) }, { status });
+}
+
+export function apiList(schema: Schema, values: unknown[], page: Page, total: number): NextResponse {
+  return NextResponse.json({
+    data: values.map(value => shape(schema, value)),
+    pagination: { limit: page.limit, offset: page.offset, total },
+  });
+}
+
+type Parsed<T> = { value: T; error: null } | { value: null; error: NextResponse };
+
+const invalid = (message: string, details?: string[]): Parsed<never> =>
+  ({ value: null, error: apiError(400, 'invalid_request', message, details) });
+
+/** The JSON body, checked against `schema` and cut down to the fields it declares */
+export async function readJson<T>(request: NextRequest, schema: ObjectSchema): Promise<Parsed<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return invalid('Request body must be JSON');
+  }
+
+  const errors = validate(schema, body);
+  if (errors.length > 0) return invalid('Invalid request body', errors);
+  return { value: shape<T>(schema, body), error: null };
+}
+
+/** The query string, checked against `schema` with numbers and lists converted */
+export function readQuery<T>(request: NextRequest, schema: ObjectSchema): Parsed<T> {
+  const { value, errors } = parseQuery(schema, request.nextUrl.searchParams);
+  if (errors.length > 0) return invalid('Invalid query parameters', errors);
+  return { value: value as T, error: null };
+}
+
+export function getPage(query: { limit?: number; offset?: number }): Page {
+  return { limit: query.limit ?? DEFAULT_PAGE_SIZE, offset: query.offset ?? 0 };
+}
+
+export interface V1Context<P> {
+  request: NextRequest;
+  user: User;
+  supabase: SupabaseClient;
+  repositories: Repositories;
+  params: P;
+}
+
+/**
+ * A route handler that authenticates with `scope`, checks the path params
+ * against `paramsSchema` and catches whatever the handler throws, so each
+ * route only has the interesting part left.
+ */
+export function v1Route<P extends Record<string, string> = Record<string, never>>(
+  scope: TokenScope,
+  action: string,
+  handler: (context: V1Context<P>) => Promise<NextResponse>,
+  paramsSchema?: ObjectSchema
+) {
+  return async (request: NextRequest, { params }: { params: Promise<P> }): Promise<NextResponse> => {
+    try {
+      const { user, error: authError, status: authStatus, supabase } = await getAuthenticatedUser(request, scope);
+
+      if (!user || authError) {
+        return apiError(authStatus, authStatus === 403 ? 'forbidden' : 'unauthorized', authError);
+      }
+
+      const resolved = await params;
+      if (paramsSchema) {
+        const errors = validate(paramsSchema, resolved, 'path');
+        if (errors.length > 0) return apiError(400, 'invalid_request', 'Invalid path', errors);
+      }
+
+      return await handler({
+        request,
+        user,
+        supabase,
+        repositories: createSupabaseRepositories(supabase),
+        params: resolved,
+      });
+
+    } catch (error) {
+      console.error(`API v1 ${action} error:`, error);
+      return apiError(500, 'internal_error', `Failed to ${action}`);
+    }
+  };
+}
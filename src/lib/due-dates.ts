@@ -0,0 +1,133 @@
+// src/lib/due-dates.ts
+
+import { addDays, format, parseISO, isValid } from 'date-fns';
+import { Task, ScheduleBlock, DeadlineRisk } from '@/types';
+import { timeToMinutes, minutesToTime } from './format-time';
+import { findTaskForBlock } from './schedule-blocks';
+
+const END_OF_DAY = '17:00';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_PATTERN = /\b(?:by|due|before|on|until)\s+(?:this\s+|next\s+)?(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|sday|urday|rsday)?\b/i;
+
+function nextWeekday(reference: Date, weekday: number): Date {
+  const diff = (weekday - reference.getDay() + 7) % 7;
+  return addDays(reference, diff);
+}
+
+/**
+ * Pull a deadline out of free text like "by Friday", "EOD", "due 3/15 at 2pm".
+ * Relative phrases resolve against `reference`; a weekday equal to today means today.
+ */
+export function parseDueDateFromText(
+  text: string,
+  reference: Date = new Date()
+): { due_date: string; due_time?: string } | null {
+  const lower = text.toLowerCase();
+  let dueDate: Date | null = null;
+  let dueTime: string | undefined;
+
+  const iso = lower.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+  const slash = lower.match(/\b(?:by|due|before|on|until)\s+(\d{1,2})\/(\d{1,2})\b/);
+  const weekday = lower.match(WEEKDAY_PATTERN);
+
+  if (iso && isValid(parseISO(iso[1]))) {
+    dueDate = parseISO(iso[1]);
+  } else if (slash) {
+    const candidate = new Date(reference.getFullYear(), Number(slash[1]) - 1, Number(slash[2]));
+    if (isValid(candidate)) {
+      if (format(candidate, 'yyyy-MM-dd') < format(reference, 'yyyy-MM-dd')) {
+        candidate.setFullYear(candidate.getFullYear() + 1);
+      }
+      dueDate = candidate;
+    }
+  } else if (weekday) {
+    const index = WEEKDAYS.findIndex(d => d.startsWith(weekday[1].slice(0, 3)));
+    dueDate = nextWeekday(reference, index);
+    if (/\bnext\s+/.test(weekday[0])) dueDate = addDays(dueDate, 7);
+  } else if (/\btomorrow\b/.test(lower)) {
+    dueDate = addDays(reference, 1);
+  } else if (/\b(?:eow|end of (?:the )?week)\b/.test(lower)) {
+    dueDate = nextWeekday(reference, 5);
+    dueTime = END_OF_DAY;
+  } else if (/\b(?:eod|end of (?:the )?day|today|tonight)\b/.test(lower)) {
+    dueDate = reference;
+  }
+
+  if (/\b(?:eod|end of (?:the )?day)\b/.test(lower)) {
+    dueTime = END_OF_DAY;
+  } else if (/\b(?:by|at|before)\s+noon\b/.test(lower)) {
+    dueTime = '12:00';
+  } else {
+    const time = lower.match(/\b(?:by|at|before)\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/);
+    if (time) {
+      let hours = Number(time[1]) % 12;
+      if (time[3] === 'pm') hours += 12;
+      dueTime = minutesToTime(hours * 60 + Number(time[2] || 0));
+    }
+  }
+
+  if (!dueDate) return null;
+  return { due_date: format(dueDate, 'yyyy-MM-dd'), ...(dueTime && { due_time: dueTime }) };
+}
+
+/**
+ * Keep a well-formed due date from the model; otherwise fall back to parsing the
+ * task's own wording so "by Friday" is never lost.
+ */
+export function normalizeDueFields(
+  task: { title: string; description?: string | null; due_date?: string | null; due_time?: string | null },
+  reference: Date = new Date()
+): { due_date: string | null; due_time: string | null } {
+  const dueDate = typeof task.due_date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(task.due_date)
+    ? task.due_date
+    : null;
+  const dueTime = typeof task.due_time === 'string' && /^\d{2}:\d{2}/.test(task.due_time)
+    ? task.due_time.slice(0, 5)
+    : null;
+
+  if (dueDate) {
+    return { due_date: dueDate, due_time: dueTime };
+  }
+
+  const parsed = parseDueDateFromText(`${task.title} ${task.description || ''}`, reference);
+  return {
+    due_date: parsed?.due_date ?? null,
+    due_time: parsed?.due_time ?? dueTime ?? null,
+  };
+}
+
+/** Tasks due on or before `date` that the blocks miss, or finish after their due time */
+export function getDeadlineRisks(
+  tasks: Task[],
+  blocks: Pick<ScheduleBlock, 'type' | 'title' | 'end_time' | 'task_id'>[],
+  date: string
+): DeadlineRisk[] {
+  const risks: DeadlineRisk[] = [];
+
+  for (const task of tasks) {
+    if (!task.due_date || task.due_date > date) continue;
+
+    const base = {
+      task_id: task.id,
+      title: task.title,
+      due_date: task.due_date,
+      due_time: task.due_time,
+    };
+
+    if (task.due_date < date) {
+      risks.push({ ...base, reason: 'overdue' });
+      continue;
+    }
+
+    const block = blocks.find(b => findTaskForBlock(b, [task]));
+
+    if (!block) {
+      risks.push({ ...base, reason: 'unscheduled' });
+    } else if (task.due_time && timeToMinutes(block.end_time) > timeToMinutes(task.due_time)) {
+      risks.push({ ...base, reason: 'late' });
+    }
+  }
+
+  return risks;
+}
@@ -0,0 +1,71 @@
+// src/lib/escalation.ts
+//
+// What happens to a task that keeps getting rolled over. The policy lives in
+// the user's settings: after `escalate_after` rollovers, `escalation_action`
+// applies on every further one.
+
+import { Task, UserSettings, EscalationAction, TaskDecision } from '@/types';
+
+export const ESCALATION_ACTIONS: EscalationAction[] = ['bump_priority', 'next_morning', 'decide'];
+
+const NEXT_PRIORITY: Record<Task['priority'], Task['priority']> = {
+  low: 'medium',
+  medium: 'high',
+  high: 'high',
+};
+
+type SlipFields = Pick<Task, 'rollover_count' | 'first_scheduled_date'>;
+
+/** Escalation due for a task that has now been rolled over `rolloverCount` times */
+export function getEscalation(
+  policy: Pick<UserSettings, 'escalate_after' | 'escalation_action'>,
+  rolloverCount: number
+): EscalationAction | null {
+  return policy.escalate_after > 0 && rolloverCount >= policy.escalate_after
+    ? policy.escalation_action
+    : null;
+}
+
+/**
+ * Field changes for one more rollover of `task` from `fromDate`, including
+ * whatever `action` (if any) does to the task row itself.
+ */
+export function getRolloverUpdate(
+  task: Pick<Task, 'priority' | 'rollover_count' | 'first_scheduled_date'>,
+  fromDate: string,
+  action: EscalationAction | null
+): Partial<Task> {
+  const update: Partial<Task> = {
+    status: 'rolled_over',
+    rollover_count: (task.rollover_count || 0) + 1,
+    first_scheduled_date: task.first_scheduled_date || fromDate,
+  };
+  if (action === 'bump_priority') update.priority = NEXT_PRIORITY[task.priority];
+  if (action === 'decide') update.needs_decision = true;
+  return update;
+}
+
+/** Prompt tag for the schedule generators, e.g. " [Slipped: 3x since 2025-03-03]" */
+export function describeSlips(task: SlipFields): string {
+  if (!task.rollover_count) return '';
+  return ` [Slipped: ${task.rollover_count}x${task.first_scheduled_date ? ` since ${task.first_scheduled_date}` : ''}]`;
+}
+
+/** Field changes for the user's answer to a flagged task; 'drop' deletes it instead */
+export function getDecisionUpdate(task: Pick<Task, 'tags'>, decision: Exclude<TaskDecision, 'drop'>): Partial<Task> {
+  switch (decision) {
+    case 'do':
+      // Committing to it: top priority, and the slip history starts over
+      return { needs_decision: false, priority: 'high', rollover_count: 0 };
+    case 'delegate':
+      // Off the user's plate; the tag keeps a record of where it went
+      return {
+        needs_decision: false,
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        tags: [...new Set([...(task.tags || []), 'delegated'])],
+      };
+    case 'defer':
+      return { needs_decision: false, status: 'pending', rollover_count: 0, first_scheduled_date: null };
+  }
+}
@@ -0,0 +1,89 @@
+// src/lib/fixed-events.ts
+//
+// Meetings and events have immovable start and end times. Everything else on a
+// day flows around them.
+
+import { ScheduleItem, ScheduleBlock } from '@/types';
+import { timeToMinutes, minutesToTime } from './format-time';
+
+export const FIXED_ITEM_TYPES = ['meeting', 'event'] as const;
+
+export type FixedItemType = (typeof FIXED_ITEM_TYPES)[number];
+
+export type FixedEvent = Pick<ScheduleBlock, 'title' | 'start_time' | 'end_time'> & {
+  type: FixedItemType;
+};
+
+export function isFixedItemType(type: string): type is FixedItemType {
+  return (FIXED_ITEM_TYPES as readonly string[]).includes(type);
+}
+
+export function toFixedEvent(item: Pick<ScheduleItem, 'title' | 'start_time' | 'end_time' | 'item_type'>): FixedEvent | null {
+  if (!isFixedItemType(item.item_type)) return null;
+  return {
+    title: item.title,
+    start_time: item.start_time.slice(0, 5),
+    end_time: item.end_time.slice(0, 5),
+    type: item.item_type,
+  };
+}
+
+export function toFixedBlock(event: FixedEvent): ScheduleBlock {
+  return {
+    ...event,
+    estimated_duration: timeToMinutes(event.end_time) - timeToMinutes(event.start_time),
+  };
+}
+
+/** Sorted [start, end) minute ranges of the fixed events */
+export function getFixedIntervals(fixed: Pick<ScheduleBlock, 'start_time' | 'end_time'>[]): [number, number][] {
+  return fixed
+    .map(e => [timeToMinutes(e.start_time), timeToMinutes(e.end_time)] as [number, number])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/** Earliest start >= `from` where `duration` minutes fit without touching a fixed interval */
+export function findNextFreeStart(from: number, duration: number, intervals: [number, number][]): number {
+  let start = from;
+  for (const [fixedStart, fixedEnd] of intervals) {
+    if (start + duration <= fixedStart) break;
+    if (start < fixedEnd) start = fixedEnd;
+  }
+  return start;
+}
+
+/**
+ * Re-time movable items sequentially from `startMinutes`, keeping each one's
+ * duration and pushing anything that would collide with a fixed event to
+ * just after it.
+ */
+export function flowAroundFixed<T extends { start_time: string; end_time: string }>(
+  items: T[],
+  fixed: Pick<ScheduleBlock, 'start_time' | 'end_time'>[],
+  startMinutes: number
+): T[] {
+  const intervals = getFixedIntervals(fixed);
+  let current = startMinutes;
+
+  return items.map(item => {
+    const duration = timeToMinutes(item.end_time) - timeToMinutes(item.start_time);
+    const start = findNextFreeStart(current, duration, intervals);
+    current = start + duration;
+    return { ...item, start_time: minutesToTime(start), end_time: minutesToTime(current) };
+  });
+}
+
+/**
+ * Make generated blocks respect the fixed events: whatever the model did with
+ * them is discarded, its own blocks keep their order and durations, and the
+ * real events are put back at their exact times.
+ */
+export function mergeWithFixedEvents(blocks: ScheduleBlock[], fixed: FixedEvent[], startTime: string = '09:00'): ScheduleBlock[] {
+  const movable = blocks.filter(b => !isFixedItemType(b.type));
+  if (fixed.length === 0) return movable;
+
+  const start = movable.length > 0 ? timeToMinutes(movable[0].start_time) : timeToMinutes(startTime);
+  return [...flowAroundFixed(movable, fixed, start), ...fixed.map(toFixedBlock)]
+    .sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time));
+}
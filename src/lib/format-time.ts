@@ -5,3 +5,14 @@ export function formatDisplayTime(timeStr: string): string {
   const h12 = h % 12 || 12;
   return `${h12}:${String(m).padStart(2, '0')} ${ampm}`;
 }
+
+/** Convert "HH:MM" or "HH:MM:SS" to minutes since midnight */
+export function timeToMinutes(timeStr: string): number {
+  const [h, m] = timeStr.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/** Convert minutes since midnight to "HH:MM" */
+export function minutesToTime(totalMinutes: number): string {
+  return `${String(Math.floor(totalMinutes / 60)).padStart(2, '0')}:${String(totalMinutes % 60).padStart(2, '0')}`;
+}
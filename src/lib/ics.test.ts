@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseIcs, getCalendarName, getCalendarOccurrences } from './ics';
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const event = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+
+// New York is on EDT (UTC-4) until 1 November 2026, then EST (UTC-5)
+
+describe('parseIcs', () => {
+  it('reads folded, escaped properties and ignores nested components', () => {
+    const [parsed] = parseIcs(calendar(
+      ...event(
+        'UID:standup@example.com',
+        'SUMMARY:Stand-up\\, then',
+        '  planning',
+        'DTSTART;TZID=America/New_York:20261020T093000',
+        'DURATION:PT45M',
+        'BEGIN:VALARM',
+        'SUMMARY:Reminder',
+        'END:VALARM'
+      )
+    ));
+
+    expect(parsed).toMatchObject({
+      uid: 'standup@example.com',
+      summary: 'Stand-up, then planning',
+      start: { wall: { year: 2026, month: 10, day: 20, hour: 9, minute: 30 }, dateOnly: false, timeZone: 'America/New_York' },
+      end: null,
+      durationMinutes: 45,
+    });
+  });
+
+  it('skips events without a UID or start', () => {
+    expect(parseIcs(calendar(
+      ...event('SUMMARY:No uid', 'DTSTART:20261020T090000Z'),
+      ...event('UID:no-start', 'SUMMARY:No start')
+    ))).toEqual([]);
+  });
+
+  it('treats unknown zone names as floating time', () => {
+    const [parsed] = parseIcs(calendar(...event('UID:a', 'DTSTART;TZID=Eastern Standard Time:20261020T090000')));
+    expect(parsed.start.timeZone).toBeNull();
+  });
+});
+
+describe('getCalendarName', () => {
+  it('reads X-WR-CALNAME', () => {
+    expect(getCalendarName(calendar('X-WR-CALNAME:Work\\, shared'))).toBe('Work, shared');
+    expect(getCalendarName(calendar())).toBeNull();
+  });
+});
+
+describe('getCalendarOccurrences', () => {
+  it('places events in the importer\'s zone', () => {
+    const events = parseIcs(calendar(
+      ...event('UID:a', 'SUMMARY:Review', 'DTSTART;TZID=America/New_York:20261020T090000', 'DTEND;TZID=America/New_York:20261020T100000'),
+      ...event('UID:b', 'DTSTART:20261020T160000Z', 'DTEND:20261020T163000Z'),
+      ...event('UID:c', 'SUMMARY:Floating', 'DTSTART:20261020T110000', 'DTEND:20261020T113000')
+    ));
+
+    expect(getCalendarOccurrences(events, ['2026-10-20'], 'Europe/London')).toEqual([
+      { external_uid: 'c', title: 'Floating', date: '2026-10-20', start_time: '11:00', end_time: '11:30' },
+      { external_uid: 'a', title: 'Review', date: '2026-10-20', start_time: '14:00', end_time: '15:00' },
+      { external_uid: 'b', title: 'Busy', date: '2026-10-20', start_time: '17:00', end_time: '17:30' },
+    ]);
+  });
+
+  it('leaves out all-day, cancelled and free events', () => {
+    const events = parseIcs(calendar(
+      ...event('UID:all-day', 'DTSTART;VALUE=DATE:20261020', 'DTEND;VALUE=DATE:20261021'),
+      ...event('UID:cancelled', 'STATUS:CANCELLED', 'DTSTART:20261020T090000Z', 'DTEND:20261020T100000Z'),
+      ...event('UID:free', 'TRANSP:TRANSPARENT', 'DTSTART:20261020T090000Z', 'DTEND:20261020T100000Z')
+    ));
+
+    expect(getCalendarOccurrences(events, ['2026-10-20'], 'UTC')).toEqual([]);
+  });
+
+  it('cuts an event running past midnight off at 23:59', () => {
+    const events = parseIcs(calendar(...event('UID:late', 'DTSTART:20261020T230000Z', 'DURATION:PT2H')));
+
+    expect(getCalendarOccurrences(events, ['2026-10-20', '2026-10-21'], 'UTC')).toMatchObject([
+      { date: '2026-10-20', start_time: '23:00', end_time: '23:59' },
+    ]);
+  });
+
+  it('expands recurring events with exceptions and overridden instances', () => {
+    const events = parseIcs(calendar(
+      ...event(
+        'UID:weekly',
+        'SUMMARY:Weekly sync',
+        'DTSTART;TZID=America/New_York:20261019T090000',
+        'DTEND;TZID=America/New_York:20261019T093000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+        'EXDATE;TZID=America/New_York:20261021T090000'
+      ),
+      ...event(
+        'UID:weekly',
+        'SUMMARY:Weekly sync (moved)',
+        'RECURRENCE-ID;TZID=America/New_York:20261026T090000',
+        'DTSTART;TZID=America/New_York:20261026T110000',
+        'DTEND;TZID=America/New_York:20261026T113000'
+      )
+    ));
+
+    expect(getCalendarOccurrences(events, ['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-26', '2026-10-28'], 'UTC')).toEqual([
+      { external_uid: 'weekly#20261019T090000', title: 'Weekly sync', date: '2026-10-19', start_time: '13:00', end_time: '13:30' },
+      { external_uid: 'weekly#20261026T090000', title: 'Weekly sync (moved)', date: '2026-10-26', start_time: '15:00', end_time: '15:30' },
+      { external_uid: 'weekly#20261028T090000', title: 'Weekly sync', date: '2026-10-28', start_time: '13:00', end_time: '13:30' },
+    ]);
+  });
+
+  it('keeps a recurring event\'s wall-clock time in its own zone across a DST change', () => {
+    const events = parseIcs(calendar(...event(
+      'UID:daily',
+      'DTSTART;TZID=America/New_York:20261030T090000',
+      'DURATION:PT1H',
+      'RRULE:FREQ=DAILY;UNTIL=20261102T130000Z'
+    )));
+
+    expect(getCalendarOccurrences(events, ['2026-10-31', '2026-11-01', '2026-11-02', '2026-11-03'], 'UTC')).toMatchObject([
+      { date: '2026-10-31', start_time: '13:00', end_time: '14:00' },
+      { date: '2026-11-01', start_time: '14:00', end_time: '15:00' },
+    ]);
+  });
+});
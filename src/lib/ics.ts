@@ -0,0 +1,375 @@
+// src/lib/ics.ts
+//
+// Minimal iCalendar (RFC 5545) reader: enough of VEVENT to block out busy time.
+
+import { RecurrenceRule, parseRRule, getOccurrencesBetween } from './recurrence';
+import {
+  WallTime,
+  isValidTimeZone,
+  getZonedWallTime,
+  zonedWallTimeToInstant,
+  formatWallDate,
+  formatWallTime,
+} from './time-zones';
+
+export interface IcsDateValue {
+  wall: WallTime;
+  dateOnly: boolean;
+  utc: boolean;
+  timeZone: string | null; // null = floating time, read in the importer's zone
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: IcsDateValue;
+  end: IcsDateValue | null;
+  durationMinutes: number | null;
+  rrule: RecurrenceRule | null;
+  until: IcsDateValue | null; // the RRULE's UNTIL with its time of day kept
+  exdates: IcsDateValue[];
+  recurrenceId: IcsDateValue | null;
+  cancelled: boolean;
+  transparent: boolean; // TRANSP:TRANSPARENT means "show as free"
+}
+
+/** One busy block on one of the requested days, in the importer's zone */
+export interface CalendarOccurrence {
+  external_uid: string; // stable across re-imports of the same event instance
+  title: string;
+  date: string; // yyyy-MM-dd
+  start_time: string; // HH:MM
+  end_time: string;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '');
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon that isn't inside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, ch) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+function parseDateValue(value: string, params: Record<string, string>): IcsDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const dateOnly = params.VALUE === 'DATE' || match[4] === undefined;
+  const utc = match[7] === 'Z';
+  // Outlook sometimes writes Windows zone names; treat those as floating time
+  const timeZone = !utc && params.TZID && isValidTimeZone(params.TZID) ? params.TZID : null;
+
+  return {
+    wall: {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: dateOnly ? 0 : Number(match[4]),
+      minute: dateOnly ? 0 : Number(match[5]),
+      second: dateOnly ? 0 : Number(match[6] || 0),
+    },
+    dateOnly,
+    utc,
+    timeZone,
+  };
+}
+
+function parseDurationMinutes(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = (Number(weeks || 0) * 7 + Number(days || 0)) * 1440
+    + Number(hours || 0) * 60 + Number(minutes || 0) + Math.floor(Number(seconds || 0) / 60);
+  return sign === '-' ? -total : total;
+}
+
+/** All VEVENTs in an .ics document; malformed events are skipped */
+export function parseIcs(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  const stack: string[] = [];
+  let current: Partial<IcsEvent> | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const content = parseContentLine(line);
+    if (!content) continue;
+    const { name, params, value } = content;
+
+    if (name === 'BEGIN') {
+      stack.push(value.toUpperCase());
+      if (value.toUpperCase() === 'VEVENT') {
+        current = { exdates: [], rrule: null, until: null, recurrenceId: null, cancelled: false, transparent: false };
+      }
+      continue;
+    }
+
+    if (name === 'END') {
+      if (stack.pop() === 'VEVENT' && current) {
+        if (current.uid && current.start) {
+          events.push({
+            summary: '',
+            end: null,
+            durationMinutes: null,
+            ...current,
+          } as IcsEvent);
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    // Properties of nested components (VALARM etc.) are not the event's
+    if (!current || stack[stack.length - 1] !== 'VEVENT') continue;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(value).trim();
+        break;
+      case 'DTSTART':
+        current.start = parseDateValue(value, params) ?? undefined;
+        break;
+      case 'DTEND':
+        current.end = parseDateValue(value, params);
+        break;
+      case 'DURATION':
+        current.durationMinutes = parseDurationMinutes(value);
+        break;
+      case 'RRULE':
+        current.rrule = parseRRule(value);
+        current.until = parseDateValue(value.match(/UNTIL=([0-9TZ]+)/i)?.[1] || '', {});
+        break;
+      case 'EXDATE':
+        current.exdates!.push(
+          ...value.split(',')
+            .map(v => parseDateValue(v, params))
+            .filter((d): d is IcsDateValue => d !== null)
+        );
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateValue(value, params);
+        break;
+      case 'STATUS':
+        current.cancelled = value.trim().toUpperCase() === 'CANCELLED';
+        break;
+      case 'TRANSP':
+        current.transparent = value.trim().toUpperCase() === 'TRANSPARENT';
+        break;
+    }
+  }
+
+  return events;
+}
+
+/** The calendar's own name (X-WR-CALNAME), or null when it has none */
+export function getCalendarName(text: string): string | null {
+  for (const line of unfoldLines(text)) {
+    const content = parseContentLine(line);
+    if (content?.name === 'X-WR-CALNAME') return unescapeText(content.value).trim() || null;
+  }
+  return null;
+}
+
+function toInstant(value: IcsDateValue, fallbackZone: string): Date {
+  if (value.utc) return zonedWallTimeToInstant(value.wall, 'UTC');
+  return zonedWallTimeToInstant(value.wall, value.timeZone || fallbackZone);
+}
+
+/** Instance id in the event's own wall time, e.g. 20261020T093000 */
+function formatInstanceId(wall: WallTime): string {
+  return `${formatWallDate(wall)}T${formatWallTime(wall)}00`.replace(/[-:]/g, '');
+}
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Expand events (including recurring ones, their exceptions and overridden
+ * instances) into busy blocks on the given dates, as seen from `timeZone`.
+ * All-day, cancelled and "show as free" events don't block time and are
+ * left out. A block running past midnight is cut off at 23:59.
+ */
+export function getCalendarOccurrences(events: IcsEvent[], dates: string[], timeZone: string): CalendarOccurrence[] {
+  if (dates.length === 0) return [];
+
+  const wanted = new Set(dates);
+  const sorted = [...dates].sort();
+  // Zones can put an event on a different calendar day than the one it was written in
+  const from = shiftDate(sorted[0], -1);
+  const to = shiftDate(sorted[sorted.length - 1], 1);
+
+  // Instances replaced by a RECURRENCE-ID override, per UID
+  const overridden = new Map<string, Set<number>>();
+  for (const event of events) {
+    if (!event.recurrenceId) continue;
+    const ids = overridden.get(event.uid) || new Set<number>();
+    ids.add(toInstant(event.recurrenceId, timeZone).getTime());
+    overridden.set(event.uid, ids);
+  }
+
+  const occurrences: CalendarOccurrence[] = [];
+
+  for (const event of events) {
+    const eventZone = event.start.utc ? 'UTC' : event.start.timeZone || timeZone;
+    const start = toInstant(event.start, timeZone);
+    const duration = event.end
+      ? (toInstant(event.end, timeZone).getTime() - start.getTime()) / 60000
+      : event.durationMinutes ?? 0;
+
+    if (event.cancelled || event.transparent || event.start.dateOnly || duration <= 0) continue;
+
+    // Instance start times, keeping the wall-clock time in the event's own zone across DST
+    let instances: Date[] = [start];
+    if (event.rrule && !event.recurrenceId) {
+      const startWall = getZonedWallTime(start, eventZone);
+      const rule = { ...event.rrule };
+      if (event.until && !event.until.dateOnly) {
+        // A timed UNTIL earlier in the day than the start time excludes that day
+        const untilWall = getZonedWallTime(toInstant(event.until, eventZone), eventZone);
+        const endsBeforeStart = formatWallTime(untilWall) < formatWallTime(startWall);
+        rule.until = endsBeforeStart ? shiftDate(formatWallDate(untilWall), -1) : formatWallDate(untilWall);
+      }
+
+      const excluded = new Set(event.exdates.map(ex =>
+        ex.dateOnly ? formatWallDate(ex.wall) : toInstant(ex, eventZone).getTime()
+      ));
+      const replaced = overridden.get(event.uid) || new Set<number>();
+
+      instances = getOccurrencesBetween(rule, formatWallDate(startWall), from, to)
+        .map(date => {
+          const [year, month, day] = date.split('-').map(Number);
+          return zonedWallTimeToInstant({ ...startWall, year, month, day }, eventZone);
+        })
+        .filter(instance => {
+          const date = formatWallDate(getZonedWallTime(instance, eventZone));
+          return !excluded.has(date) && !excluded.has(instance.getTime()) && !replaced.has(instance.getTime());
+        });
+    }
+
+    for (const instance of instances) {
+      const startWall = getZonedWallTime(instance, timeZone);
+      const date = formatWallDate(startWall);
+      if (!wanted.has(date)) continue;
+
+      const endWall = getZonedWallTime(new Date(instance.getTime() + duration * 60000), timeZone);
+      const sameDay = formatWallDate(endWall) === date;
+
+      const instanceId = event.recurrenceId
+        ? formatInstanceId(getZonedWallTime(toInstant(event.recurrenceId, eventZone), eventZone))
+        : event.rrule ? formatInstanceId(getZonedWallTime(instance, eventZone)) : null;
+
+      occurrences.push({
+        external_uid: instanceId ? `${event.uid}#${instanceId}` : event.uid,
+        title: event.summary || 'Busy',
+        date,
+        start_time: formatWallTime(startWall),
+        end_time: sameDay ? formatWallTime(endWall) : '23:59',
+      });
+    }
+  }
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time));
+}
+
+export interface IcsExportEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  categories?: string[];
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function formatUtcStamp(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Lines longer than 75 octets are continued on the next line after a space */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(chunk + char).length > limit) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
+
+/** A complete VCALENDAR document; times are written in UTC */
+export function serializeIcs(events: IcsExportEvent[], calendarName: string): string {
+  const stamp = formatUtcStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TaskFlow//Schedule Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtcStamp(event.start)}`,
+      `DTEND:${formatUtcStamp(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.categories?.length ? [`CATEGORIES:${event.categories.map(escapeText).join(',')}`] : []),
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
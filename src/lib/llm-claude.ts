@@ -0,0 +1,25 @@
+// src/lib/llm-claude.ts
+
+import Anthropic from '@anthropic-ai/sdk';
+import { LlmConfig, LlmProvider, createToolCallingProvider } from './llm-provider';
+
+export function createClaudeProvider(config: LlmConfig): LlmProvider {
+  if (!config.apiKey) {
+    throw new Error('ANTHROPIC_API_KEY is not configured');
+  }
+
+  const anthropic = new Anthropic({ apiKey: config.apiKey });
+
+  return createToolCallingProvider(
+    config,
+    maxTokens => async ({ messages, tools, tool_choice }) =>
+      anthropic.messages.create({
+        model: config.model,
+        max_tokens: maxTokens,
+        temperature: config.temperature,
+        messages: messages as Anthropic.MessageParam[],
+        tools: tools as Anthropic.Tool[],
+        tool_choice,
+      })
+  );
+}
@@ -0,0 +1,61 @@
+// src/lib/llm-mock.ts
+//
+// A provider that never touches the network, for development and CI. With
+// LLM_FIXTURES_DIR set (fixtures/llm has examples), responses come from
+// files in that directory:
+//
+//   parse-tasks.json        the record_tasks tool input: { "tasks": [...] }
+//   generate-schedule.json  the record_schedule tool input: { "blocks": [...] }
+//
+// Fixtures go through the same validation as real output. A missing file
+// falls back to a simple deterministic answer built from the request.
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { LlmConfig, LlmProvider } from './llm-provider';
+import { validateParsedTasks, validateScheduleOutput, repairScheduleOutput } from './llm-schemas';
+import { parseTasksLocally } from './local-task-parser';
+
+async function readFixture(config: LlmConfig, file: string): Promise<string | null> {
+  if (!config.fixturesDir) return null;
+  try {
+    return await readFile(path.resolve(config.fixturesDir, file), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export function createMockProvider(config: LlmConfig): LlmProvider {
+  return {
+    name: 'mock',
+    model: config.model,
+
+    async parseTasks({ input }) {
+      const fixture = await readFixture(config, 'parse-tasks.json');
+      if (!fixture) return parseTasksLocally(input);
+
+      const { value, errors } = validateParsedTasks(JSON.parse(fixture));
+      if (!value) throw new Error(`Invalid parse-tasks.json fixture: ${errors.join('; ')}`);
+      return value;
+    },
+
+    async generateSchedule({ tasks, bounds }) {
+      const fixture = await readFixture(config, 'generate-schedule.json');
+      if (fixture) {
+        const input = JSON.parse(fixture);
+        return validateScheduleOutput(input, bounds).value || repairScheduleOutput(input, bounds);
+      }
+
+      // Each task back to back in the given order, sized by its [Est: Nmin] tag
+      return repairScheduleOutput({
+        blocks: tasks.map(description => ({
+          type: 'task',
+          title: description.split(' [')[0].trim(),
+          estimated_duration: Number(description.match(/\[Est: (\d+)min\]/)?.[1]) || 30,
+        })),
+        suggestions: ['Scheduled by the mock provider: tasks in order, without breaks.'],
+      }, bounds);
+    },
+  };
+}
@@ -0,0 +1,94 @@
+// src/lib/llm-openai.ts
+//
+// Any server that speaks the OpenAI chat completions API — Ollama, llama.cpp,
+// vLLM, LM Studio or OpenAI itself. Tool calls are translated to and from the
+// messages-API shape that structured-output works in.
+
+import { LlmConfig, LlmProvider, createToolCallingProvider } from './llm-provider';
+import { LlmMessage } from './structured-output';
+import { LlmTool } from './llm-schemas';
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+  tool_call_id?: string;
+}
+
+type Block = { type: string; text?: string; id?: string; name?: string; input?: unknown; tool_use_id?: string; content?: string };
+
+function toChatMessages(messages: LlmMessage[]): ChatMessage[] {
+  return messages.flatMap((message): ChatMessage[] => {
+    if (typeof message.content === 'string') {
+      return [{ role: message.role, content: message.content }];
+    }
+
+    const blocks = message.content as Block[];
+    const text = blocks.filter(b => b.type === 'text').map(b => b.text).join('\n');
+
+    if (message.role === 'assistant') {
+      const toolCalls = blocks.filter(b => b.type === 'tool_use').map(b => ({
+        id: b.id!,
+        type: 'function' as const,
+        function: { name: b.name!, arguments: typeof b.input === 'string' ? b.input : JSON.stringify(b.input) },
+      }));
+      return [{ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) }];
+    }
+
+    const results: ChatMessage[] = blocks
+      .filter(b => b.type === 'tool_result')
+      .map(b => ({ role: 'tool', tool_call_id: b.tool_use_id, content: b.content ?? '' }));
+    return text ? [...results, { role: 'user', content: text }] : results;
+  });
+}
+
+function toFunctionTool(tool: LlmTool) {
+  return { type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.input_schema } };
+}
+
+export function createOpenAiCompatibleProvider(config: LlmConfig): LlmProvider {
+  const chat = async (body: Record<string, unknown>) => {
+    const response = await fetch(`${config.baseUrl!.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({ model: config.model, temperature: config.temperature, ...body }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.choices?.[0]?.message) {
+      throw new Error(data.error?.message || `Model server returned ${response.status}`);
+    }
+    return {
+      message: data.choices[0].message as { content: string | null; tool_calls?: ChatMessage['tool_calls'] },
+      usage: data.usage && { input_tokens: data.usage.prompt_tokens || 0, output_tokens: data.usage.completion_tokens || 0 },
+    };
+  };
+
+  return createToolCallingProvider(
+    config,
+    maxTokens => async ({ messages, tools, tool_choice }) => {
+      const { message, usage } = await chat({
+        max_tokens: maxTokens,
+        messages: toChatMessages(messages),
+        tools: tools.map(toFunctionTool),
+        tool_choice: { type: 'function', function: { name: tool_choice.name } },
+      });
+
+      const content: Block[] = message.content ? [{ type: 'text', text: message.content }] : [];
+      for (const call of message.tool_calls || []) {
+        let input: unknown;
+        try {
+          input = JSON.parse(call.function.arguments);
+        } catch {
+          // Left as a string, so validation fails and the model is asked again
+          input = call.function.arguments;
+        }
+        content.push({ type: 'tool_use', id: call.id, name: call.function.name, input });
+      }
+      return { content, usage };
+    }
+  );
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { getLlmConfig } from './llm-provider';
+
+describe('getLlmConfig', () => {
+  it('uses Claude when only the Anthropic key is set', () => {
+    const config = getLlmConfig({ ANTHROPIC_API_KEY: 'sk-test' });
+    expect(config.provider).toBe('claude');
+    expect(config.apiKey).toBe('sk-test');
+  });
+
+  it('refuses to guess when nothing is configured', () => {
+    expect(() => getLlmConfig({})).toThrow(/No LLM provider configured/);
+  });
+
+  it('only uses the mock when asked for it', () => {
+    expect(getLlmConfig({ LLM_PROVIDER: 'mock' }).provider).toBe('mock');
+    expect(getLlmConfig({ LLM_PROVIDER: 'openai' }).baseUrl).toBe('http://localhost:11434/v1');
+  });
+
+  it('rejects unknown providers and bad limits', () => {
+    expect(() => getLlmConfig({ LLM_PROVIDER: 'gpt' })).toThrow(/LLM_PROVIDER must be one of/);
+    expect(() => getLlmConfig({ LLM_PROVIDER: 'mock', LLM_PARSE_MAX_TOKENS: '0' })).toThrow(/positive integer/);
+  });
+
+  it('keeps the configured model first in the allowlist', () => {
+    const config = getLlmConfig({ LLM_PROVIDER: 'mock', LLM_MODEL: 'a', LLM_ALLOWED_MODELS: 'b, a ,c' });
+    expect(config.allowedModels).toEqual(['a', 'b', 'c']);
+  });
+});
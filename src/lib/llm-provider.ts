@@ -0,0 +1,195 @@
+// src/lib/llm-provider.ts
+//
+// Every model call the app makes goes through an LlmProvider, picked and
+// configured from the environment:
+//
+//   LLM_PROVIDER       claude | openai | mock (default: claude when
+//                      ANTHROPIC_API_KEY is set; the mock is never picked
+//                      implicitly)
+//   LLM_MODEL          model name; each provider has a default
+//   LLM_ALLOWED_MODELS comma-separated models a request may ask for instead
+//   LLM_TEMPERATURE    optional, 0-2
+//   LLM_PARSE_MAX_TOKENS / LLM_SCHEDULE_MAX_TOKENS
+//   LLM_BASE_URL       openai: the server's /v1 root (default: local Ollama)
+//   LLM_API_KEY        openai: sent as a bearer token, if the server wants one
+//   LLM_FIXTURES_DIR   mock: directory of canned responses (see llm-mock.ts)
+//
+// Server-only: the providers hold API keys and the mock reads from disk.
+
+import { ParsedTaskInput, ScheduleBounds, ScheduleOutput, PARSED_TASKS_TOOL, validateParsedTasks } from './llm-schemas';
+import { requestStructured, requestSchedule, SendMessages } from './structured-output';
+import { createClaudeProvider } from './llm-claude';
+import { createOpenAiCompatibleProvider } from './llm-openai';
+import { createMockProvider } from './llm-mock';
+
+export const LLM_PROVIDERS = ['claude', 'openai', 'mock'] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+
+export type LlmOperation = 'parse_tasks' | 'generate_schedule';
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model: string;
+  allowedModels: string[]; // always includes model
+  temperature?: number;
+  maxTokens: Record<LlmOperation, number>;
+  apiKey?: string;
+  baseUrl?: string;
+  fixturesDir?: string;
+}
+
+/** Token counter a caller passes in; providers add every request they make, retries included */
+export interface LlmMeter {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface ParseTasksRequest {
+  prompt: string;
+  input: string; // the user's raw text, for providers that don't read the prompt
+  meter?: LlmMeter;
+}
+
+export interface GenerateScheduleRequest {
+  prompt: string;
+  tasks: string[]; // one description per task, tags included
+  bounds: ScheduleBounds;
+  meter?: LlmMeter;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  parseTasks(request: ParseTasksRequest): Promise<ParsedTaskInput[]>;
+  generateSchedule(request: GenerateScheduleRequest): Promise<ScheduleOutput>;
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  claude: 'claude-sonnet-4-5-20250929',
+  openai: 'llama3.1',
+  mock: 'mock',
+};
+
+const DEFAULT_MAX_TOKENS: Record<LlmOperation, number> = {
+  parse_tasks: 4000, // Large task lists need the room
+  generate_schedule: 4000,
+};
+
+function readPositiveInt(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+export function getLlmConfig(env: Record<string, string | undefined> = process.env): LlmConfig {
+  // A missing key must not quietly turn real schedules into canned ones
+  if (!env.LLM_PROVIDER && !env.ANTHROPIC_API_KEY) {
+    throw new Error('No LLM provider configured: set ANTHROPIC_API_KEY, or LLM_PROVIDER (use LLM_PROVIDER=mock for canned responses)');
+  }
+  const provider = (env.LLM_PROVIDER || 'claude') as LlmProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`LLM_PROVIDER must be one of ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  let temperature: number | undefined;
+  if (env.LLM_TEMPERATURE) {
+    temperature = Number(env.LLM_TEMPERATURE);
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+      throw new Error('LLM_TEMPERATURE must be a number between 0 and 2');
+    }
+  }
+
+  const model = env.LLM_MODEL || DEFAULT_MODELS[provider];
+  const allowedModels = (env.LLM_ALLOWED_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+
+  return {
+    provider,
+    model,
+    allowedModels: [model, ...allowedModels.filter(m => m !== model)],
+    temperature,
+    maxTokens: {
+      parse_tasks: readPositiveInt(env.LLM_PARSE_MAX_TOKENS, DEFAULT_MAX_TOKENS.parse_tasks, 'LLM_PARSE_MAX_TOKENS'),
+      generate_schedule: readPositiveInt(env.LLM_SCHEDULE_MAX_TOKENS, DEFAULT_MAX_TOKENS.generate_schedule, 'LLM_SCHEDULE_MAX_TOKENS'),
+    },
+    apiKey: provider === 'claude' ? env.ANTHROPIC_API_KEY : env.LLM_API_KEY,
+    baseUrl: env.LLM_BASE_URL || (provider === 'openai' ? 'http://localhost:11434/v1' : undefined),
+    fixturesDir: env.LLM_FIXTURES_DIR,
+  };
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  switch (config.provider) {
+    case 'claude':
+      return createClaudeProvider(config);
+    case 'openai':
+      return createOpenAiCompatibleProvider(config);
+    case 'mock':
+      return createMockProvider(config);
+  }
+}
+
+const providers = new Map<string, LlmProvider>();
+
+/**
+ * The provider for this process, built from the environment on first use.
+ * A requested model is only honoured when it's on the allowlist; anything
+ * else gets the configured default.
+ */
+export function getLlmProvider(requestedModel?: string): LlmProvider {
+  const config = getLlmConfig();
+  const model = requestedModel && config.allowedModels.includes(requestedModel) ? requestedModel : config.model;
+
+  let provider = providers.get(model);
+  if (!provider) {
+    provider = createLlmProvider({ ...config, model });
+    providers.set(model, provider);
+  }
+  return provider;
+}
+
+export function addUsage(meter: LlmMeter | undefined, usage: Partial<LlmMeter> | null | undefined) {
+  if (!meter || !usage) return;
+  meter.input_tokens += usage.input_tokens || 0;
+  meter.output_tokens += usage.output_tokens || 0;
+}
+
+const metered = (send: SendMessages, meter?: LlmMeter): SendMessages => async request => {
+  const response = await send(request);
+  addUsage(meter, response.usage);
+  return response;
+};
+
+/**
+ * The structured operations for providers that support tool calls: the
+ * provider supplies a sender per token limit, and validation, retries and
+ * token counting are shared.
+ */
+export function createToolCallingProvider(
+  config: LlmConfig,
+  send: (maxTokens: number) => SendMessages
+): LlmProvider {
+  return {
+    name: config.provider,
+    model: config.model,
+    async parseTasks({ prompt, meter }) {
+      const result = await requestStructured(
+        metered(send(config.maxTokens.parse_tasks), meter),
+        prompt,
+        PARSED_TASKS_TOOL,
+        validateParsedTasks
+      );
+      if (!result.value) {
+        console.error('Invalid parsed tasks:', result.errors);
+        throw new Error('Could not parse tasks from the model response. Try with fewer tasks.');
+      }
+      return result.value;
+    },
+    generateSchedule({ prompt, bounds, meter }) {
+      return requestSchedule(metered(send(config.maxTokens.generate_schedule), meter), prompt, bounds);
+    },
+  };
+}
@@ -0,0 +1,287 @@
+// src/lib/llm-schemas.ts
+//
+// The shapes the model is asked to produce, as tool definitions (JSON Schema
+// the model fills in) plus hand-written checks run on whatever comes back.
+// Shared by the server routes and the dashboard.
+
+import { ScheduleBlock, Task } from '@/types';
+import { FixedEvent, flowAroundFixed, isFixedItemType } from './fixed-events';
+import { timeToMinutes, minutesToTime } from './format-time';
+
+export interface LlmTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+/** A task as the model reports it, before recurrence and due dates are normalized */
+export interface ParsedTaskInput {
+  title: string;
+  description?: string;
+  estimated_duration?: number;
+  priority: Task['priority'];
+  tags: string[];
+  due_date: string | null;
+  due_time: string | null;
+  recurrence?: string | null;
+}
+
+export interface ScheduleOutput {
+  blocks: ScheduleBlock[];
+  suggestions: string[];
+}
+
+/** Day the schedule has to fit in; fixed events are the day's meetings and imported events */
+export interface ScheduleBounds {
+  startTime: string;
+  endTime: string;
+  fixedEvents?: FixedEvent[];
+}
+
+export type Validation<T> = { value: T; errors: [] } | { value: null; errors: string[] };
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const PRIORITIES: Task['priority'][] = ['high', 'medium', 'low'];
+const BLOCK_TYPES: ScheduleBlock['type'][] = ['task', 'break', 'lunch', 'meeting', 'event'];
+
+export const PARSED_TASKS_TOOL: LlmTool = {
+  name: 'record_tasks',
+  description: 'Record the tasks found in the user\'s input.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      tasks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', description: 'The exact original wording of the task' },
+            description: { type: ['string', 'null'] },
+            estimated_duration: { type: ['integer', 'null'], minimum: 1, maximum: 720, description: 'Minutes' },
+            priority: { type: 'string', enum: PRIORITIES },
+            tags: { type: 'array', items: { type: 'string' } },
+            due_date: { type: ['string', 'null'], pattern: DATE.source, description: 'YYYY-MM-DD' },
+            due_time: { type: ['string', 'null'], pattern: TIME.source, description: 'HH:MM, 24h' },
+            recurrence: { type: ['string', 'null'], description: 'The repeat phrase exactly as written, or null' },
+          },
+          required: ['title', 'priority', 'tags', 'due_date', 'due_time', 'recurrence'],
+        },
+      },
+    },
+    required: ['tasks'],
+  },
+};
+
+export const SCHEDULE_TOOL: LlmTool = {
+  name: 'record_schedule',
+  description: 'Record the day\'s schedule as consecutive, non-overlapping time blocks.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      blocks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            start_time: { type: 'string', pattern: TIME.source, description: 'HH:MM, 24h' },
+            end_time: { type: 'string', pattern: TIME.source, description: 'HH:MM, 24h, after start_time' },
+            type: { type: 'string', enum: BLOCK_TYPES },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            estimated_duration: { type: 'integer', minimum: 1, description: 'Minutes' },
+          },
+          required: ['start_time', 'end_time', 'type', 'title', 'estimated_duration'],
+        },
+      },
+      suggestions: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['blocks'],
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value : undefined;
+
+export function validateParsedTasks(input: unknown): Validation<ParsedTaskInput[]> {
+  const tasks = isRecord(input) ? input.tasks : input;
+  if (!Array.isArray(tasks)) {
+    return { value: null, errors: ['tasks must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const value = tasks.map((task, i): ParsedTaskInput | null => {
+    const at = `tasks[${i}]`;
+    if (!isRecord(task)) {
+      errors.push(`${at} must be an object`);
+      return null;
+    }
+    if (typeof task.title !== 'string' || task.title.trim() === '') {
+      errors.push(`${at}.title must be a non-empty string`);
+    }
+    if (!PRIORITIES.includes(task.priority as Task['priority'])) {
+      errors.push(`${at}.priority must be one of ${PRIORITIES.join(', ')}`);
+    }
+    const duration = task.estimated_duration;
+    if (duration != null && (!Number.isInteger(duration) || (duration as number) < 1 || (duration as number) > 720)) {
+      errors.push(`${at}.estimated_duration must be whole minutes between 1 and 720, or null`);
+    }
+    if (task.due_date != null && (typeof task.due_date !== 'string' || !DATE.test(task.due_date))) {
+      errors.push(`${at}.due_date must be YYYY-MM-DD or null`);
+    }
+    if (task.due_time != null && (typeof task.due_time !== 'string' || !TIME.test(task.due_time))) {
+      errors.push(`${at}.due_time must be HH:MM (24h) or null`);
+    }
+    if (task.tags != null && (!Array.isArray(task.tags) || task.tags.some(tag => typeof tag !== 'string'))) {
+      errors.push(`${at}.tags must be an array of strings`);
+    }
+
+    return {
+      title: String(task.title ?? '').trim(),
+      description: optionalString(task.description),
+      estimated_duration: typeof duration === 'number' ? duration : undefined,
+      priority: task.priority as Task['priority'],
+      tags: Array.isArray(task.tags) ? task.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      due_date: (task.due_date as string | null | undefined) ?? null,
+      due_time: (task.due_time as string | null | undefined) ?? null,
+      // Left undefined (not null) when absent so the title is scanned for a repeat phrase
+      recurrence: task.recurrence === undefined ? undefined : optionalString(task.recurrence) ?? null,
+    };
+  });
+
+  return errors.length > 0
+    ? { value: null, errors }
+    : { value: value as ParsedTaskInput[], errors: [] };
+}
+
+function checkBlockShape(block: unknown, at: string, errors: string[]): block is ScheduleBlock {
+  const before = errors.length;
+  if (!isRecord(block)) {
+    errors.push(`${at} must be an object`);
+    return false;
+  }
+  if (!BLOCK_TYPES.includes(block.type as ScheduleBlock['type'])) {
+    errors.push(`${at}.type must be one of ${BLOCK_TYPES.join(', ')} (got ${JSON.stringify(block.type)})`);
+  }
+  if (typeof block.title !== 'string' || block.title.trim() === '') {
+    errors.push(`${at}.title must be a non-empty string`);
+  }
+  for (const field of ['start_time', 'end_time'] as const) {
+    if (typeof block[field] !== 'string' || !TIME.test(block[field] as string)) {
+      errors.push(`${at}.${field} must be HH:MM (24h), got ${JSON.stringify(block[field])}`);
+    }
+  }
+  if (errors.length === before && timeToMinutes(block.end_time as string) <= timeToMinutes(block.start_time as string)) {
+    errors.push(`${at} (${block.title}) ends at ${block.end_time}, not after its start ${block.start_time}`);
+  }
+  return errors.length === before;
+}
+
+/**
+ * Everything wrong with a generated schedule: malformed blocks, blocks that
+ * overlap each other or a fixed event, and blocks outside the work day.
+ */
+export function validateScheduleOutput(input: unknown, bounds: ScheduleBounds): Validation<ScheduleOutput> {
+  if (!isRecord(input) || !Array.isArray(input.blocks)) {
+    return { value: null, errors: ['blocks must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const blocks = input.blocks.filter((block, i): block is ScheduleBlock => checkBlockShape(block, `blocks[${i}]`, errors));
+
+  // Fixed events are put back by the caller, so only the model's own blocks are checked
+  const movable = blocks
+    .filter(block => !isFixedItemType(block.type))
+    .sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time));
+  const dayStart = timeToMinutes(bounds.startTime);
+  const dayEnd = timeToMinutes(bounds.endTime);
+
+  movable.forEach((block, i) => {
+    const start = timeToMinutes(block.start_time);
+    const end = timeToMinutes(block.end_time);
+    if (start < dayStart) errors.push(`"${block.title}" starts at ${block.start_time}, before the day starts at ${bounds.startTime}`);
+    if (end > dayEnd) errors.push(`"${block.title}" ends at ${block.end_time}, after the day ends at ${bounds.endTime}`);
+
+    const next = movable[i + 1];
+    if (next && timeToMinutes(next.start_time) < end) {
+      errors.push(`"${block.title}" (${block.start_time}-${block.end_time}) overlaps "${next.title}" (${next.start_time}-${next.end_time})`);
+    }
+    for (const event of bounds.fixedEvents || []) {
+      if (start < timeToMinutes(event.end_time) && timeToMinutes(event.start_time) < end) {
+        errors.push(`"${block.title}" (${block.start_time}-${block.end_time}) overlaps the fixed event "${event.title}" (${event.start_time}-${event.end_time})`);
+      }
+    }
+  });
+
+  if (errors.length > 0) return { value: null, errors };
+
+  const suggestions = Array.isArray(input.suggestions)
+    ? input.suggestions.filter((s): s is string => typeof s === 'string')
+    : [];
+  return {
+    value: {
+      blocks: movable.map(block => ({
+        ...block,
+        estimated_duration: timeToMinutes(block.end_time) - timeToMinutes(block.start_time),
+      })),
+      suggestions,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Best effort for output that still fails validation after retries. Blocks
+ * without a usable type or title are dropped, a missing or backwards end time
+ * comes from estimated_duration, and the rest are laid end to end in their
+ * original order from the day's start, around the fixed events. That closes
+ * gaps and removes overlaps; whatever would run past midnight is dropped.
+ */
+export function repairScheduleOutput(input: unknown, bounds: ScheduleBounds): ScheduleOutput {
+  const raw = isRecord(input) && Array.isArray(input.blocks) ? input.blocks : [];
+
+  const usable = raw.filter((block): block is Record<string, unknown> =>
+    isRecord(block) &&
+    BLOCK_TYPES.includes(block.type as ScheduleBlock['type']) &&
+    !isFixedItemType(block.type as string) &&
+    typeof block.title === 'string' && block.title.trim() !== ''
+  ).map((block, order) => {
+    const start = typeof block.start_time === 'string' && TIME.test(block.start_time)
+      ? timeToMinutes(block.start_time)
+      : null;
+    const end = typeof block.end_time === 'string' && TIME.test(block.end_time)
+      ? timeToMinutes(block.end_time)
+      : null;
+    const estimate = Number.isInteger(block.estimated_duration) && (block.estimated_duration as number) > 0
+      ? block.estimated_duration as number
+      : 30;
+    const duration = start !== null && end !== null && end > start ? end - start : estimate;
+    return { block, order, start: start ?? Infinity, duration };
+  });
+
+  // Keep the model's order; blocks with no usable start time go last
+  usable.sort((a, b) => a.start - b.start || a.order - b.order);
+
+  const flowed = flowAroundFixed(
+    usable.map(({ block, duration }) => ({
+      start_time: '00:00',
+      end_time: minutesToTime(duration),
+      type: block.type as ScheduleBlock['type'],
+      title: (block.title as string).trim(),
+      description: optionalString(block.description),
+      estimated_duration: duration,
+    })),
+    bounds.fixedEvents || [],
+    timeToMinutes(bounds.startTime)
+  );
+
+  return {
+    blocks: flowed.filter(block => timeToMinutes(block.end_time) < 24 * 60),
+    suggestions: isRecord(input) && Array.isArray(input.suggestions)
+      ? input.suggestions.filter((s): s is string => typeof s === 'string')
+      : [],
+  };
+}
@@ -0,0 +1,222 @@
+// src/lib/llm-usage.ts
+//
+// Per-user request quotas, monthly token budgets and a usage row for every
+// model call, so one account can't run up the provider bill. Limits come from
+// the environment:
+//
+//   LLM_REQUESTS_PER_MINUTE   default 10
+//   LLM_REQUESTS_PER_DAY      default 200 (rolling 24 hours)
+//   LLM_MONTHLY_TOKEN_BUDGET  input + output tokens per user per calendar
+//                             month in their time zone; unset = no budget
+//
+// Going over the rate limits is an error; going over the budget is not —
+// callers switch to their non-LLM path (local scheduler, line-based parsing).
+//
+// Rows are written with the user's own client; RLS lets users insert and
+// read their usage but not change or delete it.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { UsageDay, UsageSummary } from '@/types';
+import { LlmOperation, LlmProvider, LlmMeter } from './llm-provider';
+import { getZonedWallTime, zonedWallTimeToInstant, formatWallDate, addCalendarDays } from './time-zones';
+
+export interface LlmLimits {
+  perMinute: number;
+  perDay: number;
+  monthlyTokens: number | null;
+}
+
+export type QuotaCheck =
+  | { allowed: true }
+  | { allowed: false; kind: 'rate_limit' | 'budget'; reason: string; retryAfter: number }; // seconds
+
+export function getLlmLimits(env: Record<string, string | undefined> = process.env): LlmLimits {
+  const read = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  const budget = read(env.LLM_MONTHLY_TOKEN_BUDGET, 0);
+  return {
+    perMinute: read(env.LLM_REQUESTS_PER_MINUTE, 10),
+    perDay: read(env.LLM_REQUESTS_PER_DAY, 200),
+    monthlyTokens: budget > 0 ? budget : null,
+  };
+}
+
+const startOfDay = (date: string, timeZone: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return zonedWallTimeToInstant({ year, month, day, hour: 0, minute: 0 }, timeZone);
+};
+
+/** First day of the user's current month and the instant the next one begins */
+export function getUsageMonth(timeZone: string, now: Date = new Date()): { start: string; end: Date } {
+  const wall = getZonedWallTime(now, timeZone);
+  const start = formatWallDate({ ...wall, day: 1 });
+  const next = wall.month === 12 ? { year: wall.year + 1, month: 1 } : { year: wall.year, month: wall.month + 1 };
+  return { start, end: startOfDay(formatWallDate({ ...next, day: 1 }), timeZone) };
+}
+
+async function countSince(supabase: SupabaseClient, userId: string, since: Date): Promise<number> {
+  const { count, error } = await supabase
+    .from('llm_usage')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString());
+
+  if (error) throw error;
+  return count || 0;
+}
+
+// Summed in the database: reading the rows would stop at PostgREST's max-rows
+async function sumTokensSince(supabase: SupabaseClient, userId: string, since: Date): Promise<number> {
+  const { data, error } = await supabase.rpc('sum_llm_tokens', { p_user_id: userId, p_since: since.toISOString() });
+
+  if (error) throw error;
+  return Number(data) || 0;
+}
+
+export async function checkLlmQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  timeZone: string,
+  limits: LlmLimits = getLlmLimits(),
+  now: Date = new Date()
+): Promise<QuotaCheck> {
+  const month = getUsageMonth(timeZone, now);
+  const [lastMinute, lastDay, monthTokens] = await Promise.all([
+    countSince(supabase, userId, new Date(now.getTime() - 60 * 1000)),
+    countSince(supabase, userId, new Date(now.getTime() - 24 * 60 * 60 * 1000)),
+    limits.monthlyTokens === null ? 0 : sumTokensSince(supabase, userId, startOfDay(month.start, timeZone)),
+  ]);
+
+  if (limits.monthlyTokens !== null && monthTokens >= limits.monthlyTokens) {
+    return {
+      allowed: false,
+      kind: 'budget',
+      reason: `Monthly budget of ${limits.monthlyTokens} tokens used`,
+      retryAfter: Math.ceil((month.end.getTime() - now.getTime()) / 1000),
+    };
+  }
+  if (lastDay >= limits.perDay) {
+    return { allowed: false, kind: 'rate_limit', reason: `Daily limit of ${limits.perDay} model requests reached`, retryAfter: 60 * 60 };
+  }
+  if (lastMinute >= limits.perMinute) {
+    return { allowed: false, kind: 'rate_limit', reason: `Limit of ${limits.perMinute} model requests per minute reached`, retryAfter: 60 };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Run one model call and record it against the user — tokens, model and how
+ * long it took — whether it succeeds or not, since failed calls still cost
+ * tokens. `run` gets the meter to hand to the provider. A failure to record
+ * is logged, never surfaced over the call's own result.
+ */
+export async function trackLlmCall<T>(
+  supabase: SupabaseClient,
+  userId: string,
+  operation: LlmOperation,
+  provider: Pick<LlmProvider, 'name' | 'model'>,
+  run: (meter: LlmMeter) => Promise<T>
+): Promise<T> {
+  const meter: LlmMeter = { input_tokens: 0, output_tokens: 0 };
+  const started = Date.now();
+  let success = false;
+  try {
+    const result = await run(meter);
+    success = true;
+    return result;
+  } finally {
+    const { error } = await supabase
+      .from('llm_usage')
+      .insert({
+        user_id: userId,
+        operation,
+        provider: provider.name,
+        model: provider.model,
+        success,
+        input_tokens: meter.input_tokens,
+        output_tokens: meter.output_tokens,
+        latency_ms: Date.now() - started,
+      });
+    if (error) console.error('Failed to record LLM usage:', error);
+  }
+}
+
+// One row of summarize_llm_usage: a day and model's calls, latency summed
+interface UsageGroup {
+  date: string;
+  model: string;
+  requests: number;
+  failed: number;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+}
+
+const emptyCounts = (): Omit<UsageDay, 'date'> => ({
+  requests: 0, failed: 0, input_tokens: 0, output_tokens: 0, avg_latency_ms: 0,
+});
+
+function addToCounts(day: Omit<UsageDay, 'date'>, group: UsageGroup) {
+  const requests = Number(group.requests);
+  day.avg_latency_ms = Math.round((day.avg_latency_ms * day.requests + Number(group.latency_ms)) / (day.requests + requests));
+  day.requests += requests;
+  day.failed += Number(group.failed);
+  day.input_tokens += Number(group.input_tokens);
+  day.output_tokens += Number(group.output_tokens);
+}
+
+/** Usage per day between `from` and `to` (inclusive, user's zone), plus the month-to-date total */
+export async function getUsageSummary(
+  supabase: SupabaseClient,
+  userId: string,
+  { from, to, timeZone, limits = getLlmLimits(), now = new Date() }: {
+    from: string;
+    to: string;
+    timeZone: string;
+    limits?: LlmLimits;
+    now?: Date;
+  }
+): Promise<UsageSummary> {
+  const month = getUsageMonth(timeZone, now);
+
+  const [{ data, error }, monthTokens] = await Promise.all([
+    supabase.rpc('summarize_llm_usage', {
+      p_user_id: userId,
+      p_from: startOfDay(from, timeZone).toISOString(),
+      p_to: startOfDay(addCalendarDays(to, 1), timeZone).toISOString(),
+      p_time_zone: timeZone,
+    }),
+    sumTokensSince(supabase, userId, startOfDay(month.start, timeZone)),
+  ]);
+
+  if (error) throw error;
+
+  const days = new Map<string, UsageDay>();
+  for (let date = from; date <= to; date = addCalendarDays(date, 1)) {
+    days.set(date, { date, ...emptyCounts() });
+  }
+
+  const totals = emptyCounts();
+  const byModel: UsageSummary['by_model'] = {};
+  for (const group of (data || []) as UsageGroup[]) {
+    const day = days.get(group.date);
+    if (day) addToCounts(day, group);
+    addToCounts(totals, group);
+
+    const model = byModel[group.model] || (byModel[group.model] = { requests: 0, input_tokens: 0, output_tokens: 0 });
+    model.requests += Number(group.requests);
+    model.input_tokens += Number(group.input_tokens);
+    model.output_tokens += Number(group.output_tokens);
+  }
+
+  return {
+    from,
+    to,
+    days: [...days.values()],
+    totals,
+    by_model: byModel,
+    month: { start: month.start, tokens: monthTokens, budget: limits.monthlyTokens },
+  };
+}
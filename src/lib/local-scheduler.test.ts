@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { Task } from '@/types';
+import { generateLocalSchedule, estimateTaskDuration } from './local-scheduler';
+
+function task(id: string, title: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    user_id: 'user-1',
+    title,
+    priority: 'medium',
+    status: 'pending',
+    created_at: '2026-10-01T09:00:00Z',
+    ...overrides,
+  };
+}
+
+const summary = (blocks: { start_time: string; end_time: string; type: string; title: string }[]) =>
+  blocks.map(b => `${b.start_time}-${b.end_time} ${b.type} ${b.title}`);
+
+describe('generateLocalSchedule', () => {
+  const tasks = [
+    task('a', 'Write report', { estimated_duration: 60, priority: 'low' }),
+    task('b', 'Review PR', { estimated_duration: 45, priority: 'high' }),
+    task('c', 'Plan sprint', { estimated_duration: 90 }),
+    task('d', 'Email triage', { estimated_duration: 20, created_at: '2026-09-01T09:00:00Z' }),
+    task('e', 'Ship fix', { estimated_duration: 30, due_date: '2026-10-20', due_time: '11:00' }),
+  ];
+  const options = {
+    startTime: '09:00',
+    lunchStart: '12:30',
+    workHours: 7,
+    fixedEvents: [{ type: 'meeting' as const, title: 'Standup', start_time: '10:00', end_time: '10:15' }],
+  };
+
+  it('builds the same schedule for the same input', () => {
+    const first = generateLocalSchedule(tasks, [], '2026-10-20', options);
+    const second = generateLocalSchedule([...tasks].reverse(), [], '2026-10-20', options);
+    expect(second).toEqual(first);
+    expect(summary(first.blocks)).toMatchInlineSnapshot(`
+      [
+        "09:00-09:30 task Ship fix",
+        "09:30-09:50 task Email triage",
+        "10:00-10:15 meeting Standup",
+        "10:15-11:00 task Review PR",
+        "11:00-11:10 break Short break",
+        "11:10-12:10 task Write report",
+        "12:30-13:00 lunch Lunch break",
+        "13:00-14:30 task Plan sprint",
+      ]
+    `);
+  });
+
+  it('never runs a task through a meeting', () => {
+    const { blocks } = generateLocalSchedule(
+      [task('a', 'Long task', { estimated_duration: 90 }), task('b', 'Short task', { estimated_duration: 15 })],
+      [],
+      '2026-10-20',
+      { startTime: '09:00', fixedEvents: [{ type: 'meeting', title: 'Sync', start_time: '09:30', end_time: '10:00' }] }
+    );
+    expect(summary(blocks)).toEqual([
+      '09:00-09:15 task Short task',
+      '09:30-10:00 meeting Sync',
+      '10:00-11:30 task Long task',
+    ]);
+  });
+
+  it('keeps lunch at lunchStart when nothing else fits the morning', () => {
+    const { blocks } = generateLocalSchedule(
+      [task('a', 'Deep work', { estimated_duration: 120 }), task('b', 'Warm up', { estimated_duration: 30 })],
+      [],
+      '2026-10-20',
+      { startTime: '10:30', lunchStart: '12:00', breakEvery: 240 }
+    );
+    expect(summary(blocks)).toEqual([
+      '10:30-11:00 task Warm up',
+      '12:00-12:30 lunch Lunch break',
+      '12:30-14:30 task Deep work',
+    ]);
+  });
+
+  it('puts prerequisites before the tasks they block', () => {
+    const { blocks } = generateLocalSchedule(
+      [
+        task('a', 'Deploy', { estimated_duration: 30, priority: 'high', blocked_by: ['b'] }),
+        task('b', 'Test', { estimated_duration: 30, priority: 'low' }),
+      ],
+      [],
+      '2026-10-20'
+    );
+    expect(blocks.map(b => b.task_id)).toEqual(['b', 'a']);
+  });
+
+  it('leaves what does not fit the work hours unscheduled', () => {
+    const result = generateLocalSchedule(
+      [task('a', 'Big', { estimated_duration: 240 }), task('b', 'Bigger', { estimated_duration: 300 })],
+      [],
+      '2026-10-20',
+      { workHours: 5 }
+    );
+    expect(result.unscheduled.map(t => t.id)).toEqual(['b']);
+    expect(result.suggestions.at(-1)).toContain('1 task does not fit in the 5-hour day for 2026-10-20: Bigger');
+  });
+});
+
+describe('estimateTaskDuration', () => {
+  const pattern = {
+    id: 'p1',
+    user_id: 'user-1',
+    task_keywords: ['report', 'write'],
+    average_duration: 47.4,
+    completion_rate: 1,
+    times_scheduled: 3,
+    times_completed: 3,
+    updated_at: '2026-10-01T00:00:00Z',
+  };
+
+  it('prefers the explicit estimate, then the pattern, then the default', () => {
+    expect(estimateTaskDuration({ title: 'Write report', estimated_duration: 20 }, [pattern])).toBe(20);
+    expect(estimateTaskDuration({ title: 'Write report' }, [pattern])).toBe(47);
+    expect(estimateTaskDuration({ title: 'Call plumber' }, [pattern], 25)).toBe(25);
+  });
+});
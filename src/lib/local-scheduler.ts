@@ -0,0 +1,208 @@
+// src/lib/local-scheduler.ts
+//
+// Deterministic, constraint-based schedule builder. Used when the caller asks
+// for the local engine and as the fallback whenever the LLM call fails.
+// Identical inputs always produce identical blocks. Fixed events are returned
+// as-is and everything else is packed around them.
+
+import { Task, TaskPattern, ScheduleBlock } from '@/types';
+import { extractKeywordsFromTask, findMatchingPattern } from './task-patterns';
+import { timeToMinutes, minutesToTime } from './format-time';
+import { orderByDependencies, getPrerequisiteIds } from './task-dependencies';
+import { FixedEvent, getFixedIntervals, findNextFreeStart, toFixedBlock } from './fixed-events';
+
+export interface LocalScheduleOptions {
+  startTime?: string;
+  endTime?: string; // no task runs past this
+  workHours?: number;
+  lunchStart?: string;
+  lunchDuration?: number;
+  breakEvery?: number;
+  breakDuration?: number;
+  defaultDuration?: number;
+  fixedEvents?: FixedEvent[];
+}
+
+const DEFAULT_OPTIONS: Required<LocalScheduleOptions> = {
+  startTime: '09:00',
+  endTime: '23:59',
+  workHours: 6,
+  lunchStart: '12:00',
+  lunchDuration: 30,
+  breakEvery: 90,
+  breakDuration: 10,
+  defaultDuration: 30,
+  fixedEvents: [],
+};
+
+const PRIORITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+/** Explicit estimate first, then the learned pattern average, then the default */
+export function estimateTaskDuration(
+  task: Pick<Task, 'title' | 'description' | 'estimated_duration'>,
+  patterns: TaskPattern[] = [],
+  defaultDuration: number = DEFAULT_OPTIONS.defaultDuration
+): number {
+  if (task.estimated_duration && task.estimated_duration > 0) {
+    return task.estimated_duration;
+  }
+
+  const pattern = findMatchingPattern(patterns, extractKeywordsFromTask(task.title, task.description));
+  if (pattern && pattern.average_duration > 0) {
+    return Math.max(5, Math.round(pattern.average_duration));
+  }
+
+  return defaultDuration;
+}
+
+/** Priority first, then most-slipped, then oldest; id breaks any remaining tie */
+export function compareTasksForScheduling(a: Task, b: Task): number {
+  const byPriority = (PRIORITY_ORDER[a.priority] ?? 1) - (PRIORITY_ORDER[b.priority] ?? 1);
+  if (byPriority !== 0) return byPriority;
+  const bySlips = (b.rollover_count || 0) - (a.rollover_count || 0);
+  if (bySlips !== 0) return bySlips;
+  if (a.created_at !== b.created_at) return a.created_at < b.created_at ? -1 : 1;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? -1 : 1;
+}
+
+export function generateLocalSchedule(
+  tasks: Task[],
+  patterns: TaskPattern[] = [],
+  date: string,
+  options: LocalScheduleOptions = {}
+): {
+  blocks: ScheduleBlock[];
+  suggestions: string[];
+  unscheduled: Task[];
+} {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const intervals = getFixedIntervals(opts.fixedEvents);
+  // Meetings are work time too
+  const budget = opts.workHours * 60 - intervals.reduce((sum, [start, end]) => sum + (end - start), 0);
+  const lunchStart = timeToMinutes(opts.lunchStart);
+  const dayEnd = timeToMinutes(opts.endTime);
+
+  // Anything due by the end of this day goes first, earliest due time first;
+  // prerequisites always precede the tasks they block
+  const dueKey = (task: Task) =>
+    task.due_date && task.due_date <= date ? `${task.due_date} ${task.due_time || '23:59'}` : null;
+
+  const queue = orderByDependencies(tasks, (a, b) => {
+    const aDue = dueKey(a);
+    const bDue = dueKey(b);
+    if (aDue !== bDue) {
+      if (aDue === null) return 1;
+      if (bDue === null) return -1;
+      return aDue < bDue ? -1 : 1;
+    }
+    return compareTasksForScheduling(a, b);
+  }).map(task => ({
+    task,
+    duration: estimateTaskDuration(task, patterns, opts.defaultDuration),
+    prerequisites: getPrerequisiteIds(task, tasks),
+  }));
+
+  type QueueEntry = (typeof queue)[number];
+  const canPlace = (entry: QueueEntry) =>
+    used + entry.duration <= budget &&
+    findNextFreeStart(current, entry.duration, intervals) + entry.duration <= dayEnd &&
+    !entry.prerequisites.some(id => queue.some(other => other.task.id === id));
+
+  const blocks: ScheduleBlock[] = [];
+  let current = timeToMinutes(opts.startTime);
+  let used = 0;
+  let sinceBreak = 0;
+  let lunchPlaced = opts.lunchDuration <= 0;
+
+  const pushBlock = (type: ScheduleBlock['type'], title: string, duration: number, extra: Partial<ScheduleBlock> = {}) => {
+    blocks.push({
+      start_time: minutesToTime(current),
+      end_time: minutesToTime(current + duration),
+      type,
+      title,
+      estimated_duration: duration,
+      ...extra,
+    });
+    current += duration;
+  };
+
+  const placeLunch = () => {
+    pushBlock('lunch', 'Lunch break', opts.lunchDuration);
+    lunchPlaced = true;
+    sinceBreak = 0;
+  };
+
+  const fitsNow = (duration: number) => findNextFreeStart(current, duration, intervals) === current;
+  const skipPastNextFixed = () => {
+    const next = intervals.find(([, end]) => end > current);
+    current = next ? next[1] : current;
+  };
+
+  while (queue.length > 0) {
+    // Never start anything inside a meeting
+    const inside = intervals.find(([start, end]) => start <= current && current < end);
+    if (inside) {
+      current = inside[1];
+      continue;
+    }
+
+    if (!lunchPlaced && current >= lunchStart) {
+      if (fitsNow(opts.lunchDuration)) placeLunch();
+      else skipPastNextFixed();
+      continue;
+    }
+
+    let index = queue.findIndex(canPlace);
+    if (index === -1) break;
+
+    if (sinceBreak >= opts.breakEvery && fitsNow(opts.breakDuration)) {
+      pushBlock('break', 'Short break', opts.breakDuration);
+      sinceBreak = 0;
+      continue;
+    }
+
+    // Don't run a task through lunch or into a meeting if something else fills the gap
+    const fitsBeforeLunch = (entry: QueueEntry) => lunchPlaced || current + entry.duration <= lunchStart;
+    if (!fitsNow(queue[index].duration) || !fitsBeforeLunch(queue[index])) {
+      const gapFiller = queue.findIndex(entry =>
+        canPlace(entry) && fitsNow(entry.duration) && fitsBeforeLunch(entry)
+      );
+      if (gapFiller !== -1) {
+        index = gapFiller;
+      } else if (!fitsBeforeLunch(queue[index])) {
+        // Nothing fills the rest of the morning: leave it free rather than lunching early
+        current = lunchStart;
+        continue;
+      } else if (!fitsNow(queue[index].duration)) {
+        skipPastNextFixed();
+        continue;
+      }
+    }
+
+    const [{ task, duration }] = queue.splice(index, 1);
+    pushBlock('task', task.title, duration, {
+      description: task.description,
+      task_id: task.id,
+    });
+    used += duration;
+    sinceBreak += duration;
+  }
+
+  blocks.push(...opts.fixedEvents.map(toFixedBlock));
+  blocks.sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time));
+
+  const unscheduled = queue.map(entry => entry.task);
+  const suggestions: string[] = [];
+
+  if (blocks.some(b => b.type === 'task')) {
+    suggestions.push('High-priority tasks are placed first, while energy is typically highest.');
+  }
+  if (unscheduled.length > 0) {
+    suggestions.push(
+      `${unscheduled.length} ${unscheduled.length === 1 ? 'task does' : 'tasks do'} not fit in the ${opts.workHours}-hour day for ${date}: ${unscheduled.map(t => t.title).join(', ')}`
+    );
+  }
+
+  return { blocks, suggestions, unscheduled };
+}
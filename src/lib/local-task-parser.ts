@@ -0,0 +1,35 @@
+// src/lib/local-task-parser.ts
+//
+// Task parsing without a model, used when the user's LLM budget is spent and
+// by the mock provider. One task per line; priority and duration are picked
+// up from common wording, and due dates and repeats are left to the same
+// normalizers the model's output goes through.
+
+import { ParsedTaskInput } from './llm-schemas';
+
+const HIGH_PRIORITY = /\b(urgent|asap|high priority|priority|critical|important)\b|!!/i;
+const LOW_PRIORITY = /\b(low priority|low tier|someday|whenever|nice to have)\b/i;
+const DURATION = /\b(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?)\b/i;
+
+function readDuration(line: string): number | undefined {
+  const match = line.match(DURATION);
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  const minutes = match[2].toLowerCase().startsWith('h') ? amount * 60 : amount;
+  return minutes >= 1 && minutes <= 720 ? Math.round(minutes) : undefined;
+}
+
+export function parseTasksLocally(input: string): ParsedTaskInput[] {
+  return input
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)]|\[[ x]\])\s*/i, '').trim())
+    .filter(Boolean)
+    .map(title => ({
+      title,
+      estimated_duration: readDuration(title),
+      priority: LOW_PRIORITY.test(title) ? 'low' : HIGH_PRIORITY.test(title) ? 'high' : 'medium',
+      tags: [],
+      due_date: null,
+      due_time: null,
+    }));
+}
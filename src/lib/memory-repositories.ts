@@ -0,0 +1,355 @@
+// src/lib/memory-repositories.ts
+//
+// Repositories over plain arrays, for exercising rollover, pattern learning
+// and schedule saving without a database. Ordering and the replace and close
+// semantics match the Supabase implementation; row-level security doesn't
+// apply, so every row is visible to every caller.
+
+import { Task, Schedule, ScheduleItem, TaskPattern, RolloverLog } from '@/types';
+import { Repositories, NewTask, OPEN_TASK_STATUSES } from './repositories';
+import { isFixedItemType } from './fixed-events';
+
+export interface MemoryData {
+  tasks: Task[];
+  schedules: Schedule[]; // stored without items
+  scheduleItems: ScheduleItem[]; // stored without tasks
+  patterns: TaskPattern[];
+  rollovers: RolloverLog[];
+}
+
+const asArray = (ids: string | string[]) => (Array.isArray(ids) ? ids : [ids]);
+
+/** `data` is used (and changed) in place, so a caller can seed it and look at it afterwards */
+export function createMemoryRepositories(
+  data: MemoryData = { tasks: [], schedules: [], scheduleItems: [], patterns: [], rollovers: [] }
+): Repositories {
+  let nextId = 1;
+  const newId = () => `00000000-0000-4000-8000-${String(nextId++).padStart(12, '0')}`;
+  const now = () => new Date().toISOString();
+
+  const withItems = (schedule: Schedule): Schedule => ({
+    ...schedule,
+    items: data.scheduleItems
+      .filter(item => item.schedule_id === schedule.id)
+      .sort((a, b) => a.start_time.localeCompare(b.start_time))
+      .map(item => ({ ...item, task: data.tasks.find(task => task.id === item.task_id) })),
+  });
+
+  const findSchedule = (userId: string, date: string) =>
+    data.schedules.find(schedule => schedule.user_id === userId && schedule.schedule_date === date);
+
+  const inRange = (userId: string, from: string, to: string) => data.schedules
+    .filter(schedule => schedule.user_id === userId && schedule.schedule_date >= from && schedule.schedule_date <= to)
+    .sort((a, b) => a.schedule_date.localeCompare(b.schedule_date));
+
+  const upsertSchedule = (userId: string, date: string, scheduleData: Schedule['schedule_data']) => {
+    const existing = findSchedule(userId, date);
+    if (existing) return existing;
+    const schedule: Schedule = { id: newId(), user_id: userId, schedule_date: date, schedule_data: scheduleData, created_at: now() };
+    data.schedules.push(schedule);
+    return schedule;
+  };
+
+  const insertTasks = (userId: string, newTasks: NewTask[]) => {
+    const created = newTasks.map(task => ({
+      status: 'pending' as const,
+      priority: 'medium' as const,
+      ...task,
+      id: newId(),
+      user_id: userId,
+      created_at: now(),
+    }));
+    data.tasks.push(...created);
+    return created;
+  };
+
+  const insertItems = (scheduleId: string, items: Parameters<Repositories['scheduleItems']['create']>[1]) => {
+    const created = items.map(item => ({
+      completed: false,
+      ...item,
+      task_id: item.task_id ?? undefined,
+      id: newId(),
+      schedule_id: scheduleId,
+    }));
+    data.scheduleItems.push(...created);
+    return created;
+  };
+
+  const removeItems = (keep: (item: ScheduleItem) => boolean) => {
+    data.scheduleItems = data.scheduleItems.filter(keep);
+  };
+
+  return {
+    tasks: {
+      async listOpen(userId) {
+        // Same order as the database: priority as text, descending
+        return data.tasks
+          .filter(task => task.user_id === userId && OPEN_TASK_STATUSES.includes(task.status))
+          .sort((a, b) => b.priority.localeCompare(a.priority) || a.created_at.localeCompare(b.created_at));
+      },
+
+      async list(userId, filter, { limit, offset }) {
+        const search = filter.search?.toLowerCase();
+        const matching = data.tasks
+          .filter(task =>
+            task.user_id === userId &&
+            (!filter.status?.length || filter.status.includes(task.status)) &&
+            (!filter.priority?.length || filter.priority.includes(task.priority)) &&
+            (!filter.dueFrom || (!!task.due_date && task.due_date >= filter.dueFrom)) &&
+            (!filter.dueTo || (!!task.due_date && task.due_date <= filter.dueTo)) &&
+            (!search || task.title.toLowerCase().includes(search))
+          )
+          .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+        return { tasks: matching.slice(offset, offset + limit), total: matching.length };
+      },
+
+      async get(userId, id) {
+        return data.tasks.find(task => task.user_id === userId && task.id === id) || null;
+      },
+
+      async getMany(userId, ids) {
+        return data.tasks.filter(task => task.user_id === userId && ids.includes(task.id));
+      },
+
+      async create(userId, newTasks) {
+        return insertTasks(userId, newTasks);
+      },
+
+      async createOccurrences(userId, newTasks) {
+        const taken = new Set(data.tasks.map(task => `${task.template_id}/${task.scheduled_for}`));
+        const fresh = newTasks.filter(task => {
+          const key = `${task.template_id}/${task.scheduled_for}`;
+          if (taken.has(key)) return false;
+          taken.add(key);
+          return true;
+        });
+        return insertTasks(userId, fresh);
+      },
+
+      async update(userId, ids, changes) {
+        const targets = asArray(ids);
+        data.tasks = data.tasks.map(task =>
+          task.user_id === userId && targets.includes(task.id) ? { ...task, ...changes } : task
+        );
+      },
+
+      async delete(userId, id) {
+        if (!data.tasks.some(task => task.user_id === userId && task.id === id)) return;
+        data.tasks = data.tasks.filter(task => task.id !== id);
+        removeItems(item => item.task_id !== id);
+      },
+    },
+
+    schedules: {
+      async getForDate(userId, date) {
+        const schedule = findSchedule(userId, date);
+        return schedule ? withItems(schedule) : null;
+      },
+
+      async getById(userId, id) {
+        const schedule = data.schedules.find(s => s.user_id === userId && s.id === id);
+        return schedule ? withItems(schedule) : null;
+      },
+
+      async listRange(userId, from, to) {
+        return inRange(userId, from, to).map(withItems);
+      },
+
+      async listDates(userId, from, to) {
+        return inRange(userId, from, to).map(schedule => schedule.schedule_date);
+      },
+
+      async listUserIds(from, to) {
+        return [...new Set(data.schedules
+          .filter(schedule => schedule.schedule_date >= from && schedule.schedule_date <= to)
+          .map(schedule => schedule.user_id))];
+      },
+
+      async getOrCreate(userId, date, scheduleData) {
+        return withItems(upsertSchedule(userId, date, scheduleData));
+      },
+
+      async replace(userId, days) {
+        return days.map(day => {
+          const schedule = upsertSchedule(userId, day.date, day.schedule_data);
+          schedule.schedule_data = day.schedule_data;
+          removeItems(item => item.schedule_id !== schedule.id || isFixedItemType(item.item_type));
+          insertItems(schedule.id, day.items);
+          return { ...schedule };
+        });
+      },
+    },
+
+    scheduleItems: {
+      async listForSchedule(scheduleId) {
+        return data.scheduleItems
+          .filter(item => item.schedule_id === scheduleId)
+          .sort((a, b) => a.start_time.localeCompare(b.start_time));
+      },
+
+      async listForTasks(taskIds) {
+        return data.scheduleItems.filter(item => item.task_id && taskIds.includes(item.task_id));
+      },
+
+      async create(scheduleId, items) {
+        return insertItems(scheduleId, items);
+      },
+
+      async update(ids, changes) {
+        const targets = asArray(ids);
+        data.scheduleItems = data.scheduleItems.map(item => (targets.includes(item.id) ? { ...item, ...changes } : item));
+      },
+
+      async edit({ updates, added, deleted = [] }) {
+        const missing = [...updates.map(change => change.id), ...deleted].find(id => !data.scheduleItems.some(item => item.id === id));
+        if (missing) throw new Error(`Schedule item ${missing} not found`);
+
+        removeItems(item => !deleted.includes(item.id));
+        data.scheduleItems = data.scheduleItems.map(item => {
+          const change = updates.find(u => u.id === item.id);
+          return change ? { ...item, ...change, schedule_id: change.schedule_id ?? item.schedule_id } : item;
+        });
+        return added.flatMap(({ schedule_id, ...item }) => insertItems(schedule_id, [item]));
+      },
+
+      async updateForTask(taskId, changes) {
+        data.scheduleItems = data.scheduleItems.map(item => (item.task_id === taskId ? { ...item, ...changes } : item));
+      },
+
+      async delete(ids) {
+        removeItems(item => !ids.includes(item.id));
+      },
+
+      async deleteForTasks(taskIds, { incompleteOnly = false } = {}) {
+        removeItems(item => !(item.task_id && taskIds.includes(item.task_id) && (!incompleteOnly || !item.completed)));
+      },
+    },
+
+    patterns: {
+      async list(userId) {
+        return data.patterns.filter(pattern => pattern.user_id === userId);
+      },
+
+      async create(userId, pattern) {
+        const created = { ...pattern, id: newId(), user_id: userId, updated_at: now() };
+        data.patterns.push(created);
+        return created;
+      },
+
+      async update(userId, id, changes) {
+        data.patterns = data.patterns.map(pattern =>
+          pattern.user_id === userId && pattern.id === id ? { ...pattern, ...changes, updated_at: now() } : pattern
+        );
+      },
+    },
+
+    rollovers: {
+      async listClosedDates(userId, from, to) {
+        return data.rollovers
+          .filter(log => log.user_id === userId && log.from_date >= from && log.from_date <= to)
+          .map(log => log.from_date);
+      },
+
+      async list(userId, filter, { limit, offset }) {
+        const matching = data.rollovers
+          .filter(log =>
+            log.user_id === userId &&
+            (!filter.from || log.from_date >= filter.from) &&
+            (!filter.to || log.from_date <= filter.to) &&
+            (!filter.active || (!log.undone_at && !log.dismissed_at))
+          )
+          .sort((a, b) => b.from_date.localeCompare(a.from_date));
+        return { rollovers: matching.slice(offset, offset + limit), total: matching.length };
+      },
+
+      async listActive(userId, since) {
+        return data.rollovers
+          .filter(log => log.user_id === userId && log.to_date >= since && !log.undone_at && !log.dismissed_at)
+          .sort((a, b) => a.from_date.localeCompare(b.from_date));
+      },
+
+      async get(userId, id) {
+        return data.rollovers.find(log => log.user_id === userId && log.id === id) || null;
+      },
+
+      async update(userId, id, changes) {
+        const log = data.rollovers.find(l => l.user_id === userId && l.id === id);
+        if (!log) return null;
+        Object.assign(log, changes);
+        return { ...log };
+      },
+
+      async close(userId, rollover) {
+        if (data.rollovers.some(log => log.user_id === userId && log.from_date === rollover.from_date)) return null;
+
+        let itemIds: string[] = [];
+        if (rollover.tasks.length > 0) {
+          const schedule = upsertSchedule(userId, rollover.to_date, rollover.schedule_data);
+          for (const moved of rollover.moved) {
+            const item = data.scheduleItems.find(i => i.id === moved.id && i.schedule_id === schedule.id);
+            if (item) Object.assign(item, { start_time: moved.start_time, end_time: moved.end_time });
+          }
+          itemIds = insertItems(schedule.id, rollover.added).map(item => item.id);
+
+          for (const change of rollover.tasks) {
+            const task = data.tasks.find(t => t.user_id === userId && t.id === change.id);
+            if (!task) continue;
+            Object.assign(task, {
+              status: change.status,
+              rollover_count: change.rollover_count,
+              first_scheduled_date: change.first_scheduled_date,
+              priority: change.priority ?? task.priority,
+              needs_decision: change.needs_decision ?? task.needs_decision,
+            });
+          }
+        }
+
+        const log: RolloverLog = {
+          id: newId(),
+          user_id: userId,
+          from_date: rollover.from_date,
+          to_date: rollover.to_date,
+          task_ids: rollover.tasks.map(task => task.id),
+          task_titles: rollover.tasks.map(task => task.title),
+          item_ids: itemIds,
+          escalations: rollover.escalations,
+          moved_items: rollover.moved.map(moved => ({
+            id: moved.id,
+            start_time: moved.previous_start_time,
+            end_time: moved.previous_end_time,
+          })),
+          created_at: now(),
+          dismissed_at: null,
+          undone_at: null,
+        };
+        data.rollovers.push(log);
+        return { ...log };
+      },
+
+      async undo(userId, id) {
+        const log = data.rollovers.find(l => l.user_id === userId && l.id === id && !l.undone_at);
+        if (!log) return null;
+        log.undone_at = now();
+
+        removeItems(item => !log.item_ids.includes(item.id));
+        for (const moved of log.moved_items) {
+          const item = data.scheduleItems.find(i => i.id === moved.id);
+          if (item) Object.assign(item, { start_time: moved.start_time, end_time: moved.end_time });
+        }
+
+        for (const task of data.tasks.filter(t => t.user_id === userId && log.task_ids.includes(t.id))) {
+          const count = Math.max(0, (task.rollover_count || 0) - 1);
+          const escalation = (log.escalations || []).find(e => e.task_id === task.id);
+          Object.assign(task, {
+            status: task.status === 'rolled_over' ? 'scheduled' : task.status,
+            rollover_count: count,
+            first_scheduled_date: count === 0 ? null : task.first_scheduled_date,
+            ...(escalation?.action === 'bump_priority' ? { priority: escalation.previous_priority } : {}),
+            ...(escalation?.action === 'decide' ? { needs_decision: false } : {}),
+          });
+        }
+        return { ...log };
+      },
+    },
+  };
+}
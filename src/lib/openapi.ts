@@ -0,0 +1,196 @@
+// src/lib/openapi.ts
+//
+// The OpenAPI document for /api/v1, built from the same schema objects the
+// routes validate and shape with, so the two can't drift apart. Adding a v1
+// route means adding its entry to OPERATIONS.
+
+import { TokenScope } from '@/types';
+import { Schema, ObjectSchema } from './api-schema';
+import {
+  ErrorSchema, PaginationSchema, single, listOf,
+  TaskSchema, TaskCreateSchema, TaskUpdateSchema, TaskListQuery,
+  ScheduleSchema, ScheduleItemSchema, ScheduleListQuery, DateParams, IdParams, ItemParams,
+  ScheduleItemCreateSchema, ScheduleItemUpdateSchema, ScheduleItemOrderSchema, ScheduleItemMoveSchema,
+  ScheduleItemSplitSchema, ScheduleItemChangeSchema,
+  PatternSchema, PageQuery,
+  RolloverSchema, RolloverRunSchema, RolloverListQuery, RolloverUpdateSchema,
+} from './api-v1-schemas';
+
+interface Operation {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+  path: string;
+  summary: string;
+  tag: string;
+  scope: TokenScope;
+  params?: ObjectSchema;
+  query?: ObjectSchema;
+  body?: ObjectSchema;
+  response: Schema;
+  status?: number;
+  conflict?: string; // when the operation can answer 409
+}
+
+const OPERATIONS: Operation[] = [
+  { method: 'get', path: '/tasks', tag: 'Tasks', summary: 'List tasks', scope: 'tasks:read', query: TaskListQuery, response: listOf(TaskSchema) },
+  { method: 'post', path: '/tasks', tag: 'Tasks', summary: 'Create a task', scope: 'tasks:write', body: TaskCreateSchema, response: single(TaskSchema), status: 201 },
+  { method: 'get', path: '/tasks/{id}', tag: 'Tasks', summary: 'Get a task', scope: 'tasks:read', params: IdParams, response: single(TaskSchema) },
+  {
+    method: 'patch', path: '/tasks/{id}', tag: 'Tasks', summary: 'Update a task', scope: 'tasks:write',
+    params: IdParams, body: TaskUpdateSchema, response: single(TaskSchema), conflict: 'The new prerequisites would form a cycle',
+  },
+  { method: 'delete', path: '/tasks/{id}', tag: 'Tasks', summary: 'Delete a task and its schedule items', scope: 'tasks:write', params: IdParams, response: single(TaskSchema) },
+
+  { method: 'get', path: '/schedules', tag: 'Schedules', summary: 'List schedules in a date range', scope: 'tasks:read', query: ScheduleListQuery, response: listOf(ScheduleSchema) },
+  { method: 'get', path: '/schedules/{date}', tag: 'Schedules', summary: "Get a day's schedule", scope: 'tasks:read', params: DateParams, response: single(ScheduleSchema) },
+  { method: 'get', path: '/schedules/{date}/items', tag: 'Schedules', summary: "List a day's schedule items", scope: 'tasks:read', params: DateParams, response: listOf(ScheduleItemSchema) },
+  {
+    method: 'post', path: '/schedules/{date}/items', tag: 'Schedule items', summary: 'Add a schedule item', scope: 'tasks:write',
+    params: DateParams, body: ScheduleItemCreateSchema, response: single(ScheduleItemChangeSchema), status: 201,
+    conflict: 'The item would overlap a meeting or event, the day is full, or the task is already scheduled',
+  },
+  {
+    method: 'put', path: '/schedules/{date}/items/order', tag: 'Schedule items', summary: "Reorder a day's items", scope: 'tasks:write',
+    params: DateParams, body: ScheduleItemOrderSchema, response: single(ScheduleItemChangeSchema), conflict: 'The day would be full',
+  },
+  {
+    method: 'patch', path: '/schedules/{date}/items/{id}', tag: 'Schedule items', summary: 'Update a schedule item', scope: 'tasks:write',
+    params: ItemParams, body: ScheduleItemUpdateSchema, response: single(ScheduleItemChangeSchema),
+    conflict: 'The item would overlap a meeting or event, or the day would be full',
+  },
+  { method: 'delete', path: '/schedules/{date}/items/{id}', tag: 'Schedule items', summary: 'Delete a schedule item', scope: 'tasks:write', params: ItemParams, response: single(ScheduleItemChangeSchema) },
+  {
+    method: 'post', path: '/schedules/{date}/items/{id}/move', tag: 'Schedule items', summary: 'Move a schedule item to another day or place', scope: 'tasks:write',
+    params: ItemParams, body: ScheduleItemMoveSchema, response: single(ScheduleItemChangeSchema),
+    conflict: 'Meetings and events are pinned, or the target day is full',
+  },
+  {
+    method: 'post', path: '/schedules/{date}/items/{id}/split', tag: 'Schedule items', summary: 'Split a schedule item in two', scope: 'tasks:write',
+    params: ItemParams, body: ScheduleItemSplitSchema, response: single(ScheduleItemChangeSchema), status: 201,
+    conflict: "Meetings and events can't be split",
+  },
+
+  { method: 'get', path: '/patterns', tag: 'Patterns', summary: 'List learned duration patterns', scope: 'tasks:read', query: PageQuery, response: listOf(PatternSchema) },
+
+  { method: 'get', path: '/rollovers', tag: 'Rollovers', summary: 'List rollovers', scope: 'tasks:read', query: RolloverListQuery, response: listOf(RolloverSchema) },
+  { method: 'post', path: '/rollovers', tag: 'Rollovers', summary: 'Close any ended days now', scope: 'tasks:write', response: single(RolloverRunSchema) },
+  { method: 'patch', path: '/rollovers/{id}', tag: 'Rollovers', summary: 'Dismiss a rollover notice', scope: 'tasks:write', params: IdParams, body: RolloverUpdateSchema, response: single(RolloverSchema) },
+  { method: 'delete', path: '/rollovers/{id}', tag: 'Rollovers', summary: 'Undo a rollover', scope: 'tasks:write', params: IdParams, response: single(RolloverSchema) },
+];
+
+// Printed once under components and referenced everywhere else
+const COMPONENTS: Record<string, Schema> = {
+  Task: TaskSchema,
+  TaskCreate: TaskCreateSchema,
+  TaskUpdate: TaskUpdateSchema,
+  Schedule: ScheduleSchema,
+  ScheduleItem: ScheduleItemSchema,
+  ScheduleItemCreate: ScheduleItemCreateSchema,
+  ScheduleItemUpdate: ScheduleItemUpdateSchema,
+  ScheduleItemChange: ScheduleItemChangeSchema,
+  Pattern: PatternSchema,
+  Rollover: RolloverSchema,
+  RolloverRun: RolloverRunSchema,
+  RolloverUpdate: RolloverUpdateSchema,
+  Pagination: PaginationSchema,
+  Error: ErrorSchema,
+};
+
+const componentNames = new Map<Schema, string>(Object.entries(COMPONENTS).map(([name, schema]) => [schema, name]));
+
+/** `schema` as OpenAPI 3.1 JSON Schema: named schemas become $refs and allowNull becomes a `[type, 'null']` union */
+function toJsonSchema(schema: Schema, inline: boolean = false): Record<string, unknown> {
+  const name = componentNames.get(schema);
+  if (name && !inline) return { $ref: `#/components/schemas/${name}` };
+
+  const { allowNull, ...rest } = schema;
+  const result: Record<string, unknown> = { ...rest };
+  if (allowNull) {
+    result.type = [schema.type, 'null'];
+    if (schema.type === 'string' && schema.enum) result.enum = [...schema.enum, null];
+  }
+
+  if (schema.type === 'array') result.items = toJsonSchema(schema.items);
+  if (schema.type === 'object') {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [key, toJsonSchema(property)])
+    );
+  }
+  return result;
+}
+
+function toParameters(schema: ObjectSchema | undefined, location: 'path' | 'query') {
+  if (!schema) return [];
+  return Object.entries(schema.properties).map(([name, property]) => {
+    const { description, ...rest } = property;
+    const parameter: Record<string, unknown> = {
+      name,
+      in: location,
+      required: location === 'path' || (schema.required || []).includes(name),
+      schema: toJsonSchema(rest as Schema),
+    };
+    if (description) parameter.description = description;
+    if (location === 'query' && property.type === 'array') {
+      parameter.style = 'form';
+      parameter.explode = true;
+    }
+    return parameter;
+  });
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: toJsonSchema(ErrorSchema) } },
+});
+
+function toOperation(operation: Operation) {
+  const responses: Record<string, unknown> = {
+    [String(operation.status ?? 200)]: {
+      description: operation.summary,
+      content: { 'application/json': { schema: toJsonSchema(operation.response) } },
+    },
+    400: errorResponse('The request, path or query is invalid; details names each problem'),
+    401: errorResponse('No valid session or token'),
+    403: errorResponse(`The token lacks the ${operation.scope} scope`),
+  };
+  if (operation.params) responses[404] = errorResponse('Not found');
+  if (operation.conflict) responses[409] = errorResponse(operation.conflict);
+  responses[500] = errorResponse('Something went wrong on our side');
+
+  return {
+    summary: operation.summary,
+    tags: [operation.tag],
+    description: `Token scope: \`${operation.scope}\``,
+    parameters: [...toParameters(operation.params, 'path'), ...toParameters(operation.query, 'query')],
+    ...(operation.body
+      ? { requestBody: { required: true, content: { 'application/json': { schema: toJsonSchema(operation.body) } } } }
+      : {}),
+    responses,
+  };
+}
+
+export function buildOpenApiDocument(serverUrl: string = '/api/v1') {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: toOperation(operation) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'TaskFlow API',
+      version: '1.0.0',
+      description:
+        'Authenticate with `Authorization: Bearer <token>`: a personal access token from Settings, ' +
+        'or a Supabase session token. Lists take limit and offset and return pagination with the total.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+      schemas: Object.fromEntries(
+        Object.entries(COMPONENTS).map(([name, schema]) => [name, toJsonSchema(schema, true)])
+      ),
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { parseRRule, formatRRule, getOccurrencesBetween, occursOn, RecurrenceRule } from './recurrence';
+
+const rule = (value: string): RecurrenceRule => {
+  const parsed = parseRRule(value);
+  if (!parsed) throw new Error(`Bad rule ${value}`);
+  return parsed;
+};
+
+// 2026-10-19 is a Monday
+
+describe('parseRRule', () => {
+  it('reads frequency, interval, ordinals and a date-time UNTIL', () => {
+    expect(parseRRule('RRULE:freq=monthly;INTERVAL=2;BYDAY=-1FR,2TU;UNTIL=20261231T235959Z')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      until: '2026-12-31',
+      byDay: [{ weekday: 5, ordinal: -1 }, { weekday: 2, ordinal: 2 }],
+      byMonthDay: [],
+    });
+  });
+
+  it('drops parts it cannot use', () => {
+    expect(parseRRule('FREQ=WEEKLY;INTERVAL=0;COUNT=x;BYDAY=MO,XX;BYMONTHDAY=0,32,-1')).toEqual({
+      freq: 'WEEKLY',
+      interval: 1,
+      byDay: [{ weekday: 1 }],
+      byMonthDay: [-1],
+    });
+  });
+
+  it('rejects a missing or unsupported frequency', () => {
+    expect(parseRRule('BYDAY=MO')).toBeNull();
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+  });
+
+  it('round-trips through formatRRule', () => {
+    const value = 'FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;COUNT=6';
+    expect(formatRRule(rule(value))).toBe(value);
+    expect(formatRRule(rule('FREQ=DAILY;UNTIL=20261031'))).toBe('FREQ=DAILY;UNTIL=20261031');
+  });
+});
+
+describe('getOccurrencesBetween', () => {
+  it('repeats weekly rules on their weekdays every interval weeks', () => {
+    expect(getOccurrencesBetween(rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE'), '2026-10-19', '2026-10-19', '2026-11-15'))
+      .toEqual(['2026-10-19', '2026-10-21', '2026-11-02', '2026-11-04']);
+  });
+
+  it('repeats a weekly rule without BYDAY on the start weekday', () => {
+    expect(getOccurrencesBetween(rule('FREQ=WEEKLY'), '2026-10-21', '2026-10-01', '2026-11-05'))
+      .toEqual(['2026-10-21', '2026-10-28', '2026-11-04']);
+  });
+
+  it('finds ordinal weekdays in each month', () => {
+    expect(getOccurrencesBetween(rule('FREQ=MONTHLY;BYDAY=-1FR'), '2026-10-01', '2026-10-01', '2026-12-31'))
+      .toEqual(['2026-10-30', '2026-11-27', '2026-12-25']);
+    expect(getOccurrencesBetween(rule('FREQ=MONTHLY;BYDAY=2TU'), '2026-10-01', '2026-10-01', '2026-11-30'))
+      .toEqual(['2026-10-13', '2026-11-10']);
+  });
+
+  it('counts negative month days from the end of each month', () => {
+    expect(getOccurrencesBetween(rule('FREQ=MONTHLY;BYMONTHDAY=-1'), '2027-01-01', '2027-01-01', '2027-03-31'))
+      .toEqual(['2027-01-31', '2027-02-28', '2027-03-31']);
+  });
+
+  it('skips months and years that lack the start day', () => {
+    expect(getOccurrencesBetween(rule('FREQ=MONTHLY'), '2026-01-31', '2026-01-01', '2026-05-31'))
+      .toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+    expect(getOccurrencesBetween(rule('FREQ=YEARLY'), '2024-02-29', '2024-01-01', '2028-12-31'))
+      .toEqual(['2024-02-29', '2028-02-29']);
+  });
+
+  it('uses up COUNT from the start, before the requested range', () => {
+    expect(getOccurrencesBetween(rule('FREQ=DAILY;INTERVAL=2;COUNT=5'), '2026-10-01', '2026-10-05', '2026-10-31'))
+      .toEqual(['2026-10-05', '2026-10-07', '2026-10-09']);
+  });
+
+  it('includes the UNTIL date and nothing before the start', () => {
+    expect(getOccurrencesBetween(rule('FREQ=DAILY;UNTIL=20261003'), '2026-10-01', '2026-09-01', '2026-10-31'))
+      .toEqual(['2026-10-01', '2026-10-02', '2026-10-03']);
+  });
+});
+
+describe('occursOn', () => {
+  it('checks a single date against the rule', () => {
+    const weekdays = rule('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR');
+    expect(occursOn(weekdays, '2026-10-19', '2026-10-23')).toBe(true);
+    expect(occursOn(weekdays, '2026-10-19', '2026-10-24')).toBe(false);
+    expect(occursOn(weekdays, '2026-10-19', '2026-10-16')).toBe(false);
+  });
+});
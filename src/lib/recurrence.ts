@@ -0,0 +1,183 @@
+// src/lib/recurrence.ts
+//
+// The subset of RFC 5545 RRULE we support: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY),
+// INTERVAL, COUNT, UNTIL, BYDAY (with ordinals for monthly rules) and
+// BYMONTHDAY. Everything works on calendar dates (yyyy-MM-dd); time of day is
+// the caller's business.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  weekday: number; // 0 = Sunday, like Date#getDay
+  ordinal?: number; // 2 = second, -1 = last in the month
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: string; // yyyy-MM-dd, inclusive
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Guards against runaway expansion of rules that started decades ago
+const MAX_DAYS_SCANNED = 366 * 30;
+
+/** Parse "FREQ=WEEKLY;BYDAY=MO,WE" (an optional "RRULE:" prefix is allowed) */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const parts = new Map(
+    value
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map(part => part.split('=') as [string, string])
+      .filter(([key, val]) => key && val)
+      .map(([key, val]) => [key.trim().toUpperCase(), val.trim().toUpperCase()])
+  );
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+
+  const byDay = (parts.get('BYDAY') || '')
+    .split(',')
+    .map(code => code.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map(m => ({
+      weekday: WEEKDAY_CODES.indexOf(m[2]),
+      ...(m[1] ? { ordinal: parseInt(m[1], 10) } : {}),
+    }));
+
+  const byMonthDay = (parts.get('BYMONTHDAY') || '')
+    .split(',')
+    .map(day => parseInt(day, 10))
+    .filter(day => !isNaN(day) && day !== 0 && Math.abs(day) <= 31);
+
+  const interval = parseInt(parts.get('INTERVAL') || '1', 10);
+  const count = parseInt(parts.get('COUNT') || '', 10);
+  const until = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+
+  return {
+    freq,
+    interval: interval > 0 ? interval : 1,
+    ...(count > 0 ? { count } : {}),
+    ...(until ? { until: `${until[1]}-${until[2]}-${until[3]}` } : {}),
+    byDay,
+    byMonthDay,
+  };
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+function toDayNumber(date: string): number {
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / 86400000;
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * 86400000).toISOString().slice(0, 10);
+}
+
+function getWeekday(day: number): number {
+  return (day + 4) % 7; // 1970-01-01 was a Thursday
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function matchesWeekdayRule(rule: WeekdayRule, year: number, month: number, dayOfMonth: number, weekday: number): boolean {
+  if (rule.weekday !== weekday) return false;
+  if (!rule.ordinal) return true;
+  if (rule.ordinal > 0) return Math.ceil(dayOfMonth / 7) === rule.ordinal;
+  return Math.floor((daysInMonth(year, month) - dayOfMonth) / 7) + 1 === -rule.ordinal;
+}
+
+function matchesMonthDay(monthDay: number, year: number, month: number, dayOfMonth: number): boolean {
+  return monthDay > 0
+    ? monthDay === dayOfMonth
+    : daysInMonth(year, month) + monthDay + 1 === dayOfMonth;
+}
+
+function occursOnDay(rule: RecurrenceRule, startDay: number, day: number): boolean {
+  if (day < startDay) return false;
+
+  const [year, month, dayOfMonth] = fromDayNumber(day).split('-').map(Number);
+  const [startYear, startMonth, startDayOfMonth] = fromDayNumber(startDay).split('-').map(Number);
+  const weekday = getWeekday(day);
+
+  const inWeekdays = (allowOrdinals: boolean) =>
+    rule.byDay.some(d => allowOrdinals
+      ? matchesWeekdayRule(d, year, month, dayOfMonth, weekday)
+      : d.weekday === weekday);
+  const inMonthDays = () => rule.byMonthDay.some(md => matchesMonthDay(md, year, month, dayOfMonth));
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return (day - startDay) % rule.interval === 0
+        && (rule.byDay.length === 0 || inWeekdays(false))
+        && (rule.byMonthDay.length === 0 || inMonthDays());
+
+    case 'WEEKLY': {
+      // Weeks start on Monday (RRULE's default WKST)
+      const weekStart = (d: number) => d - ((getWeekday(d) + 6) % 7);
+      if (((weekStart(day) - weekStart(startDay)) / 7) % rule.interval !== 0) return false;
+      return rule.byDay.length > 0 ? inWeekdays(false) : weekday === getWeekday(startDay);
+    }
+
+    case 'MONTHLY': {
+      const months = (year - startYear) * 12 + (month - startMonth);
+      if (months % rule.interval !== 0) return false;
+      if (rule.byDay.length > 0) return inWeekdays(true) && (rule.byMonthDay.length === 0 || inMonthDays());
+      if (rule.byMonthDay.length > 0) return inMonthDays();
+      return dayOfMonth === startDayOfMonth;
+    }
+
+    case 'YEARLY': {
+      if ((year - startYear) % rule.interval !== 0 || month !== startMonth) return false;
+      if (rule.byDay.length > 0) return inWeekdays(true);
+      if (rule.byMonthDay.length > 0) return inMonthDays();
+      return dayOfMonth === startDayOfMonth;
+    }
+  }
+}
+
+/**
+ * Dates in [from, to] on which a rule anchored at `start` occurs. COUNT is
+ * honoured from `start`, so occurrences before `from` still use it up.
+ */
+export function getOccurrencesBetween(rule: RecurrenceRule, start: string, from: string, to: string): string[] {
+  const startDay = toDayNumber(start);
+  const fromDay = Math.max(toDayNumber(from), startDay);
+  const untilDay = rule.until ? toDayNumber(rule.until) : Infinity;
+  const lastDay = Math.min(toDayNumber(to), untilDay, startDay + MAX_DAYS_SCANNED);
+
+  const occurrences: string[] = [];
+  let seen = 0;
+
+  // With COUNT we have to walk from the start; otherwise jump straight to `from`
+  for (let day = rule.count ? startDay : fromDay; day <= lastDay; day++) {
+    if (!occursOnDay(rule, startDay, day)) continue;
+    seen++;
+    if (rule.count && seen > rule.count) break;
+    if (day >= fromDay) occurrences.push(fromDayNumber(day));
+  }
+
+  return occurrences;
+}
+
+export function occursOn(rule: RecurrenceRule, start: string, date: string): boolean {
+  return getOccurrencesBetween(rule, start, date, date).length > 0;
+}
@@ -0,0 +1,199 @@
+// src/lib/recurring-tasks.ts
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { addDays, format, parseISO } from 'date-fns';
+import { Task, TaskTemplate } from '@/types';
+import { RecurrenceRule, parseRRule, formatRRule, getOccurrencesBetween } from './recurrence';
+import { createSupabaseRepositories } from './repositories';
+
+const DAY_WORD = '(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)s?';
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4, last: -1,
+};
+const WORKWEEK = [1, 2, 3, 4, 5].map(weekday => ({ weekday }));
+
+function toWeekday(word: string): number {
+  return ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'].indexOf(word.slice(0, 3).toLowerCase());
+}
+
+function rule(freq: RecurrenceRule['freq'], extra: Partial<RecurrenceRule> = {}): RecurrenceRule {
+  return { freq, interval: 1, byDay: [], byMonthDay: [], ...extra };
+}
+
+/**
+ * Recognise a repeat phrase ("every Tuesday", "daily", "weekdays",
+ * "every other Mon and Thu", "first Monday of the month"). Returns the rule
+ * and the exact phrase matched, or null for one-off tasks.
+ */
+export function parseRecurrenceFromText(text: string): { rule: RecurrenceRule; phrase: string } | null {
+  const nthWeekday = text.match(new RegExp(
+    `\\b(?:(?:every|each|on the)\\s+)?(first|1st|second|2nd|third|3rd|fourth|4th|last)\\s+(${DAY_WORD})\\s+of\\s+(?:the|every|each)\\s+month\\b`, 'i'
+  )) || text.match(new RegExp(
+    `\\b(?:every|each)\\s+(first|1st|second|2nd|third|3rd|fourth|4th|last)\\s+(${DAY_WORD})\\b`, 'i'
+  ));
+  if (nthWeekday) {
+    return {
+      rule: rule('MONTHLY', { byDay: [{ weekday: toWeekday(nthWeekday[2]), ordinal: ORDINALS[nthWeekday[1].toLowerCase()] }] }),
+      phrase: nthWeekday[0],
+    };
+  }
+
+  const workdays = text.match(/\b(?:(?:every|each)\s+(?:weekday|work\s?day|business\s+day)|(?:on\s+)?weekdays)\b/i);
+  if (workdays) {
+    return { rule: rule('WEEKLY', { byDay: WORKWEEK }), phrase: workdays[0] };
+  }
+
+  const daily = text.match(/\b(?:(?:every|each)\s+day|daily)\b/i);
+  if (daily) {
+    return { rule: rule('DAILY'), phrase: daily[0] };
+  }
+
+  const weekdays = text.match(new RegExp(
+    `\\b(?:every|each|weekly on)\\s+(other\\s+)?(${DAY_WORD}(?:\\s*(?:,|and|&|/)\\s*${DAY_WORD})*)\\b`, 'i'
+  ));
+  if (weekdays) {
+    const days = weekdays[2].match(new RegExp(DAY_WORD, 'gi')) || [];
+    return {
+      rule: rule('WEEKLY', {
+        interval: weekdays[1] ? 2 : 1,
+        byDay: [...new Set(days.map(toWeekday))].sort().map(weekday => ({ weekday })),
+      }),
+      phrase: weekdays[0],
+    };
+  }
+
+  const biweekly = text.match(/\b(?:every\s+other\s+week|biweekly|fortnightly)\b/i);
+  if (biweekly) {
+    return { rule: rule('WEEKLY', { interval: 2 }), phrase: biweekly[0] };
+  }
+
+  const weekly = text.match(/\b(?:every\s+week|weekly)\b/i);
+  if (weekly) {
+    return { rule: rule('WEEKLY'), phrase: weekly[0] };
+  }
+
+  const monthly = text.match(/\b(?:every\s+month|monthly)\b/i);
+  if (monthly) {
+    return { rule: rule('MONTHLY'), phrase: monthly[0] };
+  }
+
+  return null;
+}
+
+/** "Every Monday: weekly report" -> "weekly report" */
+export function stripRecurrencePhrase(title: string, phrase: string): string {
+  const stripped = title
+    .replace(phrase, ' ')
+    .replace(/^[\s:,;\-–—]+|[\s:,;\-–—]+$/g, '')
+    .replace(/\s{2,}/g, ' ');
+  return stripped || title;
+}
+
+/**
+ * Look for a repeat phrase on a parsed task. `recurrence` is the phrase the
+ * model picked out (null meaning "one-off"); only when the model left the
+ * field out entirely are the title and description scanned.
+ */
+export function withRecurrence<T extends { title: string; description?: string; recurrence?: string | null }>(
+  task: T
+): Omit<T, 'recurrence'> & { rrule: string | null } {
+  const { recurrence, ...rest } = task;
+  const found = recurrence !== undefined
+    ? (recurrence ? parseRecurrenceFromText(recurrence) : null)
+    : parseRecurrenceFromText(task.title) || (task.description ? parseRecurrenceFromText(task.description) : null);
+
+  if (!found) return { ...rest, rrule: null };
+
+  return {
+    ...rest,
+    title: stripRecurrencePhrase(task.title, recurrence && task.title.includes(recurrence) ? recurrence : found.phrase),
+    rrule: formatRRule(found.rule),
+  };
+}
+
+/** Row for task_templates from a parsed task that repeats */
+export function buildTemplateFromTask(
+  task: Pick<TaskTemplate, 'title' | 'rrule'> & Partial<Pick<TaskTemplate, 'description' | 'estimated_duration' | 'priority' | 'tags'>>,
+  userId: string,
+  startsOn: string
+): Omit<TaskTemplate, 'id' | 'created_at'> {
+  return {
+    user_id: userId,
+    title: task.title,
+    description: task.description || undefined,
+    estimated_duration: task.estimated_duration || undefined,
+    priority: task.priority || 'medium',
+    tags: task.tags || [],
+    rrule: task.rrule,
+    starts_on: startsOn,
+    active: true,
+    generated_through: null,
+  };
+}
+
+export function getTemplateOccurrences(template: Pick<TaskTemplate, 'rrule' | 'starts_on'>, from: string, to: string): string[] {
+  const parsed = parseRRule(template.rrule);
+  return parsed ? getOccurrencesBetween(parsed, template.starts_on, from, to) : [];
+}
+
+/**
+ * Task rows for every occurrence in [from, to] that hasn't been generated yet.
+ * Dates up to `generated_through` are skipped, so deleting a generated task
+ * doesn't make it come back.
+ */
+export function buildTasksFromTemplates(
+  templates: TaskTemplate[],
+  from: string,
+  to: string
+): Omit<Task, 'id' | 'created_at'>[] {
+  return templates.filter(t => t.active).flatMap(template => {
+    const start = template.generated_through && template.generated_through >= from
+      ? format(addDays(parseISO(template.generated_through), 1), 'yyyy-MM-dd')
+      : from;
+
+    return getTemplateOccurrences(template, start, to).map(date => ({
+      user_id: template.user_id,
+      title: template.title,
+      description: template.description,
+      estimated_duration: template.estimated_duration,
+      priority: template.priority,
+      tags: template.tags || [],
+      template_id: template.id,
+      scheduled_for: date,
+      status: 'pending' as const,
+    }));
+  });
+}
+
+/** Create the Task rows for the user's recurring templates in [from, to] */
+export async function materializeRecurringTasks(
+  supabase: SupabaseClient,
+  userId: string,
+  from: string,
+  to: string
+): Promise<Task[]> {
+  const { data: templates, error: templatesError } = await supabase
+    .from('task_templates')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('active', true);
+
+  if (templatesError) throw templatesError;
+
+  const pending = (templates || []).filter(t => !t.generated_through || t.generated_through < to);
+  if (pending.length === 0) return [];
+
+  // Another tab may be generating the same week: occurrences it already
+  // created are skipped by the database, not duplicated
+  const { tasks } = createSupabaseRepositories(supabase);
+  const created = await tasks.createOccurrences(userId, buildTasksFromTemplates(pending, from, to));
+
+  const { error: updateError } = await supabase
+    .from('task_templates')
+    .update({ generated_through: to })
+    .in('id', pending.map(t => t.id));
+
+  if (updateError) throw updateError;
+
+  return created;
+}
@@ -0,0 +1,572 @@
+// src/lib/repositories.ts
+//
+// Typed access to tasks, schedules, schedule items, patterns and rollovers.
+// Everything that reads or writes those tables goes through a Repositories
+// object: createSupabaseRepositories for the real thing (with whichever client
+// the caller is authenticated as — RLS still applies), or
+// createMemoryRepositories (memory-repositories.ts) to run the same logic
+// without a database.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Task, Schedule, ScheduleItem, TaskPattern, RolloverLog, RolloverEscalation } from '@/types';
+
+// Statuses of tasks that still need a slot; the task list shows all of them
+export const OPEN_TASK_STATUSES: Task['status'][] = ['pending', 'rolled_over', 'scheduled'];
+
+export type NewTask = Pick<Task, 'title'> & Partial<Omit<Task, 'id' | 'user_id' | 'title' | 'created_at'>>;
+
+export type NewScheduleItem = Pick<ScheduleItem, 'start_time' | 'end_time' | 'item_type' | 'title'> & {
+  task_id?: string | null;
+  completed?: boolean;
+  external_uid?: string | null;
+  external_calendar?: string | null;
+};
+
+export type ScheduleItemChanges = Partial<Omit<ScheduleItem, 'id' | 'task'>>;
+
+export type NewTaskPattern = Omit<TaskPattern, 'id' | 'user_id' | 'updated_at'>;
+
+export interface TaskFilter {
+  status?: Task['status'][];
+  priority?: Task['priority'][];
+  dueFrom?: string; // yyyy-MM-dd, inclusive
+  dueTo?: string;
+  search?: string; // case-insensitive, in the title
+}
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export interface ScheduleWrite {
+  date: string;
+  schedule_data: Schedule['schedule_data'];
+  items: NewScheduleItem[];
+}
+
+// Existing items re-timed (a new schedule_id moves one to another day, a title,
+// completed or external_calendar changes it too), new items and deleted ones,
+// written together
+export interface ScheduleItemEdit {
+  updates: (Pick<ScheduleItem, 'id' | 'start_time' | 'end_time'> &
+    Partial<Pick<ScheduleItem, 'schedule_id' | 'title' | 'completed' | 'external_calendar'>>)[];
+  added: (NewScheduleItem & { schedule_id: string })[];
+  deleted?: string[];
+}
+
+// A target-day item the rollover pushes later, with the times undo restores
+export type MovedScheduleItem = Pick<ScheduleItem, 'id' | 'start_time' | 'end_time'> & {
+  previous_start_time: string;
+  previous_end_time: string;
+};
+
+export interface RolloverWrite {
+  from_date: string;
+  to_date: string;
+  schedule_data: Schedule['schedule_data']; // for to_date when it has no schedule yet
+  tasks: (Pick<Task, 'id' | 'title'> & Partial<Task>)[]; // each rolled-over task with its new fields
+  moved: MovedScheduleItem[];
+  added: NewScheduleItem[];
+  escalations: RolloverEscalation[];
+}
+
+export interface RolloverFilter {
+  from?: string; // from_date, inclusive
+  to?: string;
+  active?: boolean; // leave out undone and dismissed ones
+}
+
+export interface TaskRepository {
+  /** Open tasks, highest priority first, then oldest first */
+  listOpen(userId: string): Promise<Task[]>;
+  /** One page of the tasks matching `filter`, oldest first, and how many match in all */
+  list(userId: string, filter: TaskFilter, page: Page): Promise<{ tasks: Task[]; total: number }>;
+  get(userId: string, id: string): Promise<Task | null>;
+  getMany(userId: string, ids: string[]): Promise<Task[]>;
+  create(userId: string, tasks: NewTask[]): Promise<Task[]>;
+  /**
+   * Create recurring occurrences, skipping any template and date that already
+   * has a task, and return only the new ones. Safe to run from two places at once.
+   */
+  createOccurrences(userId: string, tasks: NewTask[]): Promise<Task[]>;
+  update(userId: string, ids: string | string[], changes: Partial<Omit<Task, 'id' | 'user_id'>>): Promise<void>;
+  delete(userId: string, id: string): Promise<void>;
+}
+
+export interface ScheduleRepository {
+  /** The day's schedule with its items (and their tasks) in start-time order */
+  getForDate(userId: string, date: string): Promise<Schedule | null>;
+  getById(userId: string, id: string): Promise<Schedule | null>;
+  /** Schedules from `from` to `to` in date order, with items and tasks */
+  listRange(userId: string, from: string, to: string): Promise<Schedule[]>;
+  listDates(userId: string, from: string, to: string): Promise<string[]>;
+  /** Users with a schedule between `from` and `to`; needs a client that can see every user */
+  listUserIds(from: string, to: string): Promise<string[]>;
+  /** The day's schedule, created with `scheduleData` if there is none yet */
+  getOrCreate(userId: string, date: string, scheduleData: Schedule['schedule_data']): Promise<Schedule>;
+  /**
+   * Save one or more days in a single transaction: each day's schedule row is
+   * created or updated and its items, apart from meetings and events,
+   * replaced by `items`. Either every day is written or none is.
+   */
+  replace(userId: string, days: ScheduleWrite[]): Promise<Schedule[]>;
+}
+
+export interface ScheduleItemRepository {
+  listForSchedule(scheduleId: string): Promise<ScheduleItem[]>;
+  listForTasks(taskIds: string[]): Promise<ScheduleItem[]>;
+  create(scheduleId: string, items: NewScheduleItem[]): Promise<ScheduleItem[]>;
+  update(ids: string | string[], changes: ScheduleItemChanges): Promise<void>;
+  /**
+   * Apply `edit` in a single transaction and return the added items. Fails,
+   * writing nothing, when one of the items to update or delete is gone.
+   */
+  edit(edit: ScheduleItemEdit): Promise<ScheduleItem[]>;
+  updateForTask(taskId: string, changes: ScheduleItemChanges): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  deleteForTasks(taskIds: string[], options?: { incompleteOnly?: boolean }): Promise<void>;
+}
+
+export interface PatternRepository {
+  list(userId: string): Promise<TaskPattern[]>;
+  create(userId: string, pattern: NewTaskPattern): Promise<TaskPattern>;
+  update(userId: string, id: string, changes: Partial<NewTaskPattern>): Promise<void>;
+}
+
+export interface RolloverRepository {
+  /** The days in `from`..`to` that have already been closed */
+  listClosedDates(userId: string, from: string, to: string): Promise<string[]>;
+  /** One page of rollovers, newest day first, and how many match in all */
+  list(userId: string, filter: RolloverFilter, page: Page): Promise<{ rollovers: RolloverLog[]; total: number }>;
+  /** Rollovers onto `since` or later that are neither undone nor dismissed, oldest day first */
+  listActive(userId: string, since: string): Promise<RolloverLog[]>;
+  get(userId: string, id: string): Promise<RolloverLog | null>;
+  update(userId: string, id: string, changes: Partial<Pick<RolloverLog, 'dismissed_at' | 'undone_at'>>): Promise<RolloverLog | null>;
+  /**
+   * Claim the day and write the rollover in a single transaction: the target
+   * day's items are moved and added, the tasks updated and the log filled in.
+   * Null, with nothing written, when the day was already closed.
+   */
+  close(userId: string, rollover: RolloverWrite): Promise<RolloverLog | null>;
+  /**
+   * Take the rollover back in a single transaction: its added items are
+   * deleted, its pushed items put back, its tasks reverted and the log marked
+   * undone. Null, with nothing written, when it's missing or already undone.
+   */
+  undo(userId: string, id: string): Promise<RolloverLog | null>;
+}
+
+export interface Repositories {
+  tasks: TaskRepository;
+  schedules: ScheduleRepository;
+  scheduleItems: ScheduleItemRepository;
+  patterns: PatternRepository;
+  rollovers: RolloverRepository;
+}
+
+const asArray = (ids: string | string[]) => (Array.isArray(ids) ? ids : [ids]);
+
+const SCHEDULE_WITH_ITEMS = '*, items:schedule_items(*, task:tasks(*))';
+
+export function createSupabaseRepositories(client: SupabaseClient): Repositories {
+  const tasks: TaskRepository = {
+    async listOpen(userId) {
+      const { data, error } = await client
+        .from('tasks')
+        .select('*')
+        .eq('user_id', userId)
+        .in('status', OPEN_TASK_STATUSES)
+        .order('priority', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async list(userId, filter, { limit, offset }) {
+      let query = client
+        .from('tasks')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId);
+      if (filter.status?.length) query = query.in('status', filter.status);
+      if (filter.priority?.length) query = query.in('priority', filter.priority);
+      if (filter.dueFrom) query = query.gte('due_date', filter.dueFrom);
+      if (filter.dueTo) query = query.lte('due_date', filter.dueTo);
+      if (filter.search) query = query.ilike('title', `%${filter.search.replace(/[%_\\]/g, '\\$&')}%`);
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+      return { tasks: data || [], total: count ?? 0 };
+    },
+
+    async get(userId, id) {
+      const { data, error } = await client
+        .from('tasks')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async getMany(userId, ids) {
+      if (ids.length === 0) return [];
+      const { data, error } = await client
+        .from('tasks')
+        .select('*')
+        .eq('user_id', userId)
+        .in('id', ids);
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async create(userId, newTasks) {
+      if (newTasks.length === 0) return [];
+      const { data, error } = await client
+        .from('tasks')
+        .insert(newTasks.map(task => ({ status: 'pending', ...task, user_id: userId })))
+        .select();
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async createOccurrences(userId, newTasks) {
+      if (newTasks.length === 0) return [];
+      // on conflict do nothing against the unique (template_id, scheduled_for) index
+      const { data, error } = await client
+        .from('tasks')
+        .upsert(newTasks.map(task => ({ status: 'pending', ...task, user_id: userId })), {
+          onConflict: 'template_id,scheduled_for',
+          ignoreDuplicates: true,
+        })
+        .select();
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async update(userId, ids, changes) {
+      const { error } = await client
+        .from('tasks')
+        .update(changes)
+        .eq('user_id', userId)
+        .in('id', asArray(ids));
+
+      if (error) throw error;
+    },
+
+    async delete(userId, id) {
+      const { error } = await client
+        .from('tasks')
+        .delete()
+        .eq('user_id', userId)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+  };
+
+  const schedules: ScheduleRepository = {
+    async getForDate(userId, date) {
+      const { data, error } = await client
+        .from('schedules')
+        .select(SCHEDULE_WITH_ITEMS)
+        .eq('user_id', userId)
+        .eq('schedule_date', date)
+        .order('start_time', { referencedTable: 'schedule_items' })
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async getById(userId, id) {
+      const { data, error } = await client
+        .from('schedules')
+        .select(SCHEDULE_WITH_ITEMS)
+        .eq('user_id', userId)
+        .eq('id', id)
+        .order('start_time', { referencedTable: 'schedule_items' })
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async listRange(userId, from, to) {
+      const { data, error } = await client
+        .from('schedules')
+        .select(SCHEDULE_WITH_ITEMS)
+        .eq('user_id', userId)
+        .gte('schedule_date', from)
+        .lte('schedule_date', to)
+        .order('schedule_date')
+        .order('start_time', { referencedTable: 'schedule_items' });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listDates(userId, from, to) {
+      const { data, error } = await client
+        .from('schedules')
+        .select('schedule_date')
+        .eq('user_id', userId)
+        .gte('schedule_date', from)
+        .lte('schedule_date', to)
+        .order('schedule_date');
+
+      if (error) throw error;
+      return (data || []).map(schedule => schedule.schedule_date as string);
+    },
+
+    async listUserIds(from, to) {
+      const { data, error } = await client
+        .from('schedules')
+        .select('user_id')
+        .gte('schedule_date', from)
+        .lte('schedule_date', to);
+
+      if (error) throw error;
+      return [...new Set((data || []).map(schedule => schedule.user_id as string))];
+    },
+
+    async getOrCreate(userId, date, scheduleData) {
+      const existing = await schedules.getForDate(userId, date);
+      if (existing) return existing;
+
+      // Another request may create the same day in between; keep whichever won
+      const { error } = await client
+        .from('schedules')
+        .upsert({ user_id: userId, schedule_date: date, schedule_data: scheduleData }, {
+          onConflict: 'user_id,schedule_date',
+          ignoreDuplicates: true
+        });
+
+      if (error) throw error;
+      const created = await schedules.getForDate(userId, date);
+      if (!created) throw new Error(`Failed to create the schedule for ${date}`);
+      return created;
+    },
+
+    // Written as the signed-in user; RLS and the database function both key on auth.uid()
+    async replace(_userId, days) {
+      if (days.length === 0) return [];
+      const { data, error } = await client.rpc('replace_schedules', { p_days: days });
+
+      if (error) throw error;
+      return data || [];
+    },
+  };
+
+  const scheduleItems: ScheduleItemRepository = {
+    async listForSchedule(scheduleId) {
+      const { data, error } = await client
+        .from('schedule_items')
+        .select('*')
+        .eq('schedule_id', scheduleId)
+        .order('start_time');
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async listForTasks(taskIds) {
+      if (taskIds.length === 0) return [];
+      const { data, error } = await client
+        .from('schedule_items')
+        .select('*')
+        .in('task_id', taskIds);
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async create(scheduleId, items) {
+      if (items.length === 0) return [];
+      const { data, error } = await client
+        .from('schedule_items')
+        .insert(items.map(item => ({ completed: false, ...item, schedule_id: scheduleId })))
+        .select();
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async update(ids, changes) {
+      const { error } = await client
+        .from('schedule_items')
+        .update(changes)
+        .in('id', asArray(ids));
+
+      if (error) throw error;
+    },
+
+    async edit(edit) {
+      if (edit.updates.length === 0 && edit.added.length === 0 && !edit.deleted?.length) return [];
+      const { data, error } = await client.rpc('edit_schedule_items', { p_edit: edit });
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async updateForTask(taskId, changes) {
+      const { error } = await client
+        .from('schedule_items')
+        .update(changes)
+        .eq('task_id', taskId);
+
+      if (error) throw error;
+    },
+
+    async delete(ids) {
+      if (ids.length === 0) return;
+      const { error } = await client
+        .from('schedule_items')
+        .delete()
+        .in('id', ids);
+
+      if (error) throw error;
+    },
+
+    async deleteForTasks(taskIds, { incompleteOnly = false } = {}) {
+      if (taskIds.length === 0) return;
+      let query = client
+        .from('schedule_items')
+        .delete()
+        .in('task_id', taskIds);
+      if (incompleteOnly) query = query.eq('completed', false);
+
+      const { error } = await query;
+      if (error) throw error;
+    },
+  };
+
+  const patterns: PatternRepository = {
+    async list(userId) {
+      const { data, error } = await client
+        .from('task_patterns')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async create(userId, pattern) {
+      const { data, error } = await client
+        .from('task_patterns')
+        .insert({ ...pattern, user_id: userId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async update(userId, id, changes) {
+      const { error } = await client
+        .from('task_patterns')
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+  };
+
+  const rollovers: RolloverRepository = {
+    async listClosedDates(userId, from, to) {
+      const { data, error } = await client
+        .from('rollover_log')
+        .select('from_date')
+        .eq('user_id', userId)
+        .gte('from_date', from)
+        .lte('from_date', to);
+
+      if (error) throw error;
+      return (data || []).map(log => log.from_date as string);
+    },
+
+    async list(userId, filter, { limit, offset }) {
+      let query = client
+        .from('rollover_log')
+        .select('*', { count: 'exact' })
+        .eq('user_id', userId);
+      if (filter.from) query = query.gte('from_date', filter.from);
+      if (filter.to) query = query.lte('from_date', filter.to);
+      if (filter.active) query = query.is('undone_at', null).is('dismissed_at', null);
+
+      const { data, error, count } = await query
+        .order('from_date', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+      return { rollovers: data || [], total: count ?? 0 };
+    },
+
+    async listActive(userId, since) {
+      const { data, error } = await client
+        .from('rollover_log')
+        .select('*')
+        .eq('user_id', userId)
+        .gte('to_date', since)
+        .is('undone_at', null)
+        .is('dismissed_at', null)
+        .order('from_date');
+
+      if (error) throw error;
+      return data || [];
+    },
+
+    async get(userId, id) {
+      const { data, error } = await client
+        .from('rollover_log')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async update(userId, id, changes) {
+      const { data, error } = await client
+        .from('rollover_log')
+        .update(changes)
+        .eq('user_id', userId)
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async close(userId, rollover) {
+      const { data, error } = await client.rpc('close_rollover_day', { p_user_id: userId, p_rollover: rollover });
+
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+
+    async undo(userId, id) {
+      const { data, error } = await client.rpc('undo_rollover_day', { p_user_id: userId, p_log_id: id });
+
+      if (error) throw error;
+      return data?.[0] ?? null;
+    },
+  };
+
+  return { tasks, schedules, scheduleItems, patterns, rollovers };
+}
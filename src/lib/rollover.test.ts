@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { Task, ScheduleItem } from '@/types';
+import { createMemoryRepositories, MemoryData } from './memory-repositories';
+import { placeRolledOverTasks, rolloverIncompleteTasks } from './rollover';
+
+const USER = 'user-1';
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    user_id: USER,
+    title: `Task ${id}`,
+    priority: 'medium',
+    status: 'scheduled',
+    estimated_duration: 60,
+    created_at: '2026-10-01T09:00:00Z',
+    ...overrides,
+  };
+}
+
+function item(id: string, start: string, end: string, overrides: Partial<ScheduleItem> = {}): ScheduleItem {
+  return {
+    id,
+    schedule_id: 'target',
+    start_time: start,
+    end_time: end,
+    item_type: 'task',
+    title: `Item ${id}`,
+    completed: false,
+    ...overrides,
+  };
+}
+
+const rolled = (id: string, overrides: Partial<Task> = {}, action: 'next_morning' | null = null) =>
+  ({ ...task(id, overrides), action });
+
+describe('placeRolledOverTasks', () => {
+  it('appends tasks after the last item, clear of meetings', () => {
+    const { moved, added } = placeRolledOverTasks(
+      [item('a', '09:00:00', '10:00:00'), item('m', '10:00:00', '10:30:00', { item_type: 'meeting' })],
+      [rolled('t1'), rolled('t2', { estimated_duration: 30 })],
+      '09:00'
+    );
+    expect(moved).toEqual([]);
+    expect(added.map(i => [i.task_id, i.start_time, i.end_time])).toEqual([
+      ['t1', '10:30', '11:30'],
+      ['t2', '11:30', '12:00'],
+    ]);
+  });
+
+  it('puts next_morning tasks first and pushes the day back', () => {
+    const { moved, added } = placeRolledOverTasks(
+      [item('a', '09:00:00', '10:00:00')],
+      [rolled('t1', {}, 'next_morning')],
+      '09:00'
+    );
+    expect(added.map(i => [i.task_id, i.start_time])).toEqual([['t1', '09:00']]);
+    expect(moved.map(i => [i.id, i.start_time, i.end_time])).toEqual([['a', '10:00', '11:00']]);
+  });
+
+  it('skips tasks already on the day', () => {
+    const { added } = placeRolledOverTasks([item('a', '09:00:00', '10:00:00', { task_id: 't1' })], [rolled('t1')], '09:00');
+    expect(added).toEqual([]);
+  });
+
+  it('never places or pushes anything past midnight', () => {
+    const late = [item('a', '22:00:00', '23:30:00')];
+
+    const appended = placeRolledOverTasks(late, [rolled('t1', { estimated_duration: 30 }), rolled('t2')], '09:00');
+    expect(appended.added.map(i => [i.task_id, i.end_time])).toEqual([['t1', '24:00']]);
+
+    const escalated = placeRolledOverTasks(
+      [item('a', '09:00:00', '23:00:00')],
+      [rolled('t1', { estimated_duration: 45 }, 'next_morning'), rolled('t2', { estimated_duration: 30 }, 'next_morning')],
+      '09:00'
+    );
+    expect(escalated.added.map(i => i.task_id)).toEqual(['t1']);
+    expect(escalated.moved.map(i => [i.id, i.end_time])).toEqual([['a', '23:45']]);
+  });
+});
+
+describe('rolloverIncompleteTasks', () => {
+  function seed(): MemoryData {
+    return {
+      tasks: [task('t1', { rollover_count: 2 }), task('t2', { status: 'completed' }), task('t3')],
+      schedules: [
+        { id: 'closed', user_id: USER, schedule_date: '2026-10-19', schedule_data: { total_hours: 7, work_blocks: 3, break_blocks: 0 }, created_at: '' },
+        { id: 'target', user_id: USER, schedule_date: '2026-10-20', schedule_data: { total_hours: 7, work_blocks: 1, break_blocks: 0 }, created_at: '' },
+      ],
+      scheduleItems: [
+        item('i1', '09:00:00', '10:00:00', { schedule_id: 'closed', task_id: 't1' }),
+        item('i2', '10:00:00', '11:00:00', { schedule_id: 'closed', task_id: 't2', completed: true }),
+        item('i3', '11:00:00', '12:00:00', { schedule_id: 'closed', task_id: 't3' }),
+        item('i4', '09:00:00', '10:00:00'),
+      ],
+      patterns: [],
+      rollovers: [],
+    };
+  }
+
+  it('moves the unfinished tasks and records what it changed', async () => {
+    const data = seed();
+    const repositories = createMemoryRepositories(data);
+    const log = await rolloverIncompleteTasks(USER, '2026-10-19', {
+      toDate: '2026-10-20',
+      policy: { escalate_after: 3, escalation_action: 'next_morning' },
+      repositories,
+    });
+
+    expect(log?.task_ids).toEqual(['t1', 't3']);
+    expect(log?.escalations).toEqual([{ task_id: 't1', action: 'next_morning', previous_priority: 'medium' }]);
+    expect(log?.moved_items).toEqual([{ id: 'i4', start_time: '09:00', end_time: '10:00' }]);
+
+    const target = await repositories.schedules.getForDate(USER, '2026-10-20');
+    expect(target?.items?.map(i => [i.task_id ?? i.id, i.start_time.slice(0, 5)])).toEqual([
+      ['t1', '09:00'],
+      ['i4', '10:00'],
+      ['t3', '11:00'],
+    ]);
+    expect(data.tasks.find(t => t.id === 't1')).toMatchObject({ status: 'rolled_over', rollover_count: 3, first_scheduled_date: '2026-10-19' });
+    expect(data.tasks.find(t => t.id === 't2')?.status).toBe('completed');
+  });
+
+  it('closes each day once', async () => {
+    const data = seed();
+    const repositories = createMemoryRepositories(data);
+    const options = { toDate: '2026-10-20', repositories };
+
+    expect(await rolloverIncompleteTasks(USER, '2026-10-19', options)).not.toBeNull();
+    expect(await rolloverIncompleteTasks(USER, '2026-10-19', options)).toBeNull();
+    expect(data.rollovers).toHaveLength(1);
+    expect(data.tasks.find(t => t.id === 't3')?.rollover_count).toBe(1);
+  });
+
+  it('writes nothing when the close fails, so a later run can retry', async () => {
+    const data = seed();
+    const repositories = createMemoryRepositories(data);
+    const failing = { ...repositories, rollovers: { ...repositories.rollovers, close: async () => { throw new Error('connection lost'); } } };
+
+    await expect(rolloverIncompleteTasks(USER, '2026-10-19', { toDate: '2026-10-20', repositories: failing })).rejects.toThrow('connection lost');
+    expect(data.rollovers).toEqual([]);
+
+    const log = await rolloverIncompleteTasks(USER, '2026-10-19', { toDate: '2026-10-20', repositories });
+    expect(log?.task_ids).toEqual(['t1', 't3']);
+  });
+});
@@ -0,0 +1,224 @@
+// src/lib/rollover.ts
+//
+// End-of-day rollover, run on the server per user. Each day is closed at most
+// once (see rolloverIncompleteTasks), so the cron job, a dashboard load and a
+// second tab can all ask for it without doubling anything up.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Task, ScheduleItem, UserSettings, EscalationAction, RolloverLog, RolloverEscalation } from '@/types';
+import { Repositories, NewScheduleItem, createSupabaseRepositories } from './repositories';
+import { isFixedItemType, flowAroundFixed } from './fixed-events';
+import { getEscalation, getRolloverUpdate } from './escalation';
+import { timeToMinutes, minutesToTime } from './format-time';
+import { loadUserSettings, getDayProfile, getSettingsTimeZone, SettingsInput } from './user-settings';
+import { getZonedWallTime, formatWallDate, formatWallTime, addCalendarDays } from './time-zones';
+
+// Days older than this are left alone if they were never closed
+export const ROLLOVER_LOOKBACK_DAYS = 7;
+
+const DAY_MINUTES = 24 * 60;
+
+/**
+ * The most recent day that has ended for the user — today once it is past
+ * today's end time, otherwise yesterday — and the workday after it, which is
+ * where unfinished tasks go.
+ */
+export function getRolloverWindow(settings: SettingsInput, now: Date = new Date()): { lastClosed: string; target: string } {
+  const wall = getZonedWallTime(now, getSettingsTimeZone(settings));
+  const today = formatWallDate(wall);
+  const lastClosed = formatWallTime(wall) >= getDayProfile(settings, today).endTime
+    ? today
+    : addCalendarDays(today, -1);
+
+  let target = addCalendarDays(lastClosed, 1);
+  for (let i = 1; i <= 7; i++) {
+    const candidate = addCalendarDays(lastClosed, i);
+    if (getDayProfile(settings, candidate).isWorkday) {
+      target = candidate;
+      break;
+    }
+  }
+
+  return { lastClosed, target };
+}
+
+type RolledOverTask = Task & { action: EscalationAction | null };
+
+/**
+ * The unfinished tasks on a closed day's items, each once, with the
+ * escalation its next rollover triggers.
+ */
+export function getIncompleteTasks(
+  items: ScheduleItem[],
+  policy: Pick<UserSettings, 'escalate_after' | 'escalation_action'>
+): RolledOverTask[] {
+  // A task can have more than one block on the day; it only rolls over once
+  const incomplete = new Map<string, RolledOverTask>();
+  for (const item of items) {
+    if (item.item_type !== 'task' || item.completed || !item.task_id || !item.task) continue;
+    if (item.task.status === 'completed' || incomplete.has(item.task_id)) continue;
+    const task: Task = item.task;
+    incomplete.set(item.task_id, { ...task, action: getEscalation(policy, (task.rollover_count || 0) + 1) });
+  }
+  return [...incomplete.values()];
+}
+
+/**
+ * Where rolled-over tasks go on the target day: `added` are the new items,
+ * `moved` the target's existing items whose times change. Tasks already on
+ * the day aren't added again, and nothing is placed or pushed past midnight:
+ * tasks that don't fit stay rolled over without a slot.
+ */
+export function placeRolledOverTasks(
+  targetItems: ScheduleItem[],
+  tasks: RolledOverTask[],
+  dayStart: string
+): { moved: ScheduleItem[]; added: NewScheduleItem[] } {
+  const fixed = targetItems.filter(item => isFixedItemType(item.item_type));
+  const existing = targetItems
+    .filter(item => !isFixedItemType(item.item_type))
+    .sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time));
+  const alreadyThere = new Set(targetItems.map(item => item.task_id).filter(Boolean));
+
+  const toItem = (task: Task) => ({
+    task_id: task.id,
+    start_time: '00:00',
+    end_time: minutesToTime(task.estimated_duration || 30),
+    item_type: 'task' as const,
+    title: task.title,
+    completed: false,
+  });
+  const adding = tasks.filter(task => !alreadyThere.has(task.id));
+  const mornings = adding.filter(task => task.action === 'next_morning').map(toItem);
+  const rest = adding.filter(task => task.action !== 'next_morning').map(toItem);
+
+  const endsByMidnight = (item: Pick<ScheduleItem, 'end_time'>) => timeToMinutes(item.end_time) <= DAY_MINUTES;
+
+  // Escalated tasks take the first slot of the day and push everything else
+  // back, as many of them as leave the day ending by midnight
+  const placeMornings = (count: number) => {
+    const placed = flowAroundFixed(mornings.slice(0, count), fixed, timeToMinutes(dayStart));
+    const pushed = count > 0
+      ? flowAroundFixed(existing, fixed, timeToMinutes(placed[placed.length - 1].end_time))
+      : existing;
+    return { placed, pushed };
+  };
+  let morningCount = mornings.length;
+  let { placed: placedMornings, pushed: reflowed } = placeMornings(morningCount);
+  while (morningCount > 0 && ![...placedMornings, ...reflowed].every(endsByMidnight)) {
+    ({ placed: placedMornings, pushed: reflowed } = placeMornings(--morningCount));
+  }
+
+  // The rest go after the day's last task, clear of meetings and events
+  const lastEnd = Math.max(timeToMinutes(dayStart), ...[...placedMornings, ...reflowed].map(item => timeToMinutes(item.end_time)));
+
+  return {
+    moved: reflowed.filter((item, i) => item.start_time.slice(0, 5) !== existing[i].start_time.slice(0, 5)),
+    added: [...placedMornings, ...flowAroundFixed(rest, fixed, lastEnd).filter(endsByMidnight)],
+  };
+}
+
+/**
+ * Close out `date`: its unfinished tasks are marked rolled_over and appended to
+ * the schedule for `toDate`, with the escalation policy applied to tasks that
+ * keep slipping. Safe to call more than once — claiming the rollover_log row
+ * for (user, date) and every write happen in one transaction, and a run that
+ * loses the claim writes nothing and returns null.
+ */
+export async function rolloverIncompleteTasks(
+  userId: string,
+  date: string,
+  options: {
+    toDate: string;
+    dayStart?: string;
+    policy?: Pick<UserSettings, 'escalate_after' | 'escalation_action'>;
+    repositories: Repositories;
+  }
+): Promise<RolloverLog | null> {
+  const {
+    toDate,
+    dayStart = '09:00',
+    policy = { escalate_after: 0, escalation_action: 'bump_priority' },
+    repositories: { schedules, rollovers },
+  } = options;
+
+  const schedule = await schedules.getForDate(userId, date);
+  const incomplete = getIncompleteTasks(schedule?.items || [], policy);
+
+  const targetItems = incomplete.length > 0 ? (await schedules.getForDate(userId, toDate))?.items || [] : [];
+  const { moved, added } = placeRolledOverTasks(targetItems, incomplete, dayStart);
+  const previous = new Map(targetItems.map(item => [item.id, item]));
+
+  return rollovers.close(userId, {
+    from_date: date,
+    to_date: toDate,
+    schedule_data: { total_hours: 0, work_blocks: 0, break_blocks: 0 },
+    tasks: incomplete.map(task => ({ id: task.id, title: task.title, ...getRolloverUpdate(task, date, task.action) })),
+    moved: moved.map(item => ({
+      id: item.id,
+      start_time: item.start_time,
+      end_time: item.end_time,
+      previous_start_time: previous.get(item.id)!.start_time.slice(0, 5),
+      previous_end_time: previous.get(item.id)!.end_time.slice(0, 5),
+    })),
+    added,
+    escalations: incomplete
+      .filter(task => task.action)
+      .map((task): RolloverEscalation => ({ task_id: task.id, action: task.action!, previous_priority: task.priority })),
+  });
+}
+
+/** Close every ended day in the lookback window that hasn't been closed yet */
+export async function runRolloverForUser(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<RolloverLog[]> {
+  const settings = await loadUserSettings(supabase, userId);
+  const { lastClosed, target } = getRolloverWindow(settings, now);
+  const from = addCalendarDays(lastClosed, -(ROLLOVER_LOOKBACK_DAYS - 1));
+
+  const repositories = createSupabaseRepositories(supabase);
+
+  const [scheduleDates, closed] = await Promise.all([
+    repositories.schedules.listDates(userId, from, lastClosed),
+    repositories.rollovers.listClosedDates(userId, from, lastClosed),
+  ]);
+
+  const closedDates = new Set(closed);
+  const pending = scheduleDates.filter(date => !closedDates.has(date));
+
+  const logs: RolloverLog[] = [];
+  for (const date of pending) {
+    const log = await rolloverIncompleteTasks(userId, date, {
+      toDate: target,
+      dayStart: getDayProfile(settings, target).startTime,
+      policy: settings,
+      repositories,
+    });
+    if (log && log.task_ids.length > 0) logs.push(log);
+  }
+
+  return logs;
+}
+
+/** Rollovers onto today or later that the user hasn't undone or dismissed */
+export async function getActiveRollovers(supabase: SupabaseClient, userId: string, today: string): Promise<RolloverLog[]> {
+  const active = await createSupabaseRepositories(supabase).rollovers.listActive(userId, today);
+  return active.filter(log => log.task_ids.length > 0);
+}
+
+/** Hide a rollover notice; null when there's no such rollover */
+export async function dismissRollover(supabase: SupabaseClient, userId: string, logId: string): Promise<RolloverLog | null> {
+  return createSupabaseRepositories(supabase).rollovers.update(userId, logId, { dismissed_at: new Date().toISOString() });
+}
+
+/**
+ * Take a rollover back: the items it added are deleted, the items it pushed
+ * later go back to their earlier times, and its tasks go back to scheduled
+ * with their slip count and any escalation reverted, all in one transaction.
+ * The log row stays, marked undone, so the day isn't rolled over again.
+ */
+export async function undoRollover(supabase: SupabaseClient, userId: string, logId: string): Promise<RolloverLog | null> {
+  return createSupabaseRepositories(supabase).rollovers.undo(userId, logId);
+}
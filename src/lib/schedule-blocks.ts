@@ -0,0 +1,21 @@
+// src/lib/schedule-blocks.ts
+
+import { Task, ScheduleBlock } from '@/types';
+
+/**
+ * Resolve the task a generated block belongs to. Local blocks carry a task_id;
+ * LLM blocks only have a title, which may be trimmed or carry extra wording.
+ */
+export function findTaskForBlock<T extends Pick<Task, 'id' | 'title'>>(
+  block: Pick<ScheduleBlock, 'type' | 'title' | 'task_id'>,
+  tasks: T[]
+): T | undefined {
+  if (block.type !== 'task') return undefined;
+  if (block.task_id) return tasks.find(t => t.id === block.task_id);
+
+  const blockTitle = block.title.toLowerCase();
+  return tasks.find(t =>
+    blockTitle.includes(t.title.toLowerCase()) ||
+    t.title.toLowerCase().includes(blockTitle)
+  );
+}
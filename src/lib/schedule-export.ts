@@ -0,0 +1,57 @@
+// src/lib/schedule-export.ts
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Schedule, ScheduleItem } from '@/types';
+import { IcsExportEvent } from './ics';
+import { zonedWallTimeToInstant } from './time-zones';
+import { createSupabaseRepositories } from './repositories';
+
+export interface ScheduleExportOptions {
+  includeBreaks: boolean;
+  timeZone: string;
+}
+
+/** Schedules (with items and their tasks) for schedule_date in [from, to] */
+export async function loadSchedulesForRange(
+  supabase: SupabaseClient,
+  userId: string,
+  from: string,
+  to: string
+): Promise<Schedule[]> {
+  return createSupabaseRepositories(supabase).schedules.listRange(userId, from, to);
+}
+
+function toInstant(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return zonedWallTimeToInstant({ year, month, day, hour, minute }, timeZone);
+}
+
+function describeItem(item: ScheduleItem): string | undefined {
+  const lines = [
+    item.task?.description,
+    item.completed ? 'Completed' : undefined,
+  ].filter(Boolean);
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * One VEVENT per schedule item. The UID is derived from the item id, so a
+ * subscribed calendar replaces an event when the item moves. Events imported
+ * from the user's own calendar are left out.
+ */
+export function scheduleItemsToIcsEvents(schedules: Schedule[], options: ScheduleExportOptions): IcsExportEvent[] {
+  return schedules.flatMap(schedule =>
+    (schedule.items || [])
+      .filter(item => !item.external_uid)
+      .filter(item => options.includeBreaks || (item.item_type !== 'break' && item.item_type !== 'lunch'))
+      .map(item => ({
+        uid: `schedule-item-${item.id}@taskflow`,
+        summary: item.title,
+        description: describeItem(item),
+        start: toInstant(schedule.schedule_date, item.start_time, options.timeZone),
+        end: toInstant(schedule.schedule_date, item.end_time, options.timeZone),
+        categories: [item.item_type],
+      }))
+  );
+}
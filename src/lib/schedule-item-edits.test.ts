@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { Task, ScheduleItem, Schedule } from '@/types';
+import { createMemoryRepositories, MemoryData } from './memory-repositories';
+import { addScheduleItem, updateScheduleItem, moveScheduleItem, splitScheduleItem, deleteScheduleItem, ScheduleDay } from './schedule-item-edits';
+
+const USER = 'user-1';
+
+const day = (date: string): ScheduleDay => ({ date, startTime: '09:00', workHours: 7 });
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  ({ id, user_id: USER, title: `Task ${id}`, priority: 'medium', status: 'pending', estimated_duration: 60, created_at: '', ...overrides });
+
+const schedule = (id: string, date: string): Schedule =>
+  ({ id, user_id: USER, schedule_date: date, schedule_data: { total_hours: 7, work_blocks: 1, break_blocks: 0 }, created_at: '' });
+
+const item = (id: string, scheduleId: string, start: string, end: string, taskId?: string): ScheduleItem =>
+  ({ id, schedule_id: scheduleId, task_id: taskId, start_time: start, end_time: end, item_type: 'task', title: id, completed: false });
+
+function seed(): MemoryData {
+  return {
+    tasks: [task('t1', { status: 'rolled_over' }), task('t2', { status: 'scheduled' })],
+    schedules: [schedule('mon', '2026-10-19'), schedule('tue', '2026-10-20'), schedule('wed', '2026-10-21')],
+    scheduleItems: [
+      item('past', 'mon', '09:00', '10:00', 't1'),
+      item('a', 'tue', '09:00', '10:00'),
+      item('b', 'tue', '10:00', '11:00'),
+      item('next', 'wed', '09:00', '10:00', 't2'),
+    ],
+    patterns: [],
+    rollovers: [],
+  };
+}
+
+const times = (data: MemoryData, scheduleId: string) => data.scheduleItems
+  .filter(i => i.schedule_id === scheduleId)
+  .sort((x, y) => x.start_time.localeCompare(y.start_time))
+  .map(i => [i.task_id ?? i.title, i.start_time.slice(0, 5), i.end_time.slice(0, 5)]);
+
+// Repositories whose transactional edit fails, like a dropped connection
+function failingEdits(data: MemoryData) {
+  const repositories = createMemoryRepositories(data);
+  return { ...repositories, scheduleItems: { ...repositories.scheduleItems, edit: async () => { throw new Error('connection lost'); } } };
+}
+
+describe('addScheduleItem', () => {
+  it('adds a task that is only on an earlier day', async () => {
+    const data = seed();
+    const result = await addScheduleItem(createMemoryRepositories(data), USER, day('2026-10-20'), { item_type: 'task', task_id: 't1', position: 0 });
+
+    expect(result.ok).toBe(true);
+    expect(times(data, 'tue')).toEqual([['t1', '09:00', '10:00'], ['a', '10:00', '11:00'], ['b', '11:00', '12:00']]);
+    expect(data.tasks[0].status).toBe('scheduled');
+  });
+
+  it('refuses a task already on that day or a later one', async () => {
+    const result = await addScheduleItem(createMemoryRepositories(seed()), USER, day('2026-10-20'), { item_type: 'task', task_id: 't2' });
+    expect(result).toMatchObject({ ok: false, code: 'conflict', error: 'The task is already on 2026-10-21; move its item instead' });
+  });
+});
+
+describe('updateScheduleItem', () => {
+  it('re-packs the day around the new length and title', async () => {
+    const data = seed();
+    const result = await updateScheduleItem(createMemoryRepositories(data), USER, day('2026-10-20'), 'a', { duration: 30, title: 'Shorter' });
+
+    expect(result.ok).toBe(true);
+    expect(times(data, 'tue')).toEqual([['Shorter', '09:00', '09:30'], ['b', '09:30', '10:30']]);
+  });
+
+  it('writes nothing when the save fails', async () => {
+    const data = seed();
+    const before = structuredClone(data.scheduleItems);
+
+    await expect(updateScheduleItem(failingEdits(data), USER, day('2026-10-20'), 'a', { duration: 30 })).rejects.toThrow('connection lost');
+    expect(data.scheduleItems).toEqual(before);
+  });
+});
+
+describe('deleteScheduleItem', () => {
+  it('closes the gap', async () => {
+    const data = seed();
+    const result = await deleteScheduleItem(createMemoryRepositories(data), USER, day('2026-10-20'), 'a');
+
+    expect(result.ok).toBe(true);
+    expect(times(data, 'tue')).toEqual([['b', '09:00', '10:00']]);
+  });
+
+  it('writes nothing when the save fails', async () => {
+    const data = seed();
+    const before = structuredClone(data.scheduleItems);
+
+    await expect(deleteScheduleItem(failingEdits(data), USER, day('2026-10-20'), 'a')).rejects.toThrow('connection lost');
+    expect(data.scheduleItems).toEqual(before);
+  });
+});
+
+describe('moveScheduleItem', () => {
+  it('re-packs both days', async () => {
+    const data = seed();
+    const result = await moveScheduleItem(createMemoryRepositories(data), USER, day('2026-10-20'), 'a', day('2026-10-21'), 0);
+
+    expect(result.ok).toBe(true);
+    expect(times(data, 'tue')).toEqual([['b', '09:00', '10:00']]);
+    expect(times(data, 'wed')).toEqual([['a', '09:00', '10:00'], ['t2', '10:00', '11:00']]);
+  });
+
+  it('writes nothing when the save fails', async () => {
+    const data = seed();
+    const before = structuredClone(data.scheduleItems);
+
+    await expect(moveScheduleItem(failingEdits(data), USER, day('2026-10-20'), 'a', day('2026-10-21'))).rejects.toThrow('connection lost');
+    expect(data.scheduleItems).toEqual(before);
+  });
+});
+
+describe('splitScheduleItem', () => {
+  it('puts the rest right after the first part', async () => {
+    const data = seed();
+    const result = await splitScheduleItem(createMemoryRepositories(data), USER, day('2026-10-20'), 'a', 20);
+
+    expect(result.ok && result.item?.start_time).toBe('09:20');
+    expect(times(data, 'tue')).toEqual([['a', '09:00', '09:20'], ['a', '09:20', '10:00'], ['b', '10:00', '11:00']]);
+  });
+});
@@ -0,0 +1,453 @@
+// src/lib/schedule-item-edits.ts
+//
+// Server-side edits to a day's schedule items. Every edit re-packs the day the
+// way the dashboard does (recalculateTimeSlots: movable items in order from the
+// day's start, around meetings and events), refuses meetings and events that
+// would overlap, and keeps the task behind an item in step with it.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Schedule, ScheduleItem } from '@/types';
+import { Repositories, ScheduleItemRepository, ScheduleItemEdit } from './repositories';
+import { recalculateTimeSlots, moveLunch } from './schedule-slots';
+import { isFixedItemType } from './fixed-events';
+import { timeToMinutes, minutesToTime } from './format-time';
+import { extractKeywordsFromTask, updateTaskPattern } from './task-patterns';
+import { loadUserSettings, getDayProfile } from './user-settings';
+
+export interface ScheduleDay {
+  date: string;
+  startTime: string; // where movable items are packed from
+  workHours: number; // recorded on a schedule created by an edit
+}
+
+export interface NewScheduleItemInput {
+  item_type: ScheduleItem['item_type'];
+  task_id?: string;
+  title?: string; // defaults to the task's title
+  start_time?: string; // meetings and events only
+  end_time?: string;
+  duration?: number; // minutes; everything else
+  position?: number; // among the day's movable items, the end by default
+}
+
+export interface ScheduleItemUpdate {
+  title?: string;
+  start_time?: string; // meetings, events and lunch
+  end_time?: string; // meetings and events
+  duration?: number; // everything but meetings and events
+  completed?: boolean;
+}
+
+export type ItemEditResult =
+  | { ok: true; item?: ScheduleItem; days: Schedule[] }
+  | { ok: false; code: 'invalid_request' | 'not_found' | 'conflict'; error: string };
+
+const DAY_MINUTES = 24 * 60;
+const DEFAULT_TASK_MINUTES = 30;
+
+const fail = (code: 'invalid_request' | 'not_found' | 'conflict', error: string): ItemEditResult => ({ ok: false, code, error });
+
+const durationOf = (item: Pick<ScheduleItem, 'start_time' | 'end_time'>) =>
+  timeToMinutes(item.end_time) - timeToMinutes(item.start_time);
+
+export async function loadScheduleDay(supabase: SupabaseClient, userId: string, date: string): Promise<ScheduleDay> {
+  const { startTime, workHours } = getDayProfile(await loadUserSettings(supabase, userId), date);
+  return { date, startTime, workHours };
+}
+
+function getOrCreateSchedule({ schedules }: Repositories, userId: string, day: ScheduleDay) {
+  return schedules.getOrCreate(userId, day.date, { total_hours: day.workHours, work_blocks: 1, break_blocks: 0 });
+}
+
+/** The re-packed day, or null when it would run past midnight */
+function pack(items: ScheduleItem[], startTime: string): ScheduleItem[] | null {
+  const packed = recalculateTimeSlots(items, startTime);
+  return packed.every(item => timeToMinutes(item.end_time) <= DAY_MINUTES) ? packed : null;
+}
+
+/** `items` with `item` put at `position` among the movable ones (the end when out of range) */
+function insertMovable(items: ScheduleItem[], item: ScheduleItem, position?: number): ScheduleItem[] {
+  const movable = items.filter(i => !isFixedItemType(i.item_type));
+  const fixed = items.filter(i => isFixedItemType(i.item_type));
+  movable.splice(Math.min(position ?? movable.length, movable.length), 0, item);
+  return [...movable, ...fixed];
+}
+
+/** The meeting or event `item` would overlap, if any */
+function findOverlap(item: ScheduleItem, items: ScheduleItem[]): ScheduleItem | undefined {
+  const start = timeToMinutes(item.start_time);
+  const end = timeToMinutes(item.end_time);
+  return items.find(other =>
+    other.id !== item.id &&
+    isFixedItemType(other.item_type) &&
+    timeToMinutes(other.start_time) < end &&
+    start < timeToMinutes(other.end_time)
+  );
+}
+
+/** The times that packing changed; items not in `before` are skipped */
+function retimed(before: ScheduleItem[], after: ScheduleItem[]): ScheduleItemEdit['updates'] {
+  const previous = new Map(before.map(item => [item.id, item]));
+  return after
+    .filter(item => {
+      const old = previous.get(item.id);
+      return old && (old.start_time.slice(0, 5) !== item.start_time.slice(0, 5) || old.end_time.slice(0, 5) !== item.end_time.slice(0, 5));
+    })
+    .map(({ id, start_time, end_time }) => ({ id, start_time, end_time }));
+}
+
+/** Save the times that packing changed, all or none */
+async function saveTimes(scheduleItems: ScheduleItemRepository, before: ScheduleItem[], after: ScheduleItem[]) {
+  await scheduleItems.edit({ updates: retimed(before, after), added: [] });
+}
+
+async function finish({ schedules }: Repositories, userId: string, dates: string[], itemId: string | null): Promise<ItemEditResult> {
+  const days: Schedule[] = [];
+  for (const date of [...new Set(dates)].sort()) {
+    const schedule = await schedules.getForDate(userId, date);
+    if (schedule) days.push(schedule);
+  }
+  const item = days.flatMap(day => day.items || []).find(i => i.id === itemId);
+  return { ok: true, item, days };
+}
+
+async function findItem({ schedules }: Repositories, userId: string, date: string, itemId: string) {
+  const schedule = await schedules.getForDate(userId, date);
+  const item = schedule?.items?.find(i => i.id === itemId);
+  return schedule && item ? { schedule, items: schedule.items || [], item } : null;
+}
+
+const noRoom = (date: string) => fail('conflict', `There isn't enough room left on ${date}`);
+
+const overlapError = (item: ScheduleItem, other: ScheduleItem) =>
+  fail('conflict', `${item.start_time.slice(0, 5)}-${item.end_time.slice(0, 5)} overlaps "${other.title}" (${other.start_time.slice(0, 5)}-${other.end_time.slice(0, 5)})`);
+
+/**
+ * Add an item. Meetings and events keep the times given; anything else goes in
+ * at `position` and the day is re-packed. A task item marks its task scheduled;
+ * a task can only be on one day from `day` on, so one that already is has to be
+ * moved instead. Items left on earlier days (by a rollover) don't count.
+ */
+export async function addScheduleItem(
+  repositories: Repositories,
+  userId: string,
+  day: ScheduleDay,
+  input: NewScheduleItemInput
+): Promise<ItemEditResult> {
+  const { tasks, schedules, scheduleItems } = repositories;
+  const fixed = isFixedItemType(input.item_type);
+
+  if (fixed && (!input.start_time || !input.end_time)) return fail('invalid_request', 'Meetings and events need a start_time and end_time');
+  if (!fixed && (input.start_time || input.end_time)) {
+    return fail('invalid_request', 'Only meetings and events take times; give a duration and position instead');
+  }
+  if (fixed && input.duration !== undefined) return fail('invalid_request', 'Meetings and events take times, not a duration');
+  if ((input.item_type === 'task') !== Boolean(input.task_id)) return fail('invalid_request', 'task_id is required for task items and only allowed on them');
+
+  const task = input.task_id ? await tasks.get(userId, input.task_id) : null;
+  if (input.task_id) {
+    if (!task) return fail('not_found', 'Task not found');
+    if (task.status === 'completed') return fail('conflict', 'The task is already completed');
+    const existing = await scheduleItems.listForTasks([task.id]);
+    const scheduled = await Promise.all([...new Set(existing.map(item => item.schedule_id))].map(id => schedules.getById(userId, id)));
+    const [upcoming] = scheduled.flatMap(s => (s && s.schedule_date >= day.date ? [s.schedule_date] : [])).sort();
+    if (upcoming) return fail('conflict', `The task is already on ${upcoming}; move its item instead`);
+  }
+
+  const title = (input.title ?? task?.title ?? '').trim();
+  if (!title) return fail('invalid_request', 'title is required');
+
+  const duration = input.duration ?? (task?.estimated_duration || DEFAULT_TASK_MINUTES);
+  const draft: ScheduleItem = {
+    id: '',
+    schedule_id: '',
+    task_id: task?.id,
+    item_type: input.item_type,
+    title,
+    completed: false,
+    start_time: fixed ? input.start_time! : '00:00',
+    end_time: fixed ? input.end_time! : minutesToTime(duration),
+  };
+  if (durationOf(draft) <= 0) return fail('invalid_request', 'The item must end after it starts');
+
+  const schedule = await getOrCreateSchedule(repositories, userId, day);
+  const items = schedule.items || [];
+
+  if (fixed) {
+    const overlap = findOverlap(draft, items);
+    if (overlap) return overlapError(draft, overlap);
+  }
+
+  const packed = pack(fixed ? [...items, draft] : insertMovable(items, draft, input.position), day.startTime);
+  if (!packed) return noRoom(day.date);
+  const placed = packed.find(item => item.id === '')!;
+
+  const [created] = await scheduleItems.edit({
+    updates: retimed(items, packed),
+    added: [{
+      schedule_id: schedule.id,
+      task_id: draft.task_id ?? null,
+      item_type: draft.item_type,
+      title: draft.title,
+      start_time: placed.start_time,
+      end_time: placed.end_time,
+    }],
+  });
+
+  if (task) await tasks.update(userId, task.id, { status: 'scheduled' });
+
+  return finish(repositories, userId, [day.date], created.id);
+}
+
+/**
+ * Change an item. Meetings and events take new times; lunch takes a new start
+ * (the morning's items stay before it, as on the dashboard); anything else only
+ * changes length, since its place comes from the order. Completing a task item
+ * completes the task and teaches the duration patterns; reopening it reopens the task.
+ */
+export async function updateScheduleItem(
+  repositories: Repositories,
+  userId: string,
+  day: ScheduleDay,
+  itemId: string,
+  changes: ScheduleItemUpdate
+): Promise<ItemEditResult> {
+  const { tasks, scheduleItems, patterns } = repositories;
+  const found = await findItem(repositories, userId, day.date, itemId);
+  if (!found) return fail('not_found', 'Schedule item not found');
+  const { items, item } = found;
+
+  const fixed = isFixedItemType(item.item_type);
+  const lunch = item.item_type === 'lunch';
+
+  if (fixed && changes.duration !== undefined) return fail('invalid_request', 'Change a meeting or event with start_time and end_time');
+  if (!fixed && changes.end_time !== undefined) return fail('invalid_request', 'Only meetings and events take an end_time; give a duration');
+  if (!fixed && !lunch && changes.start_time !== undefined) {
+    return fail('invalid_request', 'This item\'s start comes from its place in the day; reorder or move it instead');
+  }
+
+  const title = changes.title?.trim();
+  if (changes.title !== undefined && !title) return fail('invalid_request', 'title can\'t be empty');
+
+  const start = changes.start_time ?? item.start_time.slice(0, 5);
+  const end = fixed
+    ? changes.end_time ?? item.end_time.slice(0, 5)
+    : minutesToTime(timeToMinutes(start) + (changes.duration ?? durationOf(item)));
+  const updated: ScheduleItem = { ...item, start_time: start, end_time: end };
+  if (durationOf(updated) <= 0) return fail('invalid_request', 'The item must end after it starts');
+
+  if (fixed) {
+    const overlap = findOverlap(updated, items);
+    if (overlap) return overlapError(updated, overlap);
+  }
+
+  const edited = items.map(i => (i.id === item.id ? updated : i));
+  const packed = lunch && changes.start_time !== undefined
+    ? moveLunch(edited, start, day.startTime)
+    : pack(edited, day.startTime);
+  if (!packed || packed.some(i => timeToMinutes(i.end_time) > DAY_MINUTES)) return noRoom(day.date);
+
+  // The item and the rest of the day together, so a failure can't leave them overlapping
+  const timed = packed.find(i => i.id === item.id)!;
+  await scheduleItems.edit({
+    updates: [
+      {
+        id: item.id,
+        start_time: timed.start_time,
+        end_time: timed.end_time,
+        ...(title !== undefined ? { title } : {}),
+        ...(changes.completed !== undefined ? { completed: changes.completed } : {}),
+      },
+      ...retimed(items.filter(i => i.id !== item.id), packed),
+    ],
+    added: [],
+  });
+
+  if (item.task_id) {
+    if (title !== undefined) {
+      await tasks.update(userId, item.task_id, { title });
+      await scheduleItems.updateForTask(item.task_id, { title });
+    }
+
+    if (changes.completed === true && !item.completed) {
+      await tasks.update(userId, item.task_id, { status: 'completed', completed_at: new Date().toISOString() });
+
+      const task = await tasks.get(userId, item.task_id);
+      const keywords = extractKeywordsFromTask(task?.title ?? item.title);
+      const minutes = durationOf(timed);
+      if (keywords.length > 0 && minutes > 0) {
+        await updateTaskPattern(patterns, userId, keywords, minutes, true);
+      }
+    } else if (changes.completed === false && item.completed) {
+      await tasks.update(userId, item.task_id, { status: 'scheduled', completed_at: null });
+    }
+  }
+
+  return finish(repositories, userId, [day.date], item.id);
+}
+
+/**
+ * Put the day's movable items in the order of `itemIds`, which must name each
+ * of them once. Meetings and events keep their times, so they may be listed or not.
+ */
+export async function reorderScheduleItems(
+  repositories: Repositories,
+  userId: string,
+  day: ScheduleDay,
+  itemIds: string[]
+): Promise<ItemEditResult> {
+  const schedule = await repositories.schedules.getForDate(userId, day.date);
+  if (!schedule) return fail('not_found', `No schedule for ${day.date}`);
+
+  const items = schedule.items || [];
+  const byId = new Map(items.map(item => [item.id, item]));
+  const unknown = itemIds.filter(id => !byId.has(id));
+  if (unknown.length > 0) return fail('invalid_request', `Not on ${day.date}: ${unknown.join(', ')}`);
+
+  const movableIds = itemIds.filter(id => !isFixedItemType(byId.get(id)!.item_type));
+  const expected = items.filter(item => !isFixedItemType(item.item_type));
+  if (new Set(movableIds).size !== movableIds.length || movableIds.length !== expected.length) {
+    return fail('invalid_request', 'item_ids must name each of the day\'s movable items exactly once');
+  }
+
+  const packed = pack(
+    [...movableIds.map(id => byId.get(id)!), ...items.filter(item => isFixedItemType(item.item_type))],
+    day.startTime
+  );
+  if (!packed) return noRoom(day.date);
+
+  await saveTimes(repositories.scheduleItems, items, packed);
+
+  return finish(repositories, userId, [day.date], null);
+}
+
+/**
+ * Move an item to `position` on another day (or within its own), keeping its
+ * id and completion. Both days are re-packed. Meetings and events are pinned
+ * to their day and time.
+ */
+export async function moveScheduleItem(
+  repositories: Repositories,
+  userId: string,
+  day: ScheduleDay,
+  itemId: string,
+  target: ScheduleDay,
+  position?: number
+): Promise<ItemEditResult> {
+  const { scheduleItems } = repositories;
+  const found = await findItem(repositories, userId, day.date, itemId);
+  if (!found) return fail('not_found', 'Schedule item not found');
+  const { items, item } = found;
+
+  if (isFixedItemType(item.item_type)) return fail('conflict', 'Meetings and events are pinned to their day and time');
+
+  const remaining = items.filter(i => i.id !== item.id);
+
+  if (target.date === day.date) {
+    const packed = pack(insertMovable(remaining, item, position), day.startTime);
+    if (!packed) return noRoom(day.date);
+    await saveTimes(scheduleItems, items, packed);
+    return finish(repositories, userId, [day.date], item.id);
+  }
+
+  const targetSchedule = await getOrCreateSchedule(repositories, userId, target);
+  const targetItems = targetSchedule.items || [];
+  const moved = { ...item, schedule_id: targetSchedule.id };
+
+  const packedTarget = pack(insertMovable(targetItems, moved, position), target.startTime);
+  if (!packedTarget) return noRoom(target.date);
+  const packedSource = recalculateTimeSlots(remaining, day.startTime);
+
+  // The item and both days together, so a failure can't leave it half-moved
+  const timed = packedTarget.find(i => i.id === item.id)!;
+  await scheduleItems.edit({
+    updates: [
+      { id: item.id, schedule_id: targetSchedule.id, start_time: timed.start_time, end_time: timed.end_time },
+      ...retimed(targetItems, packedTarget),
+      ...retimed(remaining, packedSource),
+    ],
+    added: [],
+  });
+
+  return finish(repositories, userId, [day.date, target.date], item.id);
+}
+
+/**
+ * Split an item in two: it keeps the first `firstDuration` minutes and a copy
+ * (same task, type and title) takes the rest right after it.
+ */
+export async function splitScheduleItem(
+  repositories: Repositories,
+  userId: string,
+  day: ScheduleDay,
+  itemId: string,
+  firstDuration: number
+): Promise<ItemEditResult> {
+  const { scheduleItems } = repositories;
+  const found = await findItem(repositories, userId, day.date, itemId);
+  if (!found) return fail('not_found', 'Schedule item not found');
+  const { schedule, items, item } = found;
+
+  if (isFixedItemType(item.item_type)) return fail('conflict', 'Meetings and events can\'t be split');
+
+  const total = durationOf(item);
+  if (firstDuration >= total) return fail('invalid_request', `first_duration must be less than the item's ${total} minutes`);
+
+  const start = timeToMinutes(item.start_time);
+  const first = { ...item, end_time: minutesToTime(start + firstDuration) };
+  const second: ScheduleItem = { ...item, id: '', start_time: '00:00', end_time: minutesToTime(total - firstDuration) };
+
+  const movable = items.filter(i => !isFixedItemType(i.item_type));
+  const index = movable.findIndex(i => i.id === item.id);
+  const edited = insertMovable(items.map(i => (i.id === item.id ? first : i)), second, index + 1);
+
+  const packed = pack(edited, day.startTime);
+  if (!packed) return noRoom(day.date);
+  const placed = packed.find(i => i.id === '')!;
+
+  const [created] = await scheduleItems.edit({
+    updates: retimed(items, packed),
+    added: [{
+      schedule_id: schedule.id,
+      task_id: item.task_id ?? null,
+      item_type: item.item_type,
+      title: item.title,
+      completed: item.completed,
+      start_time: placed.start_time,
+      end_time: placed.end_time,
+    }],
+  });
+
+  return finish(repositories, userId, [day.date], created.id);
+}
+
+/**
+ * Delete an item and close the gap. A task whose last item this was goes back
+ * to pending, unless it was completed.
+ */
+export async function deleteScheduleItem(
+  repositories: Repositories,
+  userId: string,
+  day: ScheduleDay,
+  itemId: string
+): Promise<ItemEditResult> {
+  const { tasks, scheduleItems } = repositories;
+  const found = await findItem(repositories, userId, day.date, itemId);
+  if (!found) return fail('not_found', 'Schedule item not found');
+  const { items, item } = found;
+
+  // The delete and closing the gap together
+  const remaining = items.filter(i => i.id !== item.id);
+  await scheduleItems.edit({
+    updates: retimed(remaining, recalculateTimeSlots(remaining, day.startTime)),
+    added: [],
+    deleted: [item.id],
+  });
+
+  if (item.task_id && (await scheduleItems.listForTasks([item.task_id])).length === 0) {
+    const task = await tasks.get(userId, item.task_id);
+    if (task && task.status === 'scheduled') await tasks.update(userId, task.id, { status: 'pending' });
+  }
+
+  return finish(repositories, userId, [day.date], null);
+}
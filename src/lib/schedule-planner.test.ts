@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { Task, ScheduleItem, Schedule } from '@/types';
+import { createMemoryRepositories, MemoryData } from './memory-repositories';
+import { finishWeek, getScheduledTaskIds } from './schedule-planner';
+
+const USER = 'user-1';
+
+const task = (id: string, status: Task['status'] = 'pending'): Task =>
+  ({ id, user_id: USER, title: `Task ${id}`, priority: 'medium', status, created_at: '2026-10-01T09:00:00Z' });
+
+const schedule = (id: string, date: string): Schedule =>
+  ({ id, user_id: USER, schedule_date: date, schedule_data: { total_hours: 7, work_blocks: 1, break_blocks: 0 }, created_at: '' });
+
+const item = (id: string, scheduleId: string, taskId: string): ScheduleItem =>
+  ({ id, schedule_id: scheduleId, task_id: taskId, start_time: '09:00', end_time: '10:00', item_type: 'task', title: taskId, completed: false });
+
+describe('getScheduledTaskIds', () => {
+  it('lists each task with a block once', () => {
+    const items = [
+      { task_id: 'a', start_time: '09:00', end_time: '10:00', item_type: 'task' as const, title: 'A' },
+      { task_id: null, start_time: '10:00', end_time: '10:10', item_type: 'break' as const, title: 'Break' },
+      { task_id: 'a', start_time: '10:10', end_time: '11:00', item_type: 'task' as const, title: 'A' },
+    ];
+    expect(getScheduledTaskIds([{ date: '2026-10-20', schedule_data: { total_hours: 7, work_blocks: 2, break_blocks: 1 }, items }])).toEqual(['a']);
+  });
+});
+
+describe('finishWeek', () => {
+  function seed(): MemoryData {
+    return {
+      tasks: [task('a'), task('b', 'rolled_over')],
+      schedules: [schedule('past', '2026-10-16'), schedule('later', '2026-10-23'), schedule('new', '2026-10-20')],
+      scheduleItems: [item('old', 'past', 'a'), item('dup', 'later', 'a'), item('kept', 'new', 'a'), item('other', 'later', 'b')],
+      patterns: [],
+      rollovers: [],
+    };
+  }
+
+  it('keeps one slot per scheduled task from the start of the week on', async () => {
+    const data = seed();
+    await finishWeek(createMemoryRepositories(data), USER, ['a'], ['new'], '2026-10-19');
+
+    expect(data.scheduleItems.map(i => i.id).sort()).toEqual(['kept', 'old', 'other']);
+    expect(data.tasks.map(t => [t.id, t.status])).toEqual([['a', 'scheduled'], ['b', 'rolled_over']]);
+  });
+
+  it('leaves everything alone when no task got a block', async () => {
+    const data = seed();
+    await finishWeek(createMemoryRepositories(data), USER, [], ['new'], '2026-10-19');
+
+    expect(data.scheduleItems).toHaveLength(4);
+    expect(data.tasks.map(t => t.status)).toEqual(['pending', 'rolled_over']);
+  });
+});
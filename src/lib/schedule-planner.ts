@@ -0,0 +1,331 @@
+// src/lib/schedule-planner.ts
+//
+// Server-side schedule generation for one day or a range of days. Every day
+// goes through the same prompt, quota check and local fallback. A range is
+// spread by estimated duration and either generated in full and only then
+// written (planWeek), or written and reported day by day (streamWeekPlan).
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Task, TaskPattern, ScheduleBlock, ScheduleEngine, DeadlineRisk } from '@/types';
+import { generateOptimalSchedule, describeTasksForPrompt } from './scheduler';
+import { generateLocalSchedule } from './local-scheduler';
+import { getDeadlineRisks } from './due-dates';
+import { findTaskForBlock } from './schedule-blocks';
+import { orderBlocksByDependencies } from './task-dependencies';
+import { distributeTasksAcrossDays } from './week-distribution';
+import { materializeRecurringTasks } from './recurring-tasks';
+import { FixedEvent, isFixedItemType, toFixedEvent } from './fixed-events';
+import { DayProfile, loadUserSettings, getDayProfile, getSettingsTimeZone } from './user-settings';
+import { getZonedToday, addCalendarDays } from './time-zones';
+import { Repositories, createSupabaseRepositories, NewScheduleItem, ScheduleWrite } from './repositories';
+import { getLlmProvider } from './llm-provider';
+import { checkLlmQuota, trackLlmCall } from './llm-usage';
+
+export interface DayPlan {
+  date: string;
+  engine: ScheduleEngine;
+  blocks: ScheduleBlock[];
+  suggestions: string[];
+  atRisk: DeadlineRisk[];
+}
+
+export interface WeekPlan {
+  days: DayPlan[];
+  atRisk: DeadlineRisk[];
+}
+
+/**
+ * Schedule one day's tasks with the model, or the local engine when asked
+ * for, when the user is out of quota or budget, or when the model call fails.
+ * Nothing is written.
+ */
+export async function generateDaySchedule(
+  supabase: SupabaseClient,
+  userId: string,
+  { date, tasks, profile, fixedEvents, patterns, engine, timeZone }: {
+    date: string;
+    tasks: Task[];
+    profile: DayProfile;
+    fixedEvents: FixedEvent[];
+    patterns: TaskPattern[];
+    engine: ScheduleEngine;
+    timeZone: string;
+  }
+): Promise<DayPlan> {
+  let engineUsed = engine;
+  if (engineUsed === 'llm') {
+    const quota = await checkLlmQuota(supabase, userId, timeZone);
+    if (!quota.allowed) {
+      console.warn(`${quota.reason}; using the local engine`);
+      engineUsed = 'local';
+    }
+  }
+
+  let blocks: ScheduleBlock[] = [];
+  let suggestions: string[] = [];
+
+  if (engineUsed === 'llm') {
+    try {
+      ({ blocks, suggestions } = await trackLlmCall(supabase, userId, 'generate_schedule', getLlmProvider(), meter =>
+        generateOptimalSchedule(describeTasksForPrompt(tasks), patterns, date, profile, fixedEvents, meter)
+      ));
+    } catch (llmError) {
+      console.error('LLM schedule generation failed, falling back to local engine:', llmError);
+      engineUsed = 'local';
+    }
+  }
+
+  if (engineUsed === 'local') {
+    ({ blocks, suggestions } = generateLocalSchedule(tasks, patterns, date, { ...profile, fixedEvents }));
+  }
+
+  // A task the model scheduled twice keeps its first block
+  const seen = new Set<string>();
+  blocks = blocks.filter(block => {
+    if (block.type !== 'task') return true;
+    const key = block.title.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  // Prerequisites always run before the tasks they block
+  blocks = orderBlocksByDependencies(blocks, tasks);
+
+  return { date, engine: engineUsed, blocks, suggestions, atRisk: getDeadlineRisks(tasks, blocks, date) };
+}
+
+/** The movable items to store for a day's blocks; fixed events are already stored */
+export function toScheduleItems(blocks: ScheduleBlock[], tasks: Task[]): NewScheduleItem[] {
+  return blocks.filter(block => !isFixedItemType(block.type)).map(block => ({
+    task_id: findTaskForBlock(block, tasks)?.id || null,
+    start_time: block.start_time,
+    end_time: block.end_time,
+    item_type: block.type,
+    title: block.title,
+  }));
+}
+
+export function getScheduleData(blocks: ScheduleBlock[], profile: DayProfile, suggestions: string[]) {
+  return {
+    total_hours: profile.workHours,
+    work_blocks: blocks.filter(b => b.type === 'task').length,
+    break_blocks: blocks.filter(b => b.type === 'break' || b.type === 'lunch').length,
+    suggestions,
+  };
+}
+
+interface WeekOptions {
+  from: string;
+  to: string;
+  taskIds?: string[];
+  engine?: ScheduleEngine;
+  now?: Date;
+}
+
+interface PreparedDay {
+  date: string;
+  tasks: Task[];
+  profile: DayProfile;
+  fixedEvents: FixedEvent[];
+}
+
+interface PreparedWeek {
+  start: string; // the first date planned for
+  days: PreparedDay[];
+  patterns: TaskPattern[];
+  timeZone: string;
+  atRisk: DeadlineRisk[];
+}
+
+/**
+ * The workdays from `from` to `to` (yyyy-MM-dd, the user's zone; days before
+ * today are skipped) with the tasks each should get. Recurring occurrences
+ * are created first, then the open tasks — or just `taskIds` plus those
+ * occurrences — are spread by estimated duration.
+ */
+async function prepareWeek(
+  supabase: SupabaseClient,
+  userId: string,
+  { from, to, taskIds, now = new Date() }: WeekOptions
+): Promise<PreparedWeek> {
+  const settings = await loadUserSettings(supabase, userId);
+  const timeZone = getSettingsTimeZone(settings);
+  const today = getZonedToday(timeZone, now);
+
+  const dates: string[] = [];
+  for (let date = from < today ? today : from; date <= to; date = addCalendarDays(date, 1)) {
+    if (getDayProfile(settings, date).isWorkday) dates.push(date);
+  }
+  if (dates.length === 0) return { start: from, days: [], patterns: [], timeZone, atRisk: [] };
+
+  // Recurring tasks for the range have to exist before they can be distributed
+  const created = await materializeRecurringTasks(supabase, userId, dates[0], dates[dates.length - 1]);
+
+  const repositories = createSupabaseRepositories(supabase);
+  const openTasks = (await repositories.tasks.listOpen(userId))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const wanted = taskIds && new Set([...taskIds, ...created.map(t => t.id)]);
+  const tasks = openTasks.filter(t => !wanted || wanted.has(t.id));
+  if (tasks.length === 0) return { start: dates[0], days: [], patterns: [], timeZone, atRisk: [] };
+
+  const patterns = await repositories.patterns.list(userId);
+  const profiles = dates.map(date => getDayProfile(settings, date));
+
+  const { tasksPerDay, atRisk } = distributeTasksAcrossDays(tasks, dates, {
+    patterns,
+    hoursPerDay: profiles.map(profile => profile.workHours),
+  });
+
+  // Meetings and events already on these days are immovable
+  const existingSchedules = await repositories.schedules.listRange(userId, dates[0], dates[dates.length - 1]);
+  const existingByDate = new Map(existingSchedules.map(s => [s.schedule_date, s]));
+
+  const days = dates
+    .map((date, i) => ({
+      date,
+      tasks: tasksPerDay[i],
+      profile: profiles[i],
+      fixedEvents: (existingByDate.get(date)?.items || [])
+        .map(toFixedEvent)
+        .filter((event): event is FixedEvent => event !== null),
+    }))
+    .filter(day => day.tasks.length > 0);
+
+  return { start: dates[0], days, patterns, timeZone, atRisk };
+}
+
+function toScheduleWrite(prepared: PreparedDay, day: DayPlan): ScheduleWrite {
+  return {
+    date: day.date,
+    schedule_data: getScheduleData(day.blocks, prepared.profile, day.suggestions),
+    items: toScheduleItems(day.blocks, prepared.tasks),
+  };
+}
+
+/** The tasks that got a block in the saved days */
+export function getScheduledTaskIds(writes: ScheduleWrite[]): string[] {
+  return [...new Set(writes.flatMap(write => write.items.map(item => item.task_id).filter((id): id is string => !!id)))];
+}
+
+/**
+ * Mark the tasks that got a block scheduled and drop their other items from
+ * `start` on. Items on earlier days are history and stay; tasks the plan left
+ * out keep their status and slots.
+ */
+export async function finishWeek(
+  { tasks, schedules, scheduleItems }: Repositories,
+  userId: string,
+  scheduledIds: string[],
+  savedScheduleIds: string[],
+  start: string
+) {
+  if (scheduledIds.length === 0) return;
+
+  // One slot per task
+  const saved = new Set(savedScheduleIds);
+  const others = (await scheduleItems.listForTasks(scheduledIds)).filter(item => !saved.has(item.schedule_id));
+  const otherDays = await Promise.all(
+    [...new Set(others.map(item => item.schedule_id))].map(id => schedules.getById(userId, id))
+  );
+  const fromStart = new Set(otherDays.flatMap(day => (day && day.schedule_date >= start ? [day.id] : [])));
+  await scheduleItems.delete(others.filter(item => fromStart.has(item.schedule_id)).map(item => item.id));
+
+  await tasks.update(userId, scheduledIds, { status: 'scheduled' });
+}
+
+function mergeRisks(risks: DeadlineRisk[], more: DeadlineRisk[]) {
+  risks.push(...more.filter(r => !risks.some(existing => existing.task_id === r.task_id)));
+}
+
+/**
+ * Plan and save the user's workdays from `from` to `to`. Every day is
+ * generated first, then all of them are written in one transaction.
+ */
+export async function planWeek(
+  supabase: SupabaseClient,
+  userId: string,
+  options: WeekOptions
+): Promise<WeekPlan> {
+  const week = await prepareWeek(supabase, userId, options);
+
+  const days: DayPlan[] = [];
+  for (const prepared of week.days) {
+    days.push(await generateDaySchedule(supabase, userId, {
+      ...prepared,
+      patterns: week.patterns,
+      engine: options.engine || 'llm',
+      timeZone: week.timeZone,
+    }));
+  }
+
+  const repositories = createSupabaseRepositories(supabase);
+  const writes = days.map((day, i) => toScheduleWrite(week.days[i], day));
+  const saved = await repositories.schedules.replace(userId, writes);
+
+  await finishWeek(repositories, userId, getScheduledTaskIds(writes), saved.map(schedule => schedule.id), week.start);
+
+  const atRisk = [...week.atRisk];
+  for (const day of days) mergeRisks(atRisk, day.atRisk);
+
+  return { days, atRisk };
+}
+
+export type WeekPlanEvent =
+  | { type: 'start'; dates: string[] }
+  | { type: 'day'; day: DayPlan }
+  | { type: 'day_error'; date: string; error: string }
+  | { type: 'done'; atRisk: DeadlineRisk[]; failed: string[] }
+  | { type: 'error'; error: string }; // the week couldn't be prepared
+
+/**
+ * planWeek one day at a time: each day is saved as soon as it is generated
+ * and reported through `onEvent`. A day that fails is reported and skipped —
+ * its tasks keep their old slots, and the ones with deadlines come back as
+ * unscheduled risks. Once `signal` aborts, no further day is started.
+ */
+export async function streamWeekPlan(
+  supabase: SupabaseClient,
+  userId: string,
+  options: WeekOptions,
+  onEvent: (event: WeekPlanEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const week = await prepareWeek(supabase, userId, options);
+  onEvent({ type: 'start', dates: week.days.map(day => day.date) });
+
+  const repositories = createSupabaseRepositories(supabase);
+  const atRisk = [...week.atRisk];
+  const saved: string[] = [];
+  const writes: ScheduleWrite[] = [];
+  const failed: string[] = [];
+
+  for (const prepared of week.days) {
+    if (signal?.aborted) break;
+    try {
+      const day = await generateDaySchedule(supabase, userId, {
+        ...prepared,
+        patterns: week.patterns,
+        engine: options.engine || 'llm',
+        timeZone: week.timeZone,
+      });
+      const write = toScheduleWrite(prepared, day);
+      const [schedule] = await repositories.schedules.replace(userId, [write]);
+      saved.push(schedule.id);
+      writes.push(write);
+      mergeRisks(atRisk, day.atRisk);
+      onEvent({ type: 'day', day });
+    } catch (error) {
+      console.error(`Planning ${prepared.date} failed:`, error);
+      failed.push(prepared.date);
+      mergeRisks(atRisk, prepared.tasks
+        .filter(t => t.due_date)
+        .map(t => ({ task_id: t.id, title: t.title, due_date: t.due_date!, due_time: t.due_time, reason: 'unscheduled' as const })));
+      onEvent({ type: 'day_error', date: prepared.date, error: error instanceof Error ? error.message : 'Failed to plan this day' });
+    }
+  }
+
+  await finishWeek(repositories, userId, getScheduledTaskIds(writes), saved, week.start);
+  onEvent({ type: 'done', atRisk, failed });
+}
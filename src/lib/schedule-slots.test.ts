@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { ScheduleItem } from '@/types';
+import { recalculateTimeSlots, moveLunch } from './schedule-slots';
+
+type Item = Pick<ScheduleItem, 'id' | 'item_type' | 'start_time' | 'end_time'>;
+
+const item = (id: string, item_type: ScheduleItem['item_type'], start_time: string, end_time: string): Item =>
+  ({ id, item_type, start_time, end_time });
+
+const times = (items: Item[]) => items.map(i => `${i.id} ${i.start_time}-${i.end_time}`);
+
+describe('recalculateTimeSlots', () => {
+  it('packs movable items in order from the start of the day', () => {
+    const packed = recalculateTimeSlots([
+      item('b', 'task', '13:00', '13:45'),
+      item('a', 'task', '10:00', '10:30'),
+      item('break', 'break', '15:00', '15:10'),
+    ], '09:00');
+    expect(times(packed)).toEqual(['b 09:00-09:45', 'a 09:45-10:15', 'break 10:15-10:25']);
+  });
+
+  it('flows around meetings and events without moving them', () => {
+    const packed = recalculateTimeSlots([
+      item('a', 'task', '09:00', '10:00'),
+      item('b', 'task', '10:00', '11:00'),
+      item('m', 'meeting', '09:30', '10:00'),
+      item('e', 'event', '11:00', '11:15'),
+    ], '09:00');
+    expect(times(packed)).toEqual(['m 09:30-10:00', 'a 10:00-11:00', 'e 11:00-11:15', 'b 11:15-12:15']);
+  });
+
+  it('leaves a day of only fixed items alone', () => {
+    const day = [item('m', 'meeting', '14:00', '15:00')];
+    expect(recalculateTimeSlots(day, '09:00')).toEqual(day);
+  });
+});
+
+describe('moveLunch', () => {
+  const day = [
+    item('a', 'task', '09:00', '10:00'),
+    item('b', 'task', '10:00', '11:30'),
+    item('lunch', 'lunch', '12:00', '13:00'),
+    item('c', 'task', '13:00', '14:00'),
+  ];
+
+  it('keeps what still fits in the morning and moves the rest after lunch', () => {
+    expect(times(moveLunch(day, '10:30', '09:00')!)).toEqual([
+      'a 09:00-10:00', 'lunch 10:30-11:30', 'b 11:30-13:00', 'c 13:00-14:00',
+    ]);
+  });
+
+  it('pulls afternoon items forward when lunch moves later', () => {
+    expect(times(moveLunch(day, '13:30', '09:00')!)).toEqual([
+      'a 09:00-10:00', 'b 10:00-11:30', 'c 11:30-12:30', 'lunch 13:30-14:30',
+    ]);
+  });
+
+  it('is null without a lunch', () => {
+    expect(moveLunch(day.filter(i => i.item_type !== 'lunch'), '12:00', '09:00')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+// src/lib/schedule-slots.ts
+//
+// Re-timing a day's items after the user edits it (drag and drop, a new
+// duration, a moved lunch). Meetings and events never move; everything else
+// keeps its order and is packed from the start of the day around them.
+
+import { ScheduleItem } from '@/types';
+import { isFixedItemType, flowAroundFixed } from './fixed-events';
+import { timeToMinutes, minutesToTime } from './format-time';
+
+type SlottedItem = Pick<ScheduleItem, 'item_type' | 'start_time' | 'end_time'>;
+
+const byStart = (a: SlottedItem, b: SlottedItem) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time);
+
+/** Pack the movable items, in their current order, from `dayStart` around the fixed ones */
+export function recalculateTimeSlots<T extends SlottedItem>(items: T[], dayStart: string): T[] {
+  const fixed = items.filter(item => isFixedItemType(item.item_type));
+  const movable = flowAroundFixed(items.filter(item => !isFixedItemType(item.item_type)), fixed, timeToMinutes(dayStart));
+
+  return [...movable, ...fixed].sort(byStart);
+}
+
+/**
+ * Move the day's lunch to `lunchStart`, keeping its length. Movable items that
+ * still fit before it (in order, packed from `dayStart`) stay in the morning;
+ * the rest follow lunch. Null when the day has no lunch block.
+ */
+export function moveLunch<T extends SlottedItem & { id: string }>(items: T[], lunchStart: string, dayStart: string): T[] | null {
+  const current = items.find(item => item.item_type === 'lunch');
+  if (!current) return null;
+
+  const lunchMinutes = timeToMinutes(lunchStart);
+  const lunch = {
+    ...current,
+    start_time: lunchStart,
+    end_time: minutesToTime(lunchMinutes + timeToMinutes(current.end_time) - timeToMinutes(current.start_time)),
+  };
+
+  const fixed = items.filter(item => isFixedItemType(item.item_type));
+  const others = items.filter(item => item.id !== lunch.id && item.item_type !== 'lunch' && !isFixedItemType(item.item_type));
+
+  const preLunch: T[] = [];
+  const postLunch: T[] = [];
+  let currentTime = timeToMinutes(dayStart);
+  for (const item of others) {
+    const duration = timeToMinutes(item.end_time) - timeToMinutes(item.start_time);
+    if (currentTime + duration <= lunchMinutes) {
+      preLunch.push(item);
+      currentTime += duration;
+    } else {
+      postLunch.push(item);
+    }
+  }
+
+  // Lunch stays where it was put, like a meeting, and the rest flows around it
+  const movable = flowAroundFixed([...preLunch, ...postLunch], [...fixed, lunch], timeToMinutes(dayStart));
+  return [...movable, lunch, ...fixed].sort(byStart);
+}
@@ -1,31 +1,41 @@
 // src/lib/scheduler.ts
 
-import Anthropic from '@anthropic-ai/sdk';
-import { TaskPattern } from '@/types';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-});
-
-interface ScheduleBlock {
-  start_time: string;
-  end_time: string;
-  type: 'task' | 'break' | 'lunch';
-  title: string;
-  description?: string;
-  estimated_duration: number;
+import { format, parseISO } from 'date-fns';
+import { Task, TaskPattern, ScheduleBlock } from '@/types';
+import { normalizeDueFields } from './due-dates';
+import { withRecurrence } from './recurring-tasks';
+import { FixedEvent, mergeWithFixedEvents } from './fixed-events';
+import { DayProfile, DEFAULT_USER_SETTINGS, getDayProfile } from './user-settings';
+import { formatDisplayTime, timeToMinutes, minutesToTime } from './format-time';
+import { PARSED_TASKS_TOOL, SCHEDULE_TOOL, ParsedTaskInput } from './llm-schemas';
+import { getLlmProvider, LlmMeter, LlmProvider } from './llm-provider';
+import { describePrerequisites } from './task-dependencies';
+import { describeSlips } from './escalation';
+
+/**
+ * One prompt line per task: the exact title first, so blocks can be matched
+ * back to tasks, then its tags and any description.
+ */
+export function describeTasksForPrompt(tasks: Task[]): string[] {
+  return tasks.map(t =>
+    `${t.title} [Priority: ${t.priority}]${t.estimated_duration ? ` [Est: ${t.estimated_duration}min]` : ''}${t.due_date ? ` [Due: ${t.due_date}${t.due_time ? ` ${t.due_time}` : ''}]` : ''}${describePrerequisites(t, tasks)}${describeSlips(t)}${t.description ? ` - ${t.description}` : ''}`
+  );
 }
 
 export async function generateOptimalSchedule(
   taskDescriptions: string[],
   patterns: TaskPattern[] = [],
   date: string,
-  workHours: number = 6
+  profile: DayProfile = getDayProfile(DEFAULT_USER_SETTINGS, date),
+  fixedEvents: FixedEvent[] = [],
+  meter?: LlmMeter,
+  provider: LlmProvider = getLlmProvider()
 ): Promise<{
   blocks: ScheduleBlock[];
   suggestions: string[];
 }> {
-  const dayOfWeek = new Date(date).toLocaleDateString('en-US', { weekday: 'long' });
+  // parseISO reads yyyy-MM-dd as a local date; new Date() would read it as UTC midnight
+  const dayOfWeek = format(parseISO(date), 'EEEE');
   
   // Build context about learned patterns
   const patternContext = patterns.length > 0
@@ -35,20 +45,38 @@ ${patterns.map(p =>
 ).join('\n')}`
     : '';
 
+  const fixedContext = fixedEvents.length > 0
+    ? `\n\nFIXED EVENTS (immovable - schedule around these, never overlap or move them):
+${fixedEvents.map(e => `- ${e.start_time}-${e.end_time}: ${e.title}`).join('\n')}`
+    : '';
+
+  const { workHours, startTime, endTime, lunchStart, lunchDuration } = profile;
+  const lunchEnd = minutesToTime(timeToMinutes(lunchStart) + lunchDuration);
+  const breakRule = Number.isFinite(profile.breakEvery) && profile.breakDuration > 0
+    ? `  * Short breaks: ${profile.breakDuration} minutes about every ${profile.breakEvery} minutes of work`
+    : '  * No scheduled short breaks';
+  const lunchRule = lunchDuration > 0
+    ? `  * Lunch break: ${lunchDuration} minutes from ${formatDisplayTime(lunchStart)}`
+    : '  * No lunch block';
+
   const prompt = `You are a productivity scheduling assistant. Generate an optimal ${workHours}-hour work schedule for ${dayOfWeek}, ${date}.
 
 TASKS TO SCHEDULE:
 ${taskDescriptions.map((task, i) => `${i + 1}. ${task}`).join('\n')}
-${patternContext}
+${patternContext}${fixedContext}
 
 REQUIREMENTS:
 - Total work time: ${workHours} hours (${workHours * 60} minutes)
-- Start time: 9:00 AM
-- End time: ${9 + workHours}:00 ${9 + workHours >= 12 ? 'PM' : 'AM'} (with breaks)
+- Start time: ${formatDisplayTime(startTime)}
+- End time: ${formatDisplayTime(endTime)} at the latest (with breaks)
 - Include healthy breaks for wellbeing:
-  * Short breaks: 5-10 minutes every 60-90 minutes
-  * Lunch break: 30 minutes around midday
+${breakRule}
+${lunchRule}
 - Schedule high-priority/complex tasks when energy is typically higher (morning)
+- Use a task's [Est: ...] as its block length unless the historical patterns suggest otherwise
+- Tasks tagged [Due: ...] are deadlines: schedule them first and make sure they end before their due time
+- Tasks tagged [After: ...] must be scheduled after every task they list
+- Tasks tagged [Slipped: Nx] have been rolled over N times: order them ahead of other tasks of the same priority, the higher N the earlier, so they stop slipping
 - Schedule lighter tasks for post-lunch
 - Leave buffer time for unexpected issues
 - Consider the historical patterns when estimating durations
@@ -56,81 +84,58 @@ REQUIREMENTS:
 CRITICAL RULES:
 - DO NOT combine multiple tasks into one schedule block
 - Each task must get its own separate time block
-- Use the EXACT task title as provided in the task list - do not shorten, summarize, or group tasks
+- Use the EXACT task title as provided in the task list (without the bracketed tags or the description after them) - do not shorten, summarize, or group tasks
 - Example: If there are 3 "follow-up" tasks, create 3 separate blocks with their exact individual titles
 
-Respond with a JSON object containing:
-{
-  "blocks": [
-    {
-      "start_time": "09:00",
-      "end_time": "10:30",
-      "type": "task",
-      "title": "Task name",
-      "description": "Brief description",
-      "estimated_duration": 90
-    },
-    {
-      "start_time": "10:30",
-      "end_time": "10:40",
-      "type": "break",
-      "title": "Short break",
-      "estimated_duration": 10
-    },
-    {
-      "start_time": "12:00",
-      "end_time": "12:30",
-      "type": "lunch",
-      "title": "Lunch break",
-      "estimated_duration": 30
-    }
-  ],
-  "suggestions": [
-    "Tip about the schedule",
-    "Another helpful suggestion"
-  ]
-}
-
-CRITICAL: Use type "lunch" (not "break") for the 30-minute lunch break around midday.
-IMPORTANT: Return ONLY valid JSON, no explanatory text before or after.`;
-
-  const message = await anthropic.messages.create({
-    model: 'claude-sonnet-4-5-20250929',
-    max_tokens: 2000,
-    messages: [
-      {
-        role: 'user',
-        content: prompt
-      }
-    ]
-  });
+Record the schedule with the ${SCHEDULE_TOOL.name} tool:
+- Blocks are consecutive and never overlap each other or a fixed event
+- Every block starts at or after ${startTime} and ends by ${endTime}; end_time is after start_time
+- estimated_duration is the block's length in minutes
+- Use type "task" for tasks, "break" for short breaks and "lunch" for lunch; leave the fixed events out
+- Add a few short tips about the day to suggestions
 
-  const content = message.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
-  }
+CRITICAL: Use type "lunch" (not "break") for the lunch break${lunchDuration > 0 ? ` (${lunchStart}-${lunchEnd})` : ' (omit it — this day has no lunch block)'}.`;
 
-  // Parse the JSON response
-  const jsonMatch = content.text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('Could not parse schedule from Claude response');
-  }
+  const schedule = await provider.generateSchedule({
+    prompt,
+    tasks: taskDescriptions,
+    bounds: { startTime, endTime, fixedEvents },
+    meter,
+  });
 
-  const result = JSON.parse(jsonMatch[0]);
-  return result;
+  return {
+    ...schedule,
+    blocks: mergeWithFixedEvents(schedule.blocks, fixedEvents, startTime),
+  };
 }
 
-export async function parseTasksFromNaturalLanguage(
-  input: string
-): Promise<Array<{
+export interface ParsedTask {
   title: string;
   description?: string;
   estimated_duration?: number;
   priority: 'high' | 'medium' | 'low';
   tags: string[];
-}>> {
+  due_date: string | null;
+  due_time: string | null;
+  rrule: string | null; // set when the task repeats and should become a template
+}
+
+export async function parseTasksFromNaturalLanguage(
+  input: string,
+  today: Date = new Date(),
+  meter?: LlmMeter,
+  patterns: TaskPattern[] = [],
+  provider: LlmProvider = getLlmProvider()
+): Promise<ParsedTask[]> {
+  const patternContext = patterns.length > 0
+    ? `\n\nWhen no duration is mentioned, estimate it from these historical patterns (in minutes), or make your best guess if none matches:
+${patterns.map(p => `- Tasks matching "${p.task_keywords.join(', ')}" typically take ${p.average_duration} minutes`).join('\n')}`
+    : '';
+
   const prompt = `Parse the following task input into structured task objects.
 
+Today is ${format(today, 'EEEE, yyyy-MM-dd')}.
+
 INPUT:
 ${input}
 
@@ -142,70 +147,20 @@ Extract individual tasks and for each one, determine:
 - estimated_duration: Time in minutes (if mentioned like "30 minutes", "2 hours", or inferable)
 - priority: high, medium, or low (based on labels like "Priority", "Mid Tier", "Low Tier", "urgent", "ASAP", etc.)
 - tags: Relevant keywords/categories
+- due_date: Deadline as YYYY-MM-DD if one is mentioned ("by Friday", "EOD", "due 3/15"), resolved relative to today; otherwise null
+- due_time: Deadline time as HH:MM (24h) if mentioned; "EOD" means 17:00; otherwise null
+- recurrence: If the task repeats, the repeat phrase exactly as written ("every Tuesday", "daily", "weekdays", "first Monday of the month"); otherwise null. Leave the phrase out of the title.${patternContext}
 
-Respond with JSON array only:
-[
-  {
-    "title": "Exact original task wording here",
-    "description": "Additional details if any",
-    "estimated_duration": 60,
-    "priority": "high",
-    "tags": ["category1", "category2"]
-  }
-]
-
-Return ONLY the JSON array, no other text.`;
-
-  const message = await anthropic.messages.create({
-    model: 'claude-sonnet-4-5-20250929',
-    max_tokens: 4000, // Increased for large task lists
-    messages: [
-      {
-        role: 'user',
-        content: prompt
-      }
-    ]
-  });
+Record every task with the ${PARSED_TASKS_TOOL.name} tool, one entry per task.`;
 
-  const content = message.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type from Claude');
-  }
-
-  // Try to extract JSON array from response
-  const jsonMatch = content.text.match(/\[[\s\S]*\]/);
-  if (!jsonMatch) {
-    console.error('Claude response:', content.text);
-    throw new Error('Could not parse tasks from Claude response');
-  }
-
-  try {
-    return JSON.parse(jsonMatch[0]);
-  } catch (parseError) {
-    console.error('JSON parse error:', parseError);
-    console.error('Attempted to parse:', jsonMatch[0].substring(0, 500));
-    
-    // Try to fix common JSON issues
-    let fixedJson = jsonMatch[0]
-      .replace(/,\s*]/g, ']')  // Remove trailing commas
-      .replace(/,\s*}/g, '}'); // Remove trailing commas in objects
-    
-    try {
-      return JSON.parse(fixedJson);
-    } catch (secondError) {
-      throw new Error('Failed to parse tasks JSON even after fixes. Try with fewer tasks.');
-    }
-  }
+  const tasks = await provider.parseTasks({ prompt, input, meter });
+  return normalizeParsedTasks(tasks, today);
 }
 
-export function extractKeywordsFromTask(title: string, description?: string): string[] {
-  const text = `${title} ${description || ''}`.toLowerCase();
-  const commonWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by']);
-  
-  const words = text
-    .split(/\s+/)
-    .map(w => w.replace(/[^\w]/g, ''))
-    .filter(w => w.length > 3 && !commonWords.has(w));
-  
-  return [...new Set(words)].slice(0, 5);
+// Trust a well-formed due date from the model, otherwise read it from the wording.
+// Repeating tasks become templates, which have no single deadline.
+export function normalizeParsedTasks(tasks: ParsedTaskInput[], today: Date): ParsedTask[] {
+  return tasks.map(task => withRecurrence(task)).map(task => task.rrule
+    ? { ...task, due_date: null, due_time: null }
+    : { ...task, ...normalizeDueFields(task, today) });
 }
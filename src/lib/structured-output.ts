@@ -0,0 +1,105 @@
+// src/lib/structured-output.ts
+//
+// Ask the model for a tool call, check its input, and when the check fails
+// send the errors back as the tool result so it can correct itself. Works
+// with any provider that can speak the messages API shape (see llm-provider).
+
+import {
+  LlmTool, Validation, ScheduleBounds, ScheduleOutput,
+  SCHEDULE_TOOL, validateScheduleOutput, repairScheduleOutput,
+} from './llm-schemas';
+
+type ContentBlock = { type: string };
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string | ReadonlyArray<ContentBlock>;
+}
+
+export type SendMessages = (request: {
+  messages: LlmMessage[];
+  tools: LlmTool[];
+  tool_choice: { type: 'tool'; name: string };
+}) => Promise<{ content: ReadonlyArray<ContentBlock>; usage?: { input_tokens: number; output_tokens: number } }>;
+
+export interface StructuredResult<T> {
+  value: T | null;
+  errors: string[]; // from the last attempt; empty when value is set
+  input: unknown; // the last tool input, for callers that repair instead of failing
+}
+
+export const MAX_STRUCTURED_ATTEMPTS = 3;
+
+function findToolUse(content: ReadonlyArray<ContentBlock>, name: string) {
+  return content.find((block): block is ContentBlock & { id: string; name: string; input: unknown } =>
+    block.type === 'tool_use' && (block as { name?: string }).name === name
+  );
+}
+
+export async function requestStructured<T>(
+  send: SendMessages,
+  prompt: string,
+  tool: LlmTool,
+  validate: (input: unknown) => Validation<T>,
+  maxAttempts: number = MAX_STRUCTURED_ATTEMPTS
+): Promise<StructuredResult<T>> {
+  const messages: LlmMessage[] = [{ role: 'user', content: prompt }];
+  let result: StructuredResult<T> = { value: null, errors: [`No ${tool.name} call was made`], input: undefined };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await send({
+      messages,
+      tools: [tool],
+      tool_choice: { type: 'tool', name: tool.name },
+    });
+
+    const call = findToolUse(response.content, tool.name);
+    if (!call) {
+      result = { value: null, errors: [`No ${tool.name} call was made`], input: undefined };
+      messages.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: `Respond by calling the ${tool.name} tool.` }
+      );
+      continue;
+    }
+
+    const { value, errors } = validate(call.input);
+    if (value !== null) return { value, errors: [], input: call.input };
+
+    result = { value: null, errors, input: call.input };
+    if (attempt < maxAttempts) {
+      console.warn(`${tool.name} attempt ${attempt} failed validation:`, errors);
+    }
+    messages.push(
+      { role: 'assistant', content: response.content },
+      {
+        role: 'user',
+        content: [{
+          type: 'tool_result',
+          tool_use_id: call.id,
+          is_error: true,
+          content: `The input was rejected. Fix these problems and call ${tool.name} again with the complete corrected input:\n${errors.map(e => `- ${e}`).join('\n')}`,
+        } as ContentBlock],
+      }
+    );
+  }
+
+  return result;
+}
+
+/**
+ * A day's schedule that fits its bounds. Output that is still invalid after
+ * the retries is repaired rather than failing the day; only when nothing can
+ * be salvaged does this throw, so callers fall back to the local scheduler.
+ */
+export async function requestSchedule(send: SendMessages, prompt: string, bounds: ScheduleBounds): Promise<ScheduleOutput> {
+  const result = await requestStructured(send, prompt, SCHEDULE_TOOL, input => validateScheduleOutput(input, bounds));
+  if (result.value) return result.value;
+
+  console.warn('Repairing schedule that failed validation:', result.errors);
+  const repaired = repairScheduleOutput(result.input, bounds);
+  if (repaired.blocks.length === 0) {
+    throw new Error(`No usable schedule from the model: ${result.errors.join('; ')}`);
+  }
+  return repaired;
+}
@@ -1,6 +1,7 @@
 // src/lib/supabase-server.ts
 
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
 
 export async function createClient() {
@@ -30,29 +31,13 @@ export async function createClient() {
   )
 }
 
-// Alternative: create client from request (for API routes)
-export async function createClientFromRequest(request: Request) {
-  const requestUrl = new URL(request.url)
-  const cookieStore = await cookies()
-
-  return createServerClient(
+// Service-role client: bypasses RLS, so only use it for requests that were
+// authenticated some other way (e.g. a calendar feed token) and scope every
+// query to that user
+export function createServiceClient() {
+  return createSupabaseClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    {
-      cookies: {
-        getAll() {
-          return cookieStore.getAll()
-        },
-        setAll(cookiesToSet: { name: string; value: string; options?: CookieOptions }[]) {
-          try {
-            cookiesToSet.forEach(({ name, value, options }) =>
-              cookieStore.set(name, value, options)
-            )
-          } catch (error) {
-            // Ignore
-          }
-        },
-      },
-    }
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
   )
 }
@@ -0,0 +1,130 @@
+// src/lib/task-dependencies.ts
+
+import { Task, ScheduleBlock } from '@/types';
+import { findTaskForBlock } from './schedule-blocks';
+import { timeToMinutes } from './format-time';
+import { isFixedItemType, flowAroundFixed } from './fixed-events';
+
+type DependencyNode = Pick<Task, 'id' | 'blocked_by'>;
+
+/** Blockers of `task` that are part of `tasks` (anything else is done or gone) */
+export function getPrerequisiteIds(task: DependencyNode, tasks: DependencyNode[]): string[] {
+  const ids = new Set(tasks.map(t => t.id));
+  return (task.blocked_by || []).filter(id => id !== task.id && ids.has(id));
+}
+
+/** Returns the ids forming a cycle (first id repeated at the end), or null */
+export function findDependencyCycle(tasks: DependencyNode[]): string[] | null {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const blockerId of byId.get(id)?.blocked_by || []) {
+      if (!byId.has(blockerId)) continue;
+      const cycle = visit(blockerId);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const task of tasks) {
+    const cycle = visit(task.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Kahn's algorithm: prerequisites always come before the tasks they block, and
+ * `compare` picks among tasks that are ready at the same time. Tasks caught in
+ * a cycle are appended in `compare` order rather than dropped.
+ */
+export function orderByDependencies<T extends DependencyNode>(
+  tasks: T[],
+  compare: (a: T, b: T) => number
+): T[] {
+  const remaining = new Map(tasks.map(t => [t.id, getPrerequisiteIds(t, tasks).length]));
+  const dependents = new Map<string, T[]>();
+  for (const task of tasks) {
+    for (const blockerId of getPrerequisiteIds(task, tasks)) {
+      dependents.set(blockerId, [...(dependents.get(blockerId) || []), task]);
+    }
+  }
+
+  const ready = tasks.filter(t => remaining.get(t.id) === 0);
+  const ordered: T[] = [];
+
+  while (ready.length > 0) {
+    ready.sort(compare);
+    const next = ready.shift()!;
+    ordered.push(next);
+    for (const dependent of dependents.get(next.id) || []) {
+      const count = remaining.get(dependent.id)! - 1;
+      remaining.set(dependent.id, count);
+      if (count === 0) ready.push(dependent);
+    }
+  }
+
+  if (ordered.length < tasks.length) {
+    const placed = new Set(ordered.map(t => t.id));
+    ordered.push(...tasks.filter(t => !placed.has(t.id)).sort(compare));
+  }
+
+  return ordered;
+}
+
+/** Prompt tag listing in-set prerequisites, e.g. " [After: Write spec]" */
+export function describePrerequisites(task: DependencyNode, tasks: Pick<Task, 'id' | 'title' | 'blocked_by'>[]): string {
+  const titles = getPrerequisiteIds(task, tasks)
+    .map(id => tasks.find(t => t.id === id)?.title)
+    .filter(Boolean);
+  return titles.length > 0 ? ` [After: ${titles.join('; ')}]` : '';
+}
+
+/** True when any blocker is still an open task in `tasks` */
+export function isTaskBlocked(task: DependencyNode, tasks: Pick<Task, 'id' | 'status'>[]): boolean {
+  return (task.blocked_by || []).some(id => {
+    const blocker = tasks.find(t => t.id === id);
+    return !!blocker && blocker.status !== 'completed';
+  });
+}
+
+/**
+ * Reorder the task blocks of a generated day so prerequisites run first. Breaks
+ * and lunch keep their positions; times are re-flowed from the first block
+ * around any fixed events.
+ */
+export function orderBlocksByDependencies<B extends ScheduleBlock>(blocks: B[], tasks: Task[]): B[] {
+  const taskBlocks = blocks
+    .map((block, position) => ({ block, position, task: block.type === 'task' ? findTaskForBlock(block, tasks) : undefined }))
+    .filter(entry => entry.block.type === 'task');
+
+  const nodes = taskBlocks.map((entry, i) => ({
+    id: entry.task?.id ?? `block-${i}`,
+    blocked_by: entry.task?.blocked_by,
+    entry,
+  }));
+  const ordered = orderByDependencies(nodes, (a, b) => a.entry.position - b.entry.position);
+
+  if (ordered.every((node, i) => node === nodes[i])) return blocks;
+
+  const result = [...blocks];
+  taskBlocks.forEach((entry, i) => {
+    result[entry.position] = ordered[i].entry.block;
+  });
+
+  const fixed = result.filter(b => isFixedItemType(b.type));
+  const movable = result.filter(b => !isFixedItemType(b.type));
+  return [...flowAroundFixed(movable, fixed, timeToMinutes(movable[0].start_time)), ...fixed]
+    .sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time));
+}
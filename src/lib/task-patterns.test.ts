@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { extractKeywordsFromTask, findMatchingPattern, getPatternUpdate } from './task-patterns';
+
+describe('extractKeywordsFromTask', () => {
+  it('keeps distinct words longer than three letters, without punctuation', () => {
+    expect(extractKeywordsFromTask('Review the Q3 budget, then review budget notes!')).toEqual(['review', 'budget', 'then', 'notes']);
+  });
+
+  it('reads the description too and stops at five keywords', () => {
+    expect(extractKeywordsFromTask('Write report', 'quarterly sales figures for marketing team')).toEqual([
+      'write', 'report', 'quarterly', 'sales', 'figures',
+    ]);
+  });
+
+  it('is empty for short or common words only', () => {
+    expect(extractKeywordsFromTask('Do it at 5')).toEqual([]);
+  });
+});
+
+describe('findMatchingPattern', () => {
+  it('matches on any shared keyword', () => {
+    const patterns = [{ task_keywords: ['email'] }, { task_keywords: ['budget', 'review'] }];
+    expect(findMatchingPattern(patterns, ['review', 'notes'])).toBe(patterns[1]);
+    expect(findMatchingPattern(patterns, ['gym'])).toBeUndefined();
+  });
+});
+
+describe('getPatternUpdate', () => {
+  it('starts a pattern from the first task', () => {
+    expect(getPatternUpdate(undefined, 45, false)).toEqual({
+      average_duration: 45,
+      times_scheduled: 1,
+      times_completed: 0,
+      completion_rate: 0,
+    });
+  });
+
+  it('folds another task into the running average and counts', () => {
+    const pattern = { average_duration: 30, times_scheduled: 3, times_completed: 1 };
+    expect(getPatternUpdate(pattern, 70, true)).toEqual({
+      average_duration: 40,
+      times_scheduled: 4,
+      times_completed: 2,
+      completion_rate: 0.5,
+    });
+  });
+
+  it('rounds the average to whole minutes', () => {
+    expect(getPatternUpdate({ average_duration: 30, times_scheduled: 2, times_completed: 2 }, 31, true).average_duration).toBe(30);
+  });
+});
@@ -0,0 +1,66 @@
+// src/lib/task-patterns.ts
+
+import { TaskPattern } from '@/types';
+import { PatternRepository, NewTaskPattern } from './repositories';
+
+export function extractKeywordsFromTask(title: string, description?: string): string[] {
+  const text = `${title} ${description || ''}`.toLowerCase();
+  const commonWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by']);
+  
+  const words = text
+    .split(/\s+/)
+    .map(w => w.replace(/[^\w]/g, ''))
+    .filter(w => w.length > 3 && !commonWords.has(w));
+  
+  return [...new Set(words)].slice(0, 5);
+}
+
+export function findMatchingPattern<T extends Pick<TaskPattern, 'task_keywords'>>(
+  patterns: T[],
+  keywords: string[]
+): T | undefined {
+  return patterns.find(pattern =>
+    pattern.task_keywords.some(kw => keywords.includes(kw))
+  );
+}
+
+/**
+ * The pattern's counts and average duration with one more scheduled (and
+ * possibly completed) task of `duration` minutes folded in; a new pattern's
+ * when `pattern` is undefined.
+ */
+export function getPatternUpdate(
+  pattern: Pick<TaskPattern, 'average_duration' | 'times_scheduled' | 'times_completed'> | undefined,
+  duration: number,
+  completed: boolean
+): Omit<NewTaskPattern, 'task_keywords'> {
+  const timesScheduled = (pattern?.times_scheduled || 0) + 1;
+  const timesCompleted = (pattern?.times_completed || 0) + (completed ? 1 : 0);
+  const averageDuration = pattern
+    ? Math.round((pattern.average_duration * pattern.times_scheduled + duration) / timesScheduled)
+    : duration;
+
+  return {
+    average_duration: averageDuration,
+    times_scheduled: timesScheduled,
+    times_completed: timesCompleted,
+    completion_rate: timesCompleted / timesScheduled,
+  };
+}
+
+/** Fold one scheduled (and possibly completed) task into the user's matching pattern, or start one */
+export async function updateTaskPattern(
+  patterns: PatternRepository,
+  userId: string,
+  keywords: string[],
+  duration: number,
+  completed: boolean
+) {
+  const matchingPattern = findMatchingPattern(await patterns.list(userId), keywords);
+
+  if (matchingPattern) {
+    await patterns.update(userId, matchingPattern.id, getPatternUpdate(matchingPattern, duration, completed));
+  } else {
+    await patterns.create(userId, { task_keywords: keywords, ...getPatternUpdate(undefined, duration, completed) });
+  }
+}
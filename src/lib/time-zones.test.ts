@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { zonedWallTimeToInstant, getZonedToday, getWeekDatesFor } from './time-zones';
+
+// 2026 transitions: New York springs forward on 8 March at 02:00 and falls
+// back on 1 November at 02:00; London springs forward on 29 March at 01:00.
+
+describe('zonedWallTimeToInstant', () => {
+  it('uses the offset in force on the day', () => {
+    expect(zonedWallTimeToInstant({ year: 2026, month: 1, day: 15, hour: 9, minute: 0 }, 'America/New_York').toISOString())
+      .toBe('2026-01-15T14:00:00.000Z');
+    expect(zonedWallTimeToInstant({ year: 2026, month: 7, day: 1, hour: 9, minute: 0 }, 'America/New_York').toISOString())
+      .toBe('2026-07-01T13:00:00.000Z');
+  });
+
+  it('resolves a time skipped by the spring-forward jump forward', () => {
+    // 02:30 never happens on 8 March; 03:30 EDT is the same distance past 02:00
+    expect(zonedWallTimeToInstant({ year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, 'America/New_York').toISOString())
+      .toBe('2026-03-08T07:30:00.000Z');
+    expect(zonedWallTimeToInstant({ year: 2026, month: 3, day: 29, hour: 1, minute: 15 }, 'Europe/London').toISOString())
+      .toBe('2026-03-29T01:15:00.000Z');
+  });
+
+  it('keeps the times either side of the gap', () => {
+    expect(zonedWallTimeToInstant({ year: 2026, month: 3, day: 8, hour: 1, minute: 59 }, 'America/New_York').toISOString())
+      .toBe('2026-03-08T06:59:00.000Z');
+    expect(zonedWallTimeToInstant({ year: 2026, month: 3, day: 8, hour: 3, minute: 0 }, 'America/New_York').toISOString())
+      .toBe('2026-03-08T07:00:00.000Z');
+  });
+
+  it('resolves a time repeated by the fall-back jump to its first occurrence', () => {
+    // 01:30 happens at 05:30Z (EDT) and again at 06:30Z (EST)
+    expect(zonedWallTimeToInstant({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, 'America/New_York').toISOString())
+      .toBe('2026-11-01T05:30:00.000Z');
+    expect(zonedWallTimeToInstant({ year: 2026, month: 11, day: 1, hour: 2, minute: 0 }, 'America/New_York').toISOString())
+      .toBe('2026-11-01T07:00:00.000Z');
+  });
+});
+
+describe('getZonedToday', () => {
+  it('turns the day over at local midnight on both sides of a transition', () => {
+    expect(getZonedToday('America/New_York', new Date('2026-03-08T04:59:00Z'))).toBe('2026-03-07');
+    expect(getZonedToday('America/New_York', new Date('2026-03-08T05:00:00Z'))).toBe('2026-03-08');
+    // Midnight is 04:00Z in EDT, the night before the clocks go back, and 05:00Z after
+    expect(getZonedToday('America/New_York', new Date('2026-11-01T03:59:00Z'))).toBe('2026-10-31');
+    expect(getZonedToday('America/New_York', new Date('2026-11-01T04:00:00Z'))).toBe('2026-11-01');
+    expect(getZonedToday('America/New_York', new Date('2026-11-02T04:59:00Z'))).toBe('2026-11-01');
+    expect(getZonedToday('America/New_York', new Date('2026-11-02T05:00:00Z'))).toBe('2026-11-02');
+  });
+
+  it('can differ from the UTC date', () => {
+    const now = new Date('2026-03-29T23:30:00Z');
+    expect(getZonedToday('Europe/London', now)).toBe('2026-03-30');
+    expect(getZonedToday('America/Los_Angeles', now)).toBe('2026-03-29');
+  });
+});
+
+describe('getWeekDatesFor', () => {
+  const serverZone = process.env.TZ;
+
+  // A server in a DST zone must still see seven distinct, consecutive dates
+  beforeAll(() => {
+    process.env.TZ = 'America/New_York';
+  });
+  afterAll(() => {
+    if (serverZone === undefined) delete process.env.TZ;
+    else process.env.TZ = serverZone;
+  });
+
+  it('spans the spring-forward week', () => {
+    expect(getWeekDatesFor('2026-03-11')).toEqual([
+      '2026-03-08', '2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13', '2026-03-14',
+    ]);
+    expect(getWeekDatesFor('2026-03-08', 1)).toEqual([
+      '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-07', '2026-03-08',
+    ]);
+  });
+
+  it('spans the fall-back week', () => {
+    expect(getWeekDatesFor('2026-11-01')).toEqual([
+      '2026-11-01', '2026-11-02', '2026-11-03', '2026-11-04', '2026-11-05', '2026-11-06', '2026-11-07',
+    ]);
+    expect(getWeekDatesFor('2026-11-07', 1)).toEqual([
+      '2026-11-02', '2026-11-03', '2026-11-04', '2026-11-05', '2026-11-06', '2026-11-07', '2026-11-08',
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+// src/lib/time-zones.ts
+
+export interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock reading of `instant` in `timeZone` */
+export function getZonedWallTime(instant: Date, timeZone: string): Required<WallTime> {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(instant).map(p => [p.type, p.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+/**
+ * Instant at which the clocks in `timeZone` show `wall`. A time skipped by a
+ * DST jump resolves forward; an ambiguous one resolves to the first occurrence.
+ */
+export function zonedWallTimeToInstant(wall: WallTime, timeZone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second || 0);
+
+  const offsetAt = (instant: number) => {
+    const w = getZonedWallTime(new Date(instant), timeZone);
+    return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second) - instant;
+  };
+
+  // Two passes settle on the right offset on either side of a transition
+  const firstGuess = asUtc - offsetAt(asUtc);
+  const secondGuess = asUtc - offsetAt(firstGuess);
+  const earlier = Math.min(firstGuess, secondGuess);
+  const w = getZonedWallTime(new Date(earlier), timeZone);
+  const matches = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second) === asUtc;
+
+  return new Date(matches ? earlier : Math.max(firstGuess, secondGuess));
+}
+
+export function formatWallDate(wall: Pick<WallTime, 'year' | 'month' | 'day'>): string {
+  return `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+}
+
+export function formatWallTime(wall: Pick<WallTime, 'hour' | 'minute'>): string {
+  return `${String(wall.hour).padStart(2, '0')}:${String(wall.minute).padStart(2, '0')}`;
+}
+
+/** `timeZone` when it's a real IANA zone, otherwise the server's own */
+export function resolveTimeZone(timeZone?: string | null): string {
+  return timeZone && isValidTimeZone(timeZone)
+    ? timeZone
+    : Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Calendar dates (yyyy-MM-dd) are zone-free: they are handled as UTC days so
+// neither the server's nor the browser's zone, nor a DST change, can shift them.
+
+function toUtcDay(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/** The date it currently is for someone in `timeZone` */
+export function getZonedToday(timeZone: string, now: Date = new Date()): string {
+  return formatWallDate(getZonedWallTime(now, timeZone));
+}
+
+/** Weekday of a calendar date, 0 = Sunday */
+export function getWeekdayOfDate(date: string): number {
+  return toUtcDay(date).getUTCDay();
+}
+
+export function addCalendarDays(date: string, days: number): string {
+  const shifted = toUtcDay(date);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return formatWallDate({
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  });
+}
+
+/** The seven dates of the week containing `date`; weeks start on Sunday by default */
+export function getWeekDatesFor(date: string, weekStartsOn: number = 0): string[] {
+  const start = addCalendarDays(date, -((getWeekdayOfDate(date) - weekStartsOn + 7) % 7));
+  return Array.from({ length: 7 }, (_, i) => addCalendarDays(start, i));
+}
@@ -0,0 +1,13 @@
+// src/lib/tokens.ts
+//
+// Secrets handed to users (feed URLs and the like). Only the hash is stored.
+
+import { createHash, randomBytes } from 'crypto';
+
+export function generateToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,189 @@
+// src/lib/user-settings.ts
+//
+// The user's work-day profile. Every scheduling path reads the day it is
+// working on through getDayProfile so per-weekday overrides apply everywhere.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { UserSettings, WeekdayOverride } from '@/types';
+import { timeToMinutes, minutesToTime } from './format-time';
+import { getWeekdayOfDate, isValidTimeZone, resolveTimeZone } from './time-zones';
+import { ESCALATION_ACTIONS } from './escalation';
+
+export type SettingsInput = Omit<UserSettings, 'user_id' | 'updated_at'>;
+
+export const DEFAULT_USER_SETTINGS: SettingsInput = {
+  day_start: '09:00',
+  day_end: '16:30',
+  workdays: [1, 2, 3, 4, 5],
+  lunch_start: '12:00',
+  lunch_duration: 30,
+  break_every: 90,
+  break_duration: 10,
+  weekday_overrides: {},
+  time_zone: null,
+  escalate_after: 3,
+  escalation_action: 'bump_priority',
+  calendar_url: null,
+};
+
+export interface DayProfile {
+  isWorkday: boolean;
+  startTime: string;
+  endTime: string;
+  workHours: number; // start to end, minus lunch
+  lunchStart: string;
+  lunchDuration: number;
+  breakEvery: number;
+  breakDuration: number;
+}
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Profile for one date (yyyy-MM-dd). `workHours` overrides the length of the
+ * day, moving its end, for callers that still pass hours explicitly.
+ */
+export function getDayProfile(settings: SettingsInput, date: string, workHours?: number): DayProfile {
+  const weekday = getWeekdayOfDate(date);
+  const day = { ...settings, ...(settings.weekday_overrides?.[weekday] || {}) };
+
+  const start = timeToMinutes(day.day_start);
+  const lunchStart = timeToMinutes(day.lunch_start);
+  const lunchInDay = day.lunch_duration > 0 && lunchStart >= start && lunchStart < timeToMinutes(day.day_end);
+  const lunchDuration = lunchInDay ? day.lunch_duration : 0;
+
+  const end = workHours
+    ? start + Math.round(workHours * 60) + lunchDuration
+    : timeToMinutes(day.day_end);
+
+  return {
+    isWorkday: settings.workdays.includes(weekday),
+    startTime: day.day_start,
+    endTime: minutesToTime(Math.min(end, 24 * 60 - 1)),
+    workHours: Math.max(0, end - start - lunchDuration) / 60,
+    lunchStart: day.lunch_start,
+    lunchDuration,
+    breakEvery: settings.break_every > 0 ? settings.break_every : Infinity,
+    breakDuration: settings.break_duration,
+  };
+}
+
+export function isWorkday(settings: Pick<UserSettings, 'workdays'>, date: string): boolean {
+  return settings.workdays.includes(getWeekdayOfDate(date));
+}
+
+function validateDay(day: SettingsInput | (SettingsInput & WeekdayOverride), label: string): string[] {
+  const errors: string[] = [];
+  for (const field of ['day_start', 'day_end', 'lunch_start'] as const) {
+    if (typeof day[field] !== 'string' || !TIME.test(day[field])) {
+      errors.push(`${label}${field} must be a time (HH:MM)`);
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  if (timeToMinutes(day.day_end) <= timeToMinutes(day.day_start)) {
+    errors.push(`${label}day_end must be after day_start`);
+  }
+  if (!Number.isInteger(day.lunch_duration) || day.lunch_duration < 0 || day.lunch_duration > 180) {
+    errors.push(`${label}lunch_duration must be between 0 and 180 minutes`);
+  } else if (day.lunch_duration > 0 && (
+    timeToMinutes(day.lunch_start) < timeToMinutes(day.day_start) ||
+    timeToMinutes(day.lunch_start) + day.lunch_duration > timeToMinutes(day.day_end)
+  )) {
+    errors.push(`${label}lunch must fall within the work day`);
+  }
+  return errors;
+}
+
+// The server fetches it, so only web addresses: never a file on the server
+function isCalendarUrl(value: string): boolean {
+  if (value.length > 2000) return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a settings payload (missing fields fall back to the defaults).
+ * Returns the cleaned settings, or the list of problems.
+ */
+export function validateSettings(input: Partial<SettingsInput>): { settings: SettingsInput | null; errors: string[] } {
+  const settings: SettingsInput = {
+    day_start: input.day_start ?? DEFAULT_USER_SETTINGS.day_start,
+    day_end: input.day_end ?? DEFAULT_USER_SETTINGS.day_end,
+    workdays: input.workdays ?? DEFAULT_USER_SETTINGS.workdays,
+    lunch_start: input.lunch_start ?? DEFAULT_USER_SETTINGS.lunch_start,
+    lunch_duration: input.lunch_duration ?? DEFAULT_USER_SETTINGS.lunch_duration,
+    break_every: input.break_every ?? DEFAULT_USER_SETTINGS.break_every,
+    break_duration: input.break_duration ?? DEFAULT_USER_SETTINGS.break_duration,
+    weekday_overrides: {},
+    time_zone: input.time_zone || null,
+    escalate_after: input.escalate_after ?? DEFAULT_USER_SETTINGS.escalate_after,
+    escalation_action: input.escalation_action ?? DEFAULT_USER_SETTINGS.escalation_action,
+    calendar_url: typeof input.calendar_url === 'string' ? input.calendar_url.trim() || null : null,
+  };
+
+  const errors = validateDay(settings, '');
+
+  if (!Array.isArray(settings.workdays) || settings.workdays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+    errors.push('workdays must be weekday numbers from 0 (Sunday) to 6 (Saturday)');
+  } else {
+    settings.workdays = [...new Set(settings.workdays)].sort();
+  }
+  if (!Number.isInteger(settings.break_every) || settings.break_every < 0 || settings.break_every > 480) {
+    errors.push('break_every must be between 0 (no breaks) and 480 minutes');
+  }
+  if (settings.time_zone !== null && (typeof settings.time_zone !== 'string' || !isValidTimeZone(settings.time_zone))) {
+    errors.push('time_zone must be an IANA time zone such as "America/New_York"');
+  }
+  if (!Number.isInteger(settings.escalate_after) || settings.escalate_after < 0 || settings.escalate_after > 30) {
+    errors.push('escalate_after must be between 0 (never) and 30 rollovers');
+  }
+  if (!ESCALATION_ACTIONS.includes(settings.escalation_action)) {
+    errors.push(`escalation_action must be one of ${ESCALATION_ACTIONS.join(', ')}`);
+  }
+  if (!Number.isInteger(settings.break_duration) || settings.break_duration < 0 || settings.break_duration > 60) {
+    errors.push('break_duration must be between 0 and 60 minutes');
+  }
+  if (settings.calendar_url !== null && !isCalendarUrl(settings.calendar_url)) {
+    errors.push('calendar_url must be an http(s) link to an .ics calendar');
+  }
+
+  for (const [key, override] of Object.entries(input.weekday_overrides || {})) {
+    const weekday = Number(key);
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      errors.push(`weekday_overrides has an invalid weekday "${key}"`);
+      continue;
+    }
+    const fields = Object.fromEntries(
+      Object.entries(override || {}).filter(([field, value]) =>
+        ['day_start', 'day_end', 'lunch_start', 'lunch_duration'].includes(field) && value !== null && value !== ''
+      )
+    ) as WeekdayOverride;
+    if (Object.keys(fields).length === 0) continue;
+
+    errors.push(...validateDay({ ...settings, ...fields }, `weekday_overrides.${weekday}.`));
+    settings.weekday_overrides[weekday] = fields;
+  }
+
+  return errors.length > 0 ? { settings: null, errors } : { settings, errors };
+}
+
+/** `requested` if it's a real zone, else the user's zone, else this machine's */
+export function getSettingsTimeZone(settings: Pick<UserSettings, 'time_zone'>, requested?: string | null): string {
+  return requested && isValidTimeZone(requested) ? requested : resolveTimeZone(settings.time_zone);
+}
+
+/** Stored settings merged over the defaults (users who never saved get the defaults) */
+export async function loadUserSettings(supabase: SupabaseClient, userId: string): Promise<UserSettings> {
+  const { data } = await supabase
+    .from('user_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const stored = Object.fromEntries(Object.entries(data || {}).filter(([, value]) => value !== null));
+  return { ...DEFAULT_USER_SETTINGS, ...stored, user_id: userId };
+}
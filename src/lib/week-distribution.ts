@@ -0,0 +1,125 @@
+// src/lib/week-distribution.ts
+
+import { Task, TaskPattern, DeadlineRisk } from '@/types';
+import { estimateTaskDuration, compareTasksForScheduling } from './local-scheduler';
+import { orderByDependencies, getPrerequisiteIds } from './task-dependencies';
+
+/**
+ * A prerequisite inherits the earliest deadline of anything it blocks, so the
+ * chain "spec → review → implement (due Thu)" is pulled forward as a whole.
+ */
+function getEffectiveDueDates(tasks: Task[]): Map<string, string | null> {
+  const effective = new Map<string, string | null>(tasks.map(t => [t.id, t.due_date || null]));
+  let changed = true;
+
+  // Bounded by chain length; cycles are rejected before they reach the database
+  for (let pass = 0; changed && pass < tasks.length; pass++) {
+    changed = false;
+    for (const task of tasks) {
+      const due = effective.get(task.id);
+      if (!due) continue;
+      for (const blockerId of getPrerequisiteIds(task, tasks)) {
+        const blockerDue = effective.get(blockerId);
+        if (!blockerDue || due < blockerDue) {
+          effective.set(blockerId, due);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  return effective;
+}
+
+/**
+ * Spread tasks over the given days (yyyy-MM-dd, ascending). Tasks are visited in
+ * dependency order and never land before a prerequisite's day. Tasks with a due
+ * date (own or inherited) only go on days up to that deadline; the rest go
+ * wherever the most of the day's hours are still free, so days are balanced
+ * by estimated duration rather than task count. Occurrences of recurring
+ * tasks stay on the day they were generated for. `hoursPerDay` may be one
+ * number for every day or one per date.
+ */
+export function distributeTasksAcrossDays(
+  tasks: Task[],
+  dates: string[],
+  options: { patterns?: TaskPattern[]; hoursPerDay?: number | number[] } = {}
+): {
+  tasksPerDay: Task[][];
+  atRisk: DeadlineRisk[];
+} {
+  const { patterns = [], hoursPerDay = 7 } = options;
+  const capacity = dates.map((_, i) => (Array.isArray(hoursPerDay) ? hoursPerDay[i] ?? 7 : hoursPerDay) * 60);
+  const tasksPerDay: Task[][] = dates.map(() => []);
+  const load: number[] = dates.map(() => 0);
+  const dayOf = new Map<string, number>();
+  const atRisk: DeadlineRisk[] = [];
+
+  const effectiveDue = getEffectiveDueDates(tasks);
+  const ordered = orderByDependencies(tasks, (a, b) => {
+    const aDue = effectiveDue.get(a.id);
+    const bDue = effectiveDue.get(b.id);
+    if (aDue !== bDue) {
+      if (!aDue) return 1;
+      if (!bDue) return -1;
+      return aDue < bDue ? -1 : 1;
+    }
+    return compareTasksForScheduling(a, b);
+  });
+
+  const place = (task: Task, dayIndex: number) => {
+    tasksPerDay[dayIndex].push(task);
+    load[dayIndex] += estimateTaskDuration(task, patterns);
+    dayOf.set(task.id, dayIndex);
+  };
+
+  // Recurring occurrences belong to their own day; ones for days outside this
+  // range wait for it. Missed ones (before the range) are scheduled like any task.
+  const pinned = new Set<string>();
+  for (const task of ordered) {
+    if (!task.scheduled_for || task.scheduled_for < dates[0]) continue;
+    pinned.add(task.id);
+    const dayIndex = dates.indexOf(task.scheduled_for);
+    if (dayIndex !== -1) place(task, dayIndex);
+  }
+
+  // Share of the day's hours already taken; days with no hours count as full
+  const fullness = (i: number) => (capacity[i] > 0 ? load[i] / capacity[i] : Infinity);
+  const leastFull = (candidates: number[]) =>
+    candidates.reduce((best, i) => (fullness(i) < fullness(best) ? i : best), candidates[0]);
+
+  for (const task of ordered) {
+    if (pinned.has(task.id)) continue;
+    const earliest = Math.max(0, ...getPrerequisiteIds(task, tasks).map(id => dayOf.get(id) ?? 0));
+    const due = effectiveDue.get(task.id);
+
+    if (!due) {
+      place(task, leastFull(dates.map((_, i) => i).filter(i => i >= earliest)));
+      continue;
+    }
+
+    const duration = estimateTaskDuration(task, patterns);
+    const eligible = dates
+      .map((_, i) => i)
+      .filter(i => i >= earliest && dates[i] <= due);
+
+    const risk = task.due_date
+      ? { task_id: task.id, title: task.title, due_date: task.due_date, due_time: task.due_time }
+      : null;
+
+    if (eligible.length === 0) {
+      // Already past due, or its prerequisites can't finish in time — do it as soon as possible
+      place(task, earliest);
+      if (risk) atRisk.push({ ...risk, reason: due < dates[0] ? 'overdue' : 'blocked' });
+      continue;
+    }
+
+    const leastLoaded = leastFull(eligible);
+    if (risk && load[leastLoaded] + duration > capacity[leastLoaded]) {
+      atRisk.push({ ...risk, reason: 'no_capacity' });
+    }
+    place(task, leastLoaded);
+  }
+
+  return { tasksPerDay, atRisk };
+}
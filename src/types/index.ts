@@ -5,12 +5,20 @@ export interface Task {
   user_id: string;
   title: string;
   description?: string;
-  estimated_duration?: number;
+  estimated_duration?: number | null;
   actual_duration?: number;
   priority: 'high' | 'medium' | 'low';
   tags?: string[];
+  due_date?: string | null; // yyyy-MM-dd
+  due_time?: string | null; // HH:MM, only meaningful with due_date
+  blocked_by?: string[]; // ids of tasks that must be completed first
+  template_id?: string | null; // set when generated from a recurring TaskTemplate
+  scheduled_for?: string | null; // yyyy-MM-dd the recurring occurrence belongs to
+  rollover_count?: number; // times the task was left unfinished at the end of a day
+  first_scheduled_date?: string | null; // the first day it was left unfinished on
+  needs_decision?: boolean; // escalated: waiting for do / delegate / defer / drop
   created_at: string;
-  completed_at?: string;
+  completed_at?: string | null;
   status: 'pending' | 'scheduled' | 'completed' | 'rolled_over';
 }
 
@@ -20,9 +28,11 @@ export interface ScheduleItem {
   task_id?: string;
   start_time: string;
   end_time: string;
-  item_type: 'task' | 'break' | 'lunch';
+  item_type: 'task' | 'break' | 'lunch' | 'meeting' | 'event'; // meeting/event times are fixed
   title: string;
   completed: boolean;
+  external_uid?: string | null; // calendar event instance this item was imported from
+  external_calendar?: string | null; // the calendar it was imported from
   task?: Task;
 }
 
@@ -51,6 +61,63 @@ export interface TaskPattern {
   updated_at: string;
 }
 
+export interface TaskTemplate {
+  id: string;
+  user_id: string;
+  title: string;
+  description?: string;
+  estimated_duration?: number;
+  priority: 'high' | 'medium' | 'low';
+  tags?: string[];
+  rrule: string; // e.g. FREQ=WEEKLY;BYDAY=MO
+  starts_on: string; // yyyy-MM-dd the rule is anchored to
+  active: boolean;
+  generated_through?: string | null; // last date Task rows were generated for
+  created_at: string;
+}
+
+export interface UserSettings {
+  user_id: string;
+  day_start: string; // HH:MM
+  day_end: string; // HH:MM
+  workdays: number[]; // 0 = Sunday ... 6 = Saturday
+  lunch_start: string; // HH:MM
+  lunch_duration: number; // minutes, 0 = no lunch block
+  break_every: number; // minutes of work between short breaks
+  break_duration: number; // minutes
+  weekday_overrides: Partial<Record<number, WeekdayOverride>>; // keyed by weekday, e.g. short Fridays
+  time_zone: string | null; // IANA zone that decides what "today" is; null until the browser reports one
+  escalate_after: number; // rollovers before escalation_action kicks in, 0 = never
+  escalation_action: EscalationAction;
+  calendar_url: string | null; // http(s) .ics feed synced onto the schedule when the dashboard opens
+  updated_at?: string;
+}
+
+// bump_priority: one step up each time; next_morning: first slot of the next workday;
+// decide: flag the task until the user picks do / delegate / defer / drop
+export type EscalationAction = 'bump_priority' | 'next_morning' | 'decide';
+
+export type TaskDecision = 'do' | 'delegate' | 'defer' | 'drop';
+
+export type WeekdayOverride = Partial<Pick<UserSettings, 'day_start' | 'day_end' | 'lunch_start' | 'lunch_duration'>>;
+
+export interface DeadlineRisk {
+  task_id: string;
+  title: string;
+  due_date: string;
+  due_time?: string | null;
+  reason: 'overdue' | 'blocked' | 'no_capacity' | 'unscheduled' | 'late';
+}
+
+export type ScheduleEngine = 'llm' | 'local';
+
+export interface CalendarImportResult {
+  imported: number;
+  updated: number;
+  removed: number;
+  dates: string[];
+}
+
 export interface GenerateScheduleRequest {
   date: string;
   tasks: string[]; // Natural language task descriptions
@@ -68,9 +135,79 @@ export interface GenerateScheduleResponse {
 export interface ScheduleBlock {
   start_time: string;
   end_time: string;
-  type: 'task' | 'break' | 'lunch';
+  type: 'task' | 'break' | 'lunch' | 'meeting' | 'event';
   title: string;
   description?: string;
   estimated_duration: number;
   task_id?: string;
 }
+
+// One model call, recorded whether or not it succeeded
+export interface LlmUsage {
+  id: string;
+  user_id: string;
+  operation: 'parse_tasks' | 'generate_schedule';
+  provider: string;
+  model: string;
+  success: boolean;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  created_at: string;
+}
+
+export interface UsageDay {
+  date: string; // yyyy-MM-dd in the user's time zone
+  requests: number;
+  failed: number;
+  input_tokens: number;
+  output_tokens: number;
+  avg_latency_ms: number;
+}
+
+export interface UsageSummary {
+  from: string;
+  to: string;
+  days: UsageDay[]; // every date in the range, oldest first
+  totals: Omit<UsageDay, 'date'>;
+  by_model: Record<string, { requests: number; input_tokens: number; output_tokens: number }>;
+  month: { start: string; tokens: number; budget: number | null }; // budget null = unlimited
+}
+
+// One closed-out day: its unfinished tasks and where they were moved
+export interface RolloverLog {
+  id: string;
+  user_id: string;
+  from_date: string; // the day that ended, yyyy-MM-dd
+  to_date: string; // the workday the tasks were added to
+  task_ids: string[];
+  task_titles: string[];
+  item_ids: string[]; // schedule_items created on to_date
+  escalations: RolloverEscalation[];
+  moved_items: Pick<ScheduleItem, 'id' | 'start_time' | 'end_time'>[]; // to_date items pushed later, at their earlier times
+  created_at: string;
+  dismissed_at?: string | null;
+  undone_at?: string | null;
+}
+
+// What a rollover changed on an escalated task, so undo can put it back
+export interface RolloverEscalation {
+  task_id: string;
+  action: EscalationAction;
+  previous_priority: Task['priority'];
+}
+
+export type TokenScope = 'tasks:read' | 'tasks:write' | 'schedules:generate';
+
+// A personal access token as the user sees it; the secret is only returned on creation
+export interface PersonalAccessToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string; // e.g. "tfp_3kQ9"
+  scopes: TokenScope[];
+  expires_at: string | null; // null = never
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
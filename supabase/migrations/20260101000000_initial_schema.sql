@@ -0,0 +1,148 @@
+-- Baseline schema: every table the app reads and writes, with its keys,
+-- constraints and indexes. Row-level security is in the next migration.
+
+create extension if not exists pgcrypto;
+
+-- Recurring tasks; concrete tasks are generated from these a week at a time
+create table public.task_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null check (title <> ''),
+  description text,
+  estimated_duration integer check (estimated_duration > 0),
+  priority text not null default 'medium' check (priority in ('high', 'medium', 'low')),
+  tags text[] not null default '{}',
+  rrule text not null,
+  starts_on date not null,
+  active boolean not null default true,
+  generated_through date,
+  created_at timestamptz not null default now()
+);
+
+create index task_templates_user_id_idx on public.task_templates (user_id) where active;
+
+create table public.tasks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null check (title <> ''),
+  description text,
+  estimated_duration integer check (estimated_duration > 0),
+  actual_duration integer check (actual_duration >= 0),
+  priority text not null default 'medium' check (priority in ('high', 'medium', 'low')),
+  tags text[] not null default '{}',
+  status text not null default 'pending' check (status in ('pending', 'scheduled', 'completed', 'rolled_over')),
+  due_date date,
+  due_time time check (due_time is null or due_date is not null),
+  -- Prerequisites; cycles are rejected by the app before they are saved
+  blocked_by uuid[] not null default '{}',
+  template_id uuid references public.task_templates (id) on delete set null,
+  scheduled_for date,
+  rollover_count integer not null default 0 check (rollover_count >= 0),
+  first_scheduled_date date,
+  needs_decision boolean not null default false,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index tasks_user_id_status_idx on public.tasks (user_id, status);
+create index tasks_template_id_scheduled_for_idx on public.tasks (template_id, scheduled_for) where template_id is not null;
+
+-- One schedule per user and day
+create table public.schedules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  schedule_date date not null,
+  schedule_data jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  unique (user_id, schedule_date)
+);
+
+create table public.schedule_items (
+  id uuid primary key default gen_random_uuid(),
+  schedule_id uuid not null references public.schedules (id) on delete cascade,
+  task_id uuid references public.tasks (id) on delete cascade,
+  start_time time not null,
+  end_time time not null,
+  -- meeting and event items are fixed; everything else is rescheduled freely
+  item_type text not null check (item_type in ('task', 'break', 'lunch', 'meeting', 'event')),
+  title text not null,
+  completed boolean not null default false,
+  -- Calendar event instance an imported meeting came from
+  external_uid text,
+  created_at timestamptz not null default now()
+);
+
+create index schedule_items_schedule_id_start_time_idx on public.schedule_items (schedule_id, start_time);
+create index schedule_items_task_id_idx on public.schedule_items (task_id) where task_id is not null;
+create index schedule_items_external_uid_idx on public.schedule_items (external_uid) where external_uid is not null;
+
+-- What the user's past tasks took, matched on title keywords
+create table public.task_patterns (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  task_keywords text[] not null,
+  average_duration integer not null check (average_duration >= 0),
+  completion_rate real not null default 0 check (completion_rate between 0 and 1),
+  times_scheduled integer not null default 0 check (times_scheduled >= 0),
+  times_completed integer not null default 0 check (times_completed >= 0),
+  updated_at timestamptz not null default now()
+);
+
+create index task_patterns_user_id_idx on public.task_patterns (user_id);
+
+-- Secret URL for the subscribable .ics feed; only the hash is stored
+create table public.calendar_feeds (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  token_hash text unique,
+  created_at timestamptz not null default now()
+);
+
+-- Times are HH:MM text, compared as strings by the app
+create table public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  day_start text not null default '09:00' check (day_start ~ '^\d{2}:\d{2}$'),
+  day_end text not null default '16:30' check (day_end ~ '^\d{2}:\d{2}$'),
+  workdays integer[] not null default '{1,2,3,4,5}' check (workdays <@ '{0,1,2,3,4,5,6}'),
+  lunch_start text not null default '12:00' check (lunch_start ~ '^\d{2}:\d{2}$'),
+  lunch_duration integer not null default 30 check (lunch_duration >= 0),
+  break_every integer not null default 90 check (break_every >= 0),
+  break_duration integer not null default 10 check (break_duration >= 0),
+  weekday_overrides jsonb not null default '{}',
+  time_zone text,
+  escalate_after integer not null default 3 check (escalate_after >= 0),
+  escalation_action text not null default 'bump_priority'
+    check (escalation_action in ('bump_priority', 'next_morning', 'decide')),
+  updated_at timestamptz not null default now()
+);
+
+-- One row per closed-out day; claiming it first makes rollover idempotent
+create table public.rollover_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  from_date date not null,
+  to_date date not null,
+  task_ids uuid[] not null default '{}',
+  task_titles text[] not null default '{}',
+  item_ids uuid[] not null default '{}',
+  escalations jsonb not null default '[]',
+  created_at timestamptz not null default now(),
+  dismissed_at timestamptz,
+  undone_at timestamptz,
+  unique (user_id, from_date)
+);
+
+-- One row per model call, for quotas, budgets and the usage panel
+create table public.llm_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  operation text not null check (operation in ('parse_tasks', 'generate_schedule')),
+  provider text not null,
+  model text not null,
+  success boolean not null,
+  input_tokens integer not null default 0 check (input_tokens >= 0),
+  output_tokens integer not null default 0 check (output_tokens >= 0),
+  latency_ms integer not null default 0 check (latency_ms >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index llm_usage_user_id_created_at_idx on public.llm_usage (user_id, created_at);
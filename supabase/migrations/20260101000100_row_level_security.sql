@@ -0,0 +1,96 @@
+-- Row-level security: every row belongs to one user, and the anon key only
+-- ever reaches that user's rows. Schedule items have no user_id of their own
+-- and go through the schedule they belong to.
+--
+-- The service-role client (subscribed calendar feeds) bypasses these.
+
+alter table public.task_templates enable row level security;
+alter table public.tasks enable row level security;
+alter table public.schedules enable row level security;
+alter table public.schedule_items enable row level security;
+alter table public.task_patterns enable row level security;
+alter table public.calendar_feeds enable row level security;
+alter table public.user_settings enable row level security;
+alter table public.rollover_log enable row level security;
+alter table public.llm_usage enable row level security;
+
+-- Tables keyed directly by user_id
+
+create policy "Users can read their own task templates" on public.task_templates
+  for select using (user_id = auth.uid());
+create policy "Users can create their own task templates" on public.task_templates
+  for insert with check (user_id = auth.uid());
+create policy "Users can update their own task templates" on public.task_templates
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "Users can delete their own task templates" on public.task_templates
+  for delete using (user_id = auth.uid());
+
+create policy "Users can read their own tasks" on public.tasks
+  for select using (user_id = auth.uid());
+create policy "Users can create their own tasks" on public.tasks
+  for insert with check (user_id = auth.uid());
+create policy "Users can update their own tasks" on public.tasks
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "Users can delete their own tasks" on public.tasks
+  for delete using (user_id = auth.uid());
+
+create policy "Users can read their own schedules" on public.schedules
+  for select using (user_id = auth.uid());
+create policy "Users can create their own schedules" on public.schedules
+  for insert with check (user_id = auth.uid());
+create policy "Users can update their own schedules" on public.schedules
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "Users can read their own task patterns" on public.task_patterns
+  for select using (user_id = auth.uid());
+create policy "Users can create their own task patterns" on public.task_patterns
+  for insert with check (user_id = auth.uid());
+create policy "Users can update their own task patterns" on public.task_patterns
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "Users can read their own calendar feed" on public.calendar_feeds
+  for select using (user_id = auth.uid());
+create policy "Users can create their own calendar feed" on public.calendar_feeds
+  for insert with check (user_id = auth.uid());
+create policy "Users can update their own calendar feed" on public.calendar_feeds
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "Users can read their own settings" on public.user_settings
+  for select using (user_id = auth.uid());
+create policy "Users can create their own settings" on public.user_settings
+  for insert with check (user_id = auth.uid());
+create policy "Users can update their own settings" on public.user_settings
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create policy "Users can read their own rollovers" on public.rollover_log
+  for select using (user_id = auth.uid());
+create policy "Users can create their own rollovers" on public.rollover_log
+  for insert with check (user_id = auth.uid());
+create policy "Users can update their own rollovers" on public.rollover_log
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Usage is append-only, so nobody can wipe their way back under a quota
+create policy "Users can read their own model usage" on public.llm_usage
+  for select using (user_id = auth.uid());
+create policy "Users can record their own model usage" on public.llm_usage
+  for insert with check (user_id = auth.uid());
+
+-- Schedule items, through their schedule. Moving an item to another day
+-- needs both the old and the new schedule to be the user's.
+
+create policy "Users can read their own schedule items" on public.schedule_items
+  for select using (
+    exists (select 1 from public.schedules s where s.id = schedule_items.schedule_id and s.user_id = auth.uid())
+  );
+create policy "Users can create their own schedule items" on public.schedule_items
+  for insert with check (
+    exists (select 1 from public.schedules s where s.id = schedule_items.schedule_id and s.user_id = auth.uid())
+    and (task_id is null or exists (select 1 from public.tasks t where t.id = schedule_items.task_id and t.user_id = auth.uid()))
+  );
+create policy "Users can update their own schedule items" on public.schedule_items
+  for update using (
+    exists (select 1 from public.schedules s where s.id = schedule_items.schedule_id and s.user_id = auth.uid())
+  ) with check (
+    exists (select 1 from public.schedules s where s.id = schedule_items.schedule_id and s.user_id = auth.uid())
+    and (task_id is null or exists (select 1 from public.tasks t where t.id = schedule_items.task_id and t.user_id = auth.uid()))
+  );
@@ -0,0 +1,66 @@
+-- Atomic schedule writes and real deletes for schedule items.
+--
+-- Until now schedule items could not be deleted under RLS, so every writer
+-- reused rows one by one and turned leftovers into blank 23:59 breaks. A
+-- failure halfway left a half-written day, and the blank rows piled up.
+
+-- Users may delete items on their own schedules
+create policy "Users can delete their own schedule items"
+  on public.schedule_items
+  for delete
+  using (
+    exists (
+      select 1 from public.schedules s
+      where s.id = schedule_items.schedule_id
+        and s.user_id = auth.uid()
+    )
+  );
+
+-- Write one or more days in a single transaction. p_days is an array of
+--   { "date": "yyyy-MM-dd", "schedule_data": {...}, "items": [{ task_id,
+--     start_time, end_time, item_type, title, completed }] }
+-- Each day's schedule row is created or updated, its meetings and events are
+-- kept, and every other item is replaced by `items`. Runs as the caller, so
+-- RLS still decides what they can touch.
+create or replace function public.replace_schedules(p_days jsonb)
+returns setof public.schedules
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_day jsonb;
+  v_schedule_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  for v_day in select value from jsonb_array_elements(p_days) loop
+    insert into schedules (user_id, schedule_date, schedule_data)
+    values (auth.uid(), (v_day->>'date')::date, coalesce(v_day->'schedule_data', '{}'::jsonb))
+    on conflict (user_id, schedule_date) do update set schedule_data = excluded.schedule_data
+    returning id into v_schedule_id;
+
+    delete from schedule_items
+    where schedule_items.schedule_id = v_schedule_id
+      and schedule_items.item_type not in ('meeting', 'event');
+
+    insert into schedule_items (schedule_id, task_id, start_time, end_time, item_type, title, completed)
+    select v_schedule_id, item.task_id, item.start_time, item.end_time, item.item_type, item.title, coalesce(item.completed, false)
+    from jsonb_to_recordset(coalesce(v_day->'items', '[]'::jsonb))
+      as item(task_id uuid, start_time time, end_time time, item_type text, title text, completed boolean);
+
+    return query select * from schedules where schedules.id = v_schedule_id;
+  end loop;
+end;
+$$;
+
+grant execute on function public.replace_schedules(jsonb) to authenticated;
+
+-- The blank breaks left behind by the old neutralize-instead-of-delete writes
+delete from public.schedule_items
+where title = ''
+  and item_type = 'break'
+  and task_id is null
+  and completed;
@@ -0,0 +1,34 @@
+-- Personal access tokens, for scripts, CI jobs and editor plugins that call
+-- the API without a browser session. Only a hash of each token is stored;
+-- the token itself is shown once, when it is created.
+--
+-- The API looks tokens up by hash with the service-role client (the caller
+-- isn't signed in yet), so the policies below only cover managing them.
+
+create table public.personal_access_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (length(name) between 1 and 100),
+  token_hash text not null unique,
+  token_prefix text not null, -- the first characters, so the user can tell tokens apart
+  scopes text[] not null check (
+    cardinality(scopes) > 0
+    and scopes <@ array['tasks:read', 'tasks:write', 'schedules:generate']
+  ),
+  expires_at timestamptz, -- null = never
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index personal_access_tokens_user_id_idx on public.personal_access_tokens (user_id, created_at desc);
+
+alter table public.personal_access_tokens enable row level security;
+
+create policy "Users can read their own access tokens" on public.personal_access_tokens
+  for select using (user_id = auth.uid());
+create policy "Users can create their own access tokens" on public.personal_access_tokens
+  for insert with check (user_id = auth.uid());
+-- Revoking is an update; tokens are kept so their last use stays visible
+create policy "Users can update their own access tokens" on public.personal_access_tokens
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,11 @@
+-- Which calendar an imported meeting or event came from.
+--
+-- A re-import clears the events that disappeared from the calendar. Without a
+-- source on each item, importing a second calendar cleared everything the
+-- first one had put on the same days.
+
+alter table public.schedule_items
+  add column external_calendar text;
+
+comment on column public.schedule_items.external_calendar is
+  'Calendar an imported item came from; re-imports only clear stale items from the same calendar';
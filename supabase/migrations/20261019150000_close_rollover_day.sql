@@ -0,0 +1,109 @@
+-- Close a day's rollover in a single transaction.
+--
+-- The rollover used to claim its rollover_log row with empty arrays and then
+-- write the target day and the tasks one request at a time. When one of those
+-- writes failed, the day stayed claimed and was never rolled over. Now the
+-- claim and every write commit together or not at all.
+
+-- Existing items the rollover pushed later, at their earlier times, so undo
+-- can put them back
+alter table public.rollover_log
+  add column moved_items jsonb not null default '[]';
+
+-- p_rollover is
+--   { "from_date": "yyyy-MM-dd", "to_date": "yyyy-MM-dd", "schedule_data": {...},
+--     "tasks": [{ id, title, status, rollover_count, first_scheduled_date,
+--                 priority, needs_decision }],
+--     "moved": [{ id, start_time, end_time, previous_start_time, previous_end_time }],
+--     "added": [{ task_id, start_time, end_time, item_type, title, completed }],
+--     "escalations": [{ task_id, action, previous_priority }] }
+-- A task's priority and needs_decision only change when they are given.
+-- Returns the new rollover_log row, or no row when the day was already closed.
+-- Runs as the caller: a signed-in user can only close their own days, and the
+-- scheduled job calls it with the service role on each user's behalf.
+create or replace function public.close_rollover_day(p_user_id uuid, p_rollover jsonb)
+returns setof public.rollover_log
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_to_date date := (p_rollover->>'to_date')::date;
+  v_tasks jsonb := coalesce(p_rollover->'tasks', '[]'::jsonb);
+  v_moved jsonb := coalesce(p_rollover->'moved', '[]'::jsonb);
+  v_log_id uuid;
+  v_schedule_id uuid;
+  v_item_ids uuid[] := '{}';
+  v_log rollover_log;
+begin
+  if auth.uid() is not null and auth.uid() <> p_user_id then
+    raise exception 'cannot close another user''s day' using errcode = '42501';
+  end if;
+
+  -- The claim: a second run for the same day gets nothing back and writes nothing
+  insert into rollover_log (user_id, from_date, to_date)
+  values (p_user_id, (p_rollover->>'from_date')::date, v_to_date)
+  on conflict (user_id, from_date) do nothing
+  returning id into v_log_id;
+
+  if v_log_id is null then
+    return;
+  end if;
+
+  if jsonb_array_length(v_tasks) > 0 then
+    insert into schedules (user_id, schedule_date, schedule_data)
+    values (p_user_id, v_to_date, coalesce(p_rollover->'schedule_data', '{}'::jsonb))
+    on conflict (user_id, schedule_date) do nothing;
+
+    select id into v_schedule_id
+    from schedules
+    where user_id = p_user_id and schedule_date = v_to_date;
+
+    update schedule_items
+    set start_time = moved.start_time, end_time = moved.end_time
+    from jsonb_to_recordset(v_moved) as moved(id uuid, start_time time, end_time time)
+    where schedule_items.id = moved.id
+      and schedule_items.schedule_id = v_schedule_id;
+
+    with inserted as (
+      insert into schedule_items (schedule_id, task_id, start_time, end_time, item_type, title, completed)
+      select v_schedule_id, item.task_id, item.start_time, item.end_time, item.item_type, item.title, coalesce(item.completed, false)
+      from jsonb_to_recordset(coalesce(p_rollover->'added', '[]'::jsonb))
+        as item(task_id uuid, start_time time, end_time time, item_type text, title text, completed boolean)
+      returning id
+    )
+    select coalesce(array_agg(id), '{}') into v_item_ids from inserted;
+
+    update tasks
+    set status = change.status,
+        rollover_count = change.rollover_count,
+        first_scheduled_date = change.first_scheduled_date,
+        priority = coalesce(change.priority, tasks.priority),
+        needs_decision = coalesce(change.needs_decision, tasks.needs_decision)
+    from jsonb_to_recordset(v_tasks)
+      as change(id uuid, status text, rollover_count integer, first_scheduled_date date, priority text, needs_decision boolean)
+    where tasks.id = change.id
+      and tasks.user_id = p_user_id;
+  end if;
+
+  update rollover_log
+  set task_ids = array(select (task->>'id')::uuid from jsonb_array_elements(v_tasks) with ordinality as t(task, n) order by n),
+      task_titles = array(select task->>'title' from jsonb_array_elements(v_tasks) with ordinality as t(task, n) order by n),
+      item_ids = v_item_ids,
+      escalations = coalesce(p_rollover->'escalations', '[]'::jsonb),
+      moved_items = (
+        select coalesce(jsonb_agg(jsonb_build_object(
+          'id', moved->'id',
+          'start_time', moved->'previous_start_time',
+          'end_time', moved->'previous_end_time'
+        )), '[]'::jsonb)
+        from jsonb_array_elements(v_moved) as m(moved)
+      )
+  where rollover_log.id = v_log_id
+  returning * into v_log;
+
+  return next v_log;
+end;
+$$;
+
+grant execute on function public.close_rollover_day(uuid, jsonb) to authenticated, service_role;
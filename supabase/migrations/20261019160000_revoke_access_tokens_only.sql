@@ -0,0 +1,17 @@
+-- Signed-in users could update any column of their own access tokens, so a
+-- revoked token could be revived, or a token given more scopes or a later
+-- expiry than it was created with. The only update a user may make now is
+-- setting revoked_at on a token that isn't revoked yet.
+--
+-- last_used_at is still written by the API with the service-role client,
+-- which isn't affected by either change.
+
+revoke update on public.personal_access_tokens from authenticated, anon;
+grant update (revoked_at) on public.personal_access_tokens to authenticated;
+
+drop policy "Users can update their own access tokens" on public.personal_access_tokens;
+-- Revoking is an update; tokens are kept so their last use stays visible.
+-- Only live tokens can be updated, and only into a revoked one.
+create policy "Users can revoke their own access tokens" on public.personal_access_tokens
+  for update using (user_id = auth.uid() and revoked_at is null)
+  with check (user_id = auth.uid() and revoked_at is not null);
@@ -0,0 +1,53 @@
+-- Atomic schedule item edits.
+--
+-- Moving, splitting and reordering an item re-times every item after it, one
+-- request per item. A failure halfway left the day with overlapping or
+-- out-of-order items, and a move could leave the item on neither day's
+-- order. Now each edit is written in a single transaction.
+
+-- p_edit is
+--   { "updates": [{ id, schedule_id?, start_time, end_time }],
+--     "added": [{ schedule_id, task_id, start_time, end_time, item_type, title, completed }] }
+-- An update with a schedule_id moves the item to that schedule. Raises, with
+-- nothing written, when an item to update is gone or not the caller's.
+-- Returns the added items. Runs as the caller, so RLS still decides what they
+-- can touch.
+create or replace function public.edit_schedule_items(p_edit jsonb)
+returns setof public.schedule_items
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_updates jsonb := coalesce(p_edit->'updates', '[]'::jsonb);
+  v_updated integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  update schedule_items
+  set schedule_id = coalesce(change.schedule_id, schedule_items.schedule_id),
+      start_time = change.start_time,
+      end_time = change.end_time
+  from jsonb_to_recordset(v_updates) as change(id uuid, schedule_id uuid, start_time time, end_time time)
+  where schedule_items.id = change.id;
+
+  get diagnostics v_updated = row_count;
+  if v_updated <> jsonb_array_length(v_updates) then
+    raise exception 'schedule item not found' using errcode = 'P0002';
+  end if;
+
+  return query
+    with inserted as (
+      insert into schedule_items (schedule_id, task_id, start_time, end_time, item_type, title, completed)
+      select item.schedule_id, item.task_id, item.start_time, item.end_time, item.item_type, item.title, coalesce(item.completed, false)
+      from jsonb_to_recordset(coalesce(p_edit->'added', '[]'::jsonb))
+        as item(schedule_id uuid, task_id uuid, start_time time, end_time time, item_type text, title text, completed boolean)
+      returning *
+    )
+    select * from inserted;
+end;
+$$;
+
+grant execute on function public.edit_schedule_items(jsonb) to authenticated;
@@ -0,0 +1,56 @@
+-- Add up LLM usage in the database.
+--
+-- The budget check and the usage panel used to read every llm_usage row and
+-- add them up in the app. PostgREST returns at most max-rows (1000) rows per
+-- request, so a heavy user's month was undercounted and their budget never
+-- ran out. These return the sums instead of the rows.
+
+-- Input + output tokens the user has used since p_since
+create or replace function public.sum_llm_tokens(p_user_id uuid, p_since timestamptz)
+returns bigint
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select coalesce(sum(input_tokens + output_tokens), 0)::bigint
+  from llm_usage
+  where user_id = p_user_id
+    and created_at >= p_since;
+$$;
+
+-- Usage between p_from (inclusive) and p_to (exclusive), one row per day in
+-- p_time_zone and model. latency_ms is the total, so callers can average
+-- across rows.
+create or replace function public.summarize_llm_usage(p_user_id uuid, p_from timestamptz, p_to timestamptz, p_time_zone text)
+returns table (
+  date date,
+  model text,
+  requests bigint,
+  failed bigint,
+  input_tokens bigint,
+  output_tokens bigint,
+  latency_ms bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select (usage.created_at at time zone p_time_zone)::date,
+         usage.model,
+         count(*),
+         count(*) filter (where not usage.success),
+         coalesce(sum(usage.input_tokens), 0)::bigint,
+         coalesce(sum(usage.output_tokens), 0)::bigint,
+         coalesce(sum(usage.latency_ms), 0)::bigint
+  from llm_usage as usage
+  where usage.user_id = p_user_id
+    and usage.created_at >= p_from
+    and usage.created_at < p_to
+  group by 1, 2
+  order by 1, 2;
+$$;
+
+grant execute on function public.sum_llm_tokens(uuid, timestamptz) to authenticated;
+grant execute on function public.summarize_llm_usage(uuid, timestamptz, timestamptz, text) to authenticated;
@@ -0,0 +1,18 @@
+-- One task per recurring template and date.
+--
+-- Occurrences were created by reading the existing ones and inserting the
+-- rest, so two dashboard loads at once could both insert the same week.
+-- The unique index lets the insert skip what is already there instead
+-- (on conflict do nothing). Tasks without a template have a null
+-- template_id and never conflict.
+
+-- Keep the oldest of any duplicates made before the index existed
+delete from public.tasks as duplicate
+using public.tasks as original
+where duplicate.template_id = original.template_id
+  and duplicate.scheduled_for = original.scheduled_for
+  and (duplicate.created_at, duplicate.id) > (original.created_at, original.id);
+
+drop index public.tasks_template_id_scheduled_for_idx;
+
+create unique index tasks_template_id_scheduled_for_key on public.tasks (template_id, scheduled_for);
@@ -0,0 +1,64 @@
+-- Item changes and deletes in the same transaction as the re-timing.
+--
+-- Changing an item's length, title or completion and deleting an item both
+-- re-time the rest of the day. The item was written first and the day after,
+-- so a failure in between left items overlapping or a gap where the deleted
+-- one had been. edit_schedule_items now takes those changes too.
+
+-- p_edit is
+--   { "updates": [{ id, schedule_id?, start_time, end_time, title?, completed? }],
+--     "added": [{ schedule_id, task_id, start_time, end_time, item_type, title, completed }],
+--     "deleted": [id] }
+-- An update with a schedule_id moves the item to that schedule; a title or
+-- completed changes it too. Raises, with nothing written, when an item to
+-- update or delete is gone or not the caller's. Returns the added items. Runs
+-- as the caller, so RLS still decides what they can touch.
+create or replace function public.edit_schedule_items(p_edit jsonb)
+returns setof public.schedule_items
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_updates jsonb := coalesce(p_edit->'updates', '[]'::jsonb);
+  v_deleted jsonb := coalesce(p_edit->'deleted', '[]'::jsonb);
+  v_count integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated' using errcode = '42501';
+  end if;
+
+  delete from schedule_items
+  where id in (select value::uuid from jsonb_array_elements_text(v_deleted));
+
+  get diagnostics v_count = row_count;
+  if v_count <> jsonb_array_length(v_deleted) then
+    raise exception 'schedule item not found' using errcode = 'P0002';
+  end if;
+
+  update schedule_items
+  set schedule_id = coalesce(change.schedule_id, schedule_items.schedule_id),
+      start_time = change.start_time,
+      end_time = change.end_time,
+      title = coalesce(change.title, schedule_items.title),
+      completed = coalesce(change.completed, schedule_items.completed)
+  from jsonb_to_recordset(v_updates)
+    as change(id uuid, schedule_id uuid, start_time time, end_time time, title text, completed boolean)
+  where schedule_items.id = change.id;
+
+  get diagnostics v_count = row_count;
+  if v_count <> jsonb_array_length(v_updates) then
+    raise exception 'schedule item not found' using errcode = 'P0002';
+  end if;
+
+  return query
+    with inserted as (
+      insert into schedule_items (schedule_id, task_id, start_time, end_time, item_type, title, completed)
+      select item.schedule_id, item.task_id, item.start_time, item.end_time, item.item_type, item.title, coalesce(item.completed, false)
+      from jsonb_to_recordset(coalesce(p_edit->'added', '[]'::jsonb))
+        as item(schedule_id uuid, task_id uuid, start_time time, end_time time, item_type text, title text, completed boolean)
+      returning *
+    )
+    select * from inserted;
+end;
+$$;
@@ -0,0 +1,62 @@
+-- Undo a day's rollover in a single transaction, the mirror of close_rollover_day.
+--
+-- Undo used to delete the added items, put the pushed items back and revert
+-- each task one request at a time, then mark the log undone. A failure part
+-- way left some tasks rolled back and others not, with the log still open.
+-- Now it all commits together or not at all.
+
+-- Marks the rollover_log row undone first, so a second undo gets no row back
+-- and writes nothing. Then the items the rollover added are deleted, the
+-- items it pushed later go back to their earlier times, and its tasks go back
+-- to scheduled with one slip fewer and any escalation reverted. Returns the
+-- log row. Runs as the caller, like close_rollover_day.
+create or replace function public.undo_rollover_day(p_user_id uuid, p_log_id uuid)
+returns setof public.rollover_log
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_log rollover_log;
+begin
+  if auth.uid() is not null and auth.uid() <> p_user_id then
+    raise exception 'cannot undo another user''s day' using errcode = '42501';
+  end if;
+
+  update rollover_log
+  set undone_at = now()
+  where id = p_log_id
+    and user_id = p_user_id
+    and undone_at is null
+  returning * into v_log;
+
+  if v_log.id is null then
+    return;
+  end if;
+
+  delete from schedule_items
+  where id = any(v_log.item_ids);
+
+  update schedule_items
+  set start_time = moved.start_time, end_time = moved.end_time
+  from jsonb_to_recordset(v_log.moved_items) as moved(id uuid, start_time time, end_time time)
+  where schedule_items.id = moved.id;
+
+  update tasks
+  set status = case when tasks.status = 'rolled_over' then 'scheduled' else tasks.status end,
+      rollover_count = greatest(0, tasks.rollover_count - 1),
+      first_scheduled_date = case when tasks.rollover_count <= 1 then null else tasks.first_scheduled_date end,
+      priority = case when escalation.action = 'bump_priority' then escalation.previous_priority else tasks.priority end,
+      needs_decision = case when escalation.action = 'decide' then false else tasks.needs_decision end
+  from unnest(v_log.task_ids) as rolled(id)
+  left join jsonb_to_recordset(v_log.escalations)
+    as escalation(task_id uuid, action text, previous_priority text)
+    on escalation.task_id = rolled.id
+  where tasks.id = rolled.id
+    and tasks.user_id = p_user_id;
+
+  return next v_log;
+end;
+$$;
+
+grant execute on function public.undo_rollover_day(uuid, uuid) to authenticated, service_role;
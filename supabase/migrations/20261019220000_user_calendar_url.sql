@@ -0,0 +1,9 @@
+-- Each user's own calendar feed.
+--
+-- The dashboard synced one server-wide CALENDAR_ICS_URL onto the schedule of
+-- every user who opened it, so everyone got the same meetings. The feed is
+-- now a setting of its own, and only web addresses are accepted since the
+-- server fetches it.
+
+alter table public.user_settings
+  add column calendar_url text check (calendar_url ~ '^https?://');
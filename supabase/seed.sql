@@ -0,0 +1,57 @@
+-- Local development data, loaded by `supabase db reset` after the migrations.
+--
+-- Two users, so row-level security can be seen at work:
+--   dev@example.com   / password  — settings, tasks, a recurring template and today's schedule
+--   other@example.com / password  — one task, which dev must never see
+
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+)
+values
+  ('00000000-0000-0000-0000-000000000000', '00000000-0000-0000-0000-00000000d001', 'authenticated', 'authenticated',
+   'dev@example.com', crypt('password', gen_salt('bf')), now(),
+   '{"provider": "email", "providers": ["email"]}', '{}', now(), now(), '', '', '', ''),
+  ('00000000-0000-0000-0000-000000000000', '00000000-0000-0000-0000-00000000d002', 'authenticated', 'authenticated',
+   'other@example.com', crypt('password', gen_salt('bf')), now(),
+   '{"provider": "email", "providers": ["email"]}', '{}', now(), now(), '', '', '', '');
+
+insert into auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+select gen_random_uuid(), id, id::text, jsonb_build_object('sub', id::text, 'email', email), 'email', now(), now(), now()
+from auth.users
+where id in ('00000000-0000-0000-0000-00000000d001', '00000000-0000-0000-0000-00000000d002');
+
+insert into public.user_settings (user_id, day_start, day_end, workdays, lunch_start, lunch_duration, weekday_overrides, time_zone)
+values ('00000000-0000-0000-0000-00000000d001', '09:00', '17:00', '{1,2,3,4,5}', '12:30', 45,
+        '{"5": {"day_end": "15:00"}}', 'Europe/London');
+
+insert into public.task_templates (id, user_id, title, estimated_duration, priority, rrule, starts_on)
+values ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000d001',
+        'Weekly planning', 30, 'medium', 'FREQ=WEEKLY;BYDAY=MO', current_date);
+
+insert into public.tasks (id, user_id, title, estimated_duration, priority, status, due_date, due_time, blocked_by)
+values
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-00000000d001',
+   'Write the quarterly report', 120, 'high', 'pending', current_date + 3, '17:00', '{}'),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-00000000d001',
+   'Review report with Sam', 30, 'medium', 'pending', current_date + 4, null, '{00000000-0000-0000-0000-0000000000b1}'),
+  ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-00000000d001',
+   'Answer support emails', 45, 'medium', 'scheduled', null, null, '{}'),
+  ('00000000-0000-0000-0000-0000000000b4', '00000000-0000-0000-0000-00000000d001',
+   'Clean up the shared drive', 60, 'low', 'pending', null, null, '{}'),
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000d002',
+   'Someone else''s private task', 30, 'high', 'pending', null, null, '{}');
+
+insert into public.schedules (id, user_id, schedule_date, schedule_data)
+values ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000d001', current_date,
+        '{"total_hours": 7, "work_blocks": 1, "break_blocks": 1, "suggestions": []}');
+
+insert into public.schedule_items (schedule_id, task_id, start_time, end_time, item_type, title)
+values
+  ('00000000-0000-0000-0000-0000000000e1', null, '10:00', '10:30', 'meeting', 'Team standup'),
+  ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000b3', '10:30', '11:15', 'task', 'Answer support emails'),
+  ('00000000-0000-0000-0000-0000000000e1', null, '12:30', '13:15', 'lunch', 'Lunch');
+
+insert into public.task_patterns (user_id, task_keywords, average_duration, completion_rate, times_scheduled, times_completed)
+values ('00000000-0000-0000-0000-00000000d001', '{report, quarterly}', 140, 0.75, 4, 3);
@@ -0,0 +1,141 @@
+-- Row-level security: one signed-in user can't read or write another user's
+-- tasks, schedules, schedule items, templates, patterns or access tokens.
+-- Run with `npm run test:rls` (supabase test db) against the local database.
+--
+-- Everything happens in one transaction that is rolled back, so the seed data
+-- is left alone. Rows are set up as the table owner, then each check runs as
+-- `authenticated` with the JWT claims of the user under test.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(45);
+
+-- Alice is the user under test; every row of Bob's must stay out of her reach
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-0000000a11ce', 'alice@rls.test'),
+       ('00000000-0000-0000-0000-000000000b0b', 'bob@rls.test');
+
+insert into public.task_templates (id, user_id, title, rrule, starts_on)
+values ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-000000000b0b', 'Bob''s standup notes', 'FREQ=DAILY', current_date);
+
+insert into public.tasks (id, user_id, title)
+values ('00000000-0000-0000-0000-0000000a1001', '00000000-0000-0000-0000-0000000a11ce', 'Alice''s task'),
+       ('00000000-0000-0000-0000-00000000b002', '00000000-0000-0000-0000-000000000b0b', 'Bob''s task');
+
+insert into public.schedules (id, user_id, schedule_date)
+values ('00000000-0000-0000-0000-0000000a1002', '00000000-0000-0000-0000-0000000a11ce', current_date),
+       ('00000000-0000-0000-0000-00000000b003', '00000000-0000-0000-0000-000000000b0b', current_date);
+
+insert into public.schedule_items (id, schedule_id, task_id, start_time, end_time, item_type, title)
+values ('00000000-0000-0000-0000-0000000a1003', '00000000-0000-0000-0000-0000000a1002', '00000000-0000-0000-0000-0000000a1001', '09:00', '10:00', 'task', 'Alice''s task'),
+       ('00000000-0000-0000-0000-00000000b004', '00000000-0000-0000-0000-00000000b003', '00000000-0000-0000-0000-00000000b002', '09:00', '10:00', 'task', 'Bob''s task');
+
+insert into public.task_patterns (id, user_id, task_keywords, average_duration)
+values ('00000000-0000-0000-0000-00000000b005', '00000000-0000-0000-0000-000000000b0b', '{standup}', 15);
+
+insert into public.personal_access_tokens (id, user_id, name, token_hash, token_prefix, scopes, revoked_at)
+values ('00000000-0000-0000-0000-0000000a1004', '00000000-0000-0000-0000-0000000a11ce', 'Alice live', 'hash-a1', 'tfp_a1', '{tasks:read}', null),
+       ('00000000-0000-0000-0000-0000000a1005', '00000000-0000-0000-0000-0000000a11ce', 'Alice revoked', 'hash-a2', 'tfp_a2', '{tasks:read}', now()),
+       ('00000000-0000-0000-0000-00000000b006', '00000000-0000-0000-0000-000000000b0b', 'Bob CI', 'hash-b1', 'tfp_b1', '{tasks:write}', null);
+
+insert into public.llm_usage (user_id, operation, provider, model, success, input_tokens, output_tokens)
+values ('00000000-0000-0000-0000-000000000b0b', 'parse_tasks', 'mock', 'mock', true, 100, 50);
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "00000000-0000-0000-0000-0000000a11ce", "role": "authenticated"}';
+
+-- Reading
+
+select results_eq('select id from public.tasks', $$values ('00000000-0000-0000-0000-0000000a1001'::uuid)$$, 'tasks: only her own are visible');
+select results_eq('select id from public.schedules', $$values ('00000000-0000-0000-0000-0000000a1002'::uuid)$$, 'schedules: only her own are visible');
+select results_eq('select id from public.schedule_items', $$values ('00000000-0000-0000-0000-0000000a1003'::uuid)$$, 'schedule items: only those on her schedules are visible');
+select is_empty('select id from public.task_templates', 'templates: Bob''s are hidden');
+select is_empty('select id from public.task_patterns', 'patterns: Bob''s are hidden');
+select is_empty($$select id from public.personal_access_tokens where user_id <> auth.uid()$$, 'tokens: Bob''s are hidden');
+
+-- Creating rows for Bob
+
+select throws_ok($$insert into public.tasks (user_id, title) values ('00000000-0000-0000-0000-000000000b0b', 'Planted')$$,
+  '42501', null, 'tasks: can''t create one for Bob');
+select throws_ok($$insert into public.schedules (user_id, schedule_date) values ('00000000-0000-0000-0000-000000000b0b', current_date + 1)$$,
+  '42501', null, 'schedules: can''t create one for Bob');
+select throws_ok($$insert into public.schedule_items (schedule_id, start_time, end_time, item_type, title)
+                   values ('00000000-0000-0000-0000-00000000b003', '11:00', '12:00', 'meeting', 'Planted')$$,
+  '42501', null, 'schedule items: can''t add one to Bob''s schedule');
+select throws_ok($$insert into public.schedule_items (schedule_id, task_id, start_time, end_time, item_type, title)
+                   values ('00000000-0000-0000-0000-0000000a1002', '00000000-0000-0000-0000-00000000b002', '11:00', '12:00', 'task', 'Stolen')$$,
+  '42501', null, 'schedule items: can''t point one of hers at Bob''s task');
+select throws_ok($$insert into public.task_templates (user_id, title, rrule, starts_on) values ('00000000-0000-0000-0000-000000000b0b', 'Planted', 'FREQ=DAILY', current_date)$$,
+  '42501', null, 'templates: can''t create one for Bob');
+select throws_ok($$insert into public.task_patterns (user_id, task_keywords, average_duration) values ('00000000-0000-0000-0000-000000000b0b', '{planted}', 5)$$,
+  '42501', null, 'patterns: can''t create one for Bob');
+select throws_ok($$insert into public.personal_access_tokens (user_id, name, token_hash, token_prefix, scopes)
+                   values ('00000000-0000-0000-0000-000000000b0b', 'Planted', 'hash-x', 'tfp_x', '{tasks:write}')$$,
+  '42501', null, 'tokens: can''t create one for Bob');
+
+-- Changing or deleting Bob's rows: under RLS they simply aren't there
+
+select is_empty($$update public.tasks set title = 'Hacked' where id = '00000000-0000-0000-0000-00000000b002' returning id$$, 'tasks: can''t update Bob''s');
+select is_empty($$delete from public.tasks where id = '00000000-0000-0000-0000-00000000b002' returning id$$, 'tasks: can''t delete Bob''s');
+select is_empty($$update public.schedules set schedule_data = '{"hacked": true}' where id = '00000000-0000-0000-0000-00000000b003' returning id$$, 'schedules: can''t update Bob''s');
+select is_empty($$update public.schedule_items set title = 'Hacked' where id = '00000000-0000-0000-0000-00000000b004' returning id$$, 'schedule items: can''t update Bob''s');
+select is_empty($$delete from public.schedule_items where id = '00000000-0000-0000-0000-00000000b004' returning id$$, 'schedule items: can''t delete Bob''s');
+select is_empty($$update public.task_templates set title = 'Hacked' where id = '00000000-0000-0000-0000-00000000b001' returning id$$, 'templates: can''t update Bob''s');
+select is_empty($$delete from public.task_templates where id = '00000000-0000-0000-0000-00000000b001' returning id$$, 'templates: can''t delete Bob''s');
+select is_empty($$update public.task_patterns set average_duration = 999 where id = '00000000-0000-0000-0000-00000000b005' returning id$$, 'patterns: can''t update Bob''s');
+select is_empty($$update public.personal_access_tokens set revoked_at = now() where id = '00000000-0000-0000-0000-00000000b006' returning id$$, 'tokens: can''t revoke Bob''s');
+
+-- Handing her rows to Bob
+
+select throws_ok($$update public.tasks set user_id = '00000000-0000-0000-0000-000000000b0b' where id = '00000000-0000-0000-0000-0000000a1001'$$,
+  '42501', null, 'tasks: can''t hand one to Bob');
+select throws_ok($$update public.schedules set user_id = '00000000-0000-0000-0000-000000000b0b' where id = '00000000-0000-0000-0000-0000000a1002'$$,
+  '42501', null, 'schedules: can''t hand one to Bob');
+select throws_ok($$update public.schedule_items set schedule_id = '00000000-0000-0000-0000-00000000b003' where id = '00000000-0000-0000-0000-0000000a1003'$$,
+  '42501', null, 'schedule items: can''t move one onto Bob''s schedule');
+
+-- Her own tokens: revoking is the only change, and it is one-way
+
+select throws_ok($$update public.personal_access_tokens set scopes = '{tasks:read,tasks:write}' where id = '00000000-0000-0000-0000-0000000a1004'$$,
+  '42501', null, 'tokens: can''t widen the scopes');
+select throws_ok($$update public.personal_access_tokens set expires_at = now() + interval '10 years' where id = '00000000-0000-0000-0000-0000000a1004'$$,
+  '42501', null, 'tokens: can''t extend the expiry');
+select is_empty($$update public.personal_access_tokens set revoked_at = null where id = '00000000-0000-0000-0000-0000000a1005' returning id$$, 'tokens: can''t un-revoke one');
+select isnt_empty($$update public.personal_access_tokens set revoked_at = now() where id = '00000000-0000-0000-0000-0000000a1004' returning id$$, 'tokens: can revoke her own');
+
+-- Database functions run as the caller
+
+select throws_ok($$select * from public.close_rollover_day('00000000-0000-0000-0000-000000000b0b', '{"from_date": "2026-01-01", "to_date": "2026-01-02"}')$$,
+  '42501', null, 'close_rollover_day: can''t close Bob''s day');
+select throws_ok($$select * from public.undo_rollover_day('00000000-0000-0000-0000-000000000b0b', gen_random_uuid())$$,
+  '42501', null, 'undo_rollover_day: can''t undo Bob''s day');
+select throws_ok($$select * from public.edit_schedule_items('{"updates": [{"id": "00000000-0000-0000-0000-00000000b004", "start_time": "13:00", "end_time": "14:00"}]}')$$,
+  'P0002', null, 'edit_schedule_items: can''t re-time Bob''s item');
+select throws_ok($$select * from public.edit_schedule_items('{"deleted": ["00000000-0000-0000-0000-00000000b004"]}')$$,
+  'P0002', null, 'edit_schedule_items: can''t delete Bob''s item');
+select throws_ok($$select * from public.edit_schedule_items('{"added": [{"schedule_id": "00000000-0000-0000-0000-00000000b003", "start_time": "13:00", "end_time": "14:00", "item_type": "meeting", "title": "Planted"}]}')$$,
+  '42501', null, 'edit_schedule_items: can''t add to Bob''s schedule');
+select is((select public.sum_llm_tokens('00000000-0000-0000-0000-000000000b0b', now() - interval '1 day')), 0::bigint,
+  'sum_llm_tokens: Bob''s usage adds up to nothing');
+select results_eq($$select user_id from public.replace_schedules('[{"date": "2030-01-01", "items": []}]')$$,
+  $$values ('00000000-0000-0000-0000-0000000a11ce'::uuid)$$, 'replace_schedules: writes her own day');
+
+-- Back as the owner: Bob's rows are exactly as they were
+
+reset role;
+
+select is((select title from public.tasks where id = '00000000-0000-0000-0000-00000000b002'), 'Bob''s task', 'Bob''s task is unchanged');
+select is((select schedule_data from public.schedules where id = '00000000-0000-0000-0000-00000000b003'), '{}'::jsonb, 'Bob''s schedule is unchanged');
+select is((select title || ' ' || start_time from public.schedule_items where id = '00000000-0000-0000-0000-00000000b004'), 'Bob''s task 09:00:00', 'Bob''s item is unchanged');
+select is((select count(*) from public.schedule_items where schedule_id = '00000000-0000-0000-0000-00000000b003'), 1::bigint, 'Bob''s schedule got no new items');
+select is((select title from public.task_templates where id = '00000000-0000-0000-0000-00000000b001'), 'Bob''s standup notes', 'Bob''s template is unchanged');
+select is((select average_duration from public.task_patterns where id = '00000000-0000-0000-0000-00000000b005'), 15, 'Bob''s pattern is unchanged');
+select is((select revoked_at from public.personal_access_tokens where id = '00000000-0000-0000-0000-00000000b006'), null, 'Bob''s token is still live');
+select isnt((select revoked_at from public.personal_access_tokens where id = '00000000-0000-0000-0000-0000000a1005'), null, 'Alice''s revoked token stays revoked');
+select is((select count(*) from public.rollover_log where user_id = '00000000-0000-0000-0000-000000000b0b'), 0::bigint, 'No rollover was logged for Bob');
+
+select * from finish();
+
+rollback;